@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { defaultAbiCoder } from "@ethersproject/abi";
+import { AAVE_V2_ERRORS, decodeRevertReason, explainRevertReason } from "./aave-errors.js";
+
+const errorString = (reason: string) => `0x08c379a0${defaultAbiCoder.encode(["string"], [reason]).slice(2)}`;
+
+describe("AAVE_V2_ERRORS", () => {
+  test("covers every code from 1 to 80 with a unique name", () => {
+    const codes = Object.keys(AAVE_V2_ERRORS).map(Number);
+    const names = Object.values(AAVE_V2_ERRORS).map((e) => e.name);
+
+    expect(codes).toEqual(Array.from({ length: 80 }, (_, i) => i + 1));
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  test("matches the protocol-v2 Errors library", () => {
+    expect(AAVE_V2_ERRORS["11"]?.name).toBe("VL_COLLATERAL_CANNOT_COVER_NEW_BORROW");
+    expect(AAVE_V2_ERRORS["33"]?.name).toBe("CALLER_NOT_POOL_ADMIN");
+    expect(AAVE_V2_ERRORS["59"]?.name).toBe("BORROW_ALLOWANCE_NOT_ENOUGH");
+    expect(AAVE_V2_ERRORS["77"]?.name).toBe("UL_INVALID_INDEX");
+  });
+});
+
+describe("explainRevertReason", () => {
+  test("names known codes", () => {
+    expect(explainRevertReason(" 3 ")).toEqual({
+      reason: "3",
+      code: "3",
+      name: "VL_RESERVE_FROZEN",
+      explanation: "The reserve is frozen; new deposits and borrows are disabled (VL_RESERVE_FROZEN, code 3)",
+    });
+  });
+
+  test("keeps unknown codes and plain strings", () => {
+    expect(explainRevertReason("999")).toEqual({ reason: "999", code: "999", explanation: "Bonzo error code 999" });
+    expect(explainRevertReason("SafeERC20: low-level call failed")).toEqual({
+      reason: "SafeERC20: low-level call failed",
+      explanation: "SafeERC20: low-level call failed",
+    });
+  });
+});
+
+describe("decodeRevertReason", () => {
+  test("decodes Error(string) payloads carrying Aave codes", () => {
+    expect(decodeRevertReason(errorString("11"))?.name).toBe("VL_COLLATERAL_CANNOT_COVER_NEW_BORROW");
+    expect(decodeRevertReason(errorString("not allowed"))?.explanation).toBe("not allowed");
+  });
+
+  test("decodes Panic(uint256) payloads", () => {
+    const panic = `0x4e487b71${defaultAbiCoder.encode(["uint256"], [0x11]).slice(2)}`;
+
+    expect(decodeRevertReason(panic)?.reason).toBe("Panic(0x11)");
+  });
+
+  test("passes decoded reason strings through", () => {
+    expect(decodeRevertReason("1")?.name).toBe("VL_INVALID_AMOUNT");
+  });
+
+  test("reports unrecognized data and ignores empty data", () => {
+    expect(decodeRevertReason("0xdeadbeef")?.explanation).toBe("Unrecognized revert data 0xdeadbeef");
+    expect(decodeRevertReason("0x08c379a0")?.reason).toBe("0x08c379a0");
+    expect(decodeRevertReason("0x")).toBeUndefined();
+    expect(decodeRevertReason("")).toBeUndefined();
+    expect(decodeRevertReason(null)).toBeUndefined();
+  });
+});
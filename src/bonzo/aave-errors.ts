@@ -0,0 +1,141 @@
+import { defaultAbiCoder } from "@ethersproject/abi";
+
+/**
+ * Aave v2 `Errors` library (protocol-v2 `Errors.sol`, codes 1-80): contracts revert with the numeric code as the reason string (e.g. "9")
+ */
+export const AAVE_V2_ERRORS: Record<string, { name: string; message: string }> = {
+  "1": { name: "VL_INVALID_AMOUNT", message: "Amount must be greater than 0" },
+  "2": { name: "VL_NO_ACTIVE_RESERVE", message: "The reserve is not active" },
+  "3": { name: "VL_RESERVE_FROZEN", message: "The reserve is frozen; new deposits and borrows are disabled" },
+  "4": { name: "VL_CURRENT_AVAILABLE_LIQUIDITY_NOT_ENOUGH", message: "The reserve does not have enough available liquidity" },
+  "5": { name: "VL_NOT_ENOUGH_AVAILABLE_USER_BALANCE", message: "Cannot withdraw more than the supplied balance" },
+  "6": { name: "VL_TRANSFER_NOT_ALLOWED", message: "Transfer not allowed: it would leave the position undercollateralized" },
+  "7": { name: "VL_BORROWING_NOT_ENABLED", message: "Borrowing is not enabled for this reserve" },
+  "8": { name: "VL_INVALID_INTEREST_RATE_MODE_SELECTED", message: "Invalid interest rate mode selected" },
+  "9": { name: "VL_COLLATERAL_BALANCE_IS_0", message: "The account has no collateral; supply and enable collateral before borrowing" },
+  "10": { name: "VL_HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD", message: "The action would bring the health factor below 1" },
+  "11": { name: "VL_COLLATERAL_CANNOT_COVER_NEW_BORROW", message: "Not enough collateral to cover the new borrow" },
+  "12": { name: "VL_STABLE_BORROWING_NOT_ENABLED", message: "Stable rate borrowing is not enabled for this reserve" },
+  "13": { name: "VL_COLLATERAL_SAME_AS_BORROWING_CURRENCY", message: "Cannot borrow at stable rate against collateral in the same asset" },
+  "14": { name: "VL_AMOUNT_BIGGER_THAN_MAX_LOAN_SIZE_STABLE", message: "Amount exceeds the maximum stable rate loan size" },
+  "15": { name: "VL_NO_DEBT_OF_SELECTED_TYPE", message: "No debt of the selected rate mode to repay" },
+  "16": { name: "VL_NO_EXPLICIT_AMOUNT_TO_REPAY_ON_BEHALF", message: "Repaying on behalf of another account requires an explicit amount, not max" },
+  "17": { name: "VL_NO_STABLE_RATE_LOAN_IN_RESERVE", message: "The account has no stable rate loan in this reserve" },
+  "18": { name: "VL_NO_VARIABLE_RATE_LOAN_IN_RESERVE", message: "The account has no variable rate loan in this reserve" },
+  "19": { name: "VL_UNDERLYING_BALANCE_NOT_GREATER_THAN_0", message: "The supplied balance must be greater than 0" },
+  "20": { name: "VL_DEPOSIT_ALREADY_IN_USE", message: "The deposit is already used as collateral" },
+  "21": { name: "LP_NOT_ENOUGH_STABLE_BORROW_BALANCE", message: "The account has no stable rate loan for this reserve" },
+  "22": { name: "LP_INTEREST_RATE_REBALANCE_CONDITIONS_NOT_MET", message: "Stable rate rebalance conditions are not met" },
+  "23": { name: "LP_LIQUIDATION_CALL_FAILED", message: "Liquidation call failed" },
+  "24": { name: "LP_NOT_ENOUGH_LIQUIDITY_TO_BORROW", message: "Not enough liquidity available to borrow" },
+  "25": { name: "LP_REQUESTED_AMOUNT_TOO_SMALL", message: "The requested flash loan amount is too small" },
+  "26": { name: "LP_INCONSISTENT_PROTOCOL_ACTUAL_BALANCE", message: "The protocol's actual balance is inconsistent" },
+  "27": { name: "LP_CALLER_NOT_LENDING_POOL_CONFIGURATOR", message: "Caller is not the lending pool configurator" },
+  "28": { name: "LP_INCONSISTENT_FLASHLOAN_PARAMS", message: "Inconsistent flash loan parameters" },
+  "29": { name: "CT_CALLER_MUST_BE_LENDING_POOL", message: "Caller must be the lending pool" },
+  "30": { name: "CT_CANNOT_GIVE_ALLOWANCE_TO_HIMSELF", message: "An account cannot give allowance to itself" },
+  "31": { name: "CT_TRANSFER_AMOUNT_NOT_GT_0", message: "Transferred amount must be greater than 0" },
+  "32": { name: "RL_RESERVE_ALREADY_INITIALIZED", message: "Reserve has already been initialized" },
+  "33": { name: "CALLER_NOT_POOL_ADMIN", message: "Caller is not the pool admin" },
+  "34": { name: "LPC_RESERVE_LIQUIDITY_NOT_0", message: "The reserve's liquidity must be 0" },
+  "35": { name: "LPC_INVALID_ATOKEN_POOL_ADDRESS", message: "Invalid aToken pool address" },
+  "36": { name: "LPC_INVALID_STABLE_DEBT_TOKEN_POOL_ADDRESS", message: "Invalid stable debt token pool address" },
+  "37": { name: "LPC_INVALID_VARIABLE_DEBT_TOKEN_POOL_ADDRESS", message: "Invalid variable debt token pool address" },
+  "38": { name: "LPC_INVALID_STABLE_DEBT_TOKEN_UNDERLYING_ADDRESS", message: "Invalid stable debt token underlying address" },
+  "39": { name: "LPC_INVALID_VARIABLE_DEBT_TOKEN_UNDERLYING_ADDRESS", message: "Invalid variable debt token underlying address" },
+  "40": { name: "LPC_INVALID_ADDRESSES_PROVIDER_ID", message: "Invalid addresses provider ID" },
+  "41": { name: "LPAPR_PROVIDER_NOT_REGISTERED", message: "Addresses provider is not registered" },
+  "42": { name: "LPCM_HEALTH_FACTOR_NOT_BELOW_THRESHOLD", message: "The position is not liquidatable: health factor is not below 1" },
+  "43": { name: "LPCM_COLLATERAL_CANNOT_BE_LIQUIDATED", message: "The chosen collateral cannot be liquidated" },
+  "44": { name: "LPCM_SPECIFIED_CURRENCY_NOT_BORROWED_BY_USER", message: "The account did not borrow the specified asset" },
+  "45": { name: "LPCM_NOT_ENOUGH_LIQUIDITY_TO_LIQUIDATE", message: "Not enough liquidity to receive the collateral as underlying" },
+  "46": { name: "LPCM_NO_ERRORS", message: "No errors" },
+  "47": { name: "LP_INVALID_FLASHLOAN_MODE", message: "Invalid flash loan mode" },
+  "48": { name: "MATH_MULTIPLICATION_OVERFLOW", message: "Multiplication overflow" },
+  "49": { name: "MATH_ADDITION_OVERFLOW", message: "Addition overflow" },
+  "50": { name: "MATH_DIVISION_BY_ZERO", message: "Division by zero" },
+  "51": { name: "RL_LIQUIDITY_INDEX_OVERFLOW", message: "Liquidity index overflow" },
+  "52": { name: "RL_VARIABLE_BORROW_INDEX_OVERFLOW", message: "Variable borrow index overflow" },
+  "53": { name: "RL_LIQUIDITY_RATE_OVERFLOW", message: "Liquidity rate overflow" },
+  "54": { name: "RL_VARIABLE_BORROW_RATE_OVERFLOW", message: "Variable borrow rate overflow" },
+  "55": { name: "RL_STABLE_BORROW_RATE_OVERFLOW", message: "Stable borrow rate overflow" },
+  "56": { name: "CT_INVALID_MINT_AMOUNT", message: "Invalid mint amount" },
+  "57": { name: "LP_FAILED_REPAY_WITH_COLLATERAL", message: "Repay with collateral failed" },
+  "58": { name: "CT_INVALID_BURN_AMOUNT", message: "Invalid burn amount" },
+  "59": { name: "BORROW_ALLOWANCE_NOT_ENOUGH", message: "The credit delegation allowance does not cover the borrow" },
+  "60": { name: "LP_FAILED_COLLATERAL_SWAP", message: "Collateral swap failed" },
+  "61": { name: "LP_INVALID_EQUAL_ASSETS_TO_SWAP", message: "Cannot swap an asset for itself" },
+  "62": { name: "LP_REENTRANCY_NOT_ALLOWED", message: "Reentrancy is not allowed" },
+  "63": { name: "LP_CALLER_MUST_BE_AN_ATOKEN", message: "Caller must be an aToken" },
+  "64": { name: "LP_IS_PAUSED", message: "The lending pool is paused" },
+  "65": { name: "LP_NO_MORE_RESERVES_ALLOWED", message: "No more reserves allowed" },
+  "66": { name: "LP_INVALID_FLASH_LOAN_EXECUTOR_RETURN", message: "The flash loan receiver's executeOperation returned false" },
+  "67": { name: "RC_INVALID_LTV", message: "Invalid LTV" },
+  "68": { name: "RC_INVALID_LIQ_THRESHOLD", message: "Invalid liquidation threshold" },
+  "69": { name: "RC_INVALID_LIQ_BONUS", message: "Invalid liquidation bonus" },
+  "70": { name: "RC_INVALID_DECIMALS", message: "Invalid decimals" },
+  "71": { name: "RC_INVALID_RESERVE_FACTOR", message: "Invalid reserve factor" },
+  "72": { name: "LPAPR_INVALID_ADDRESSES_PROVIDER_ID", message: "Invalid addresses provider ID" },
+  "73": { name: "VL_INCONSISTENT_FLASHLOAN_PARAMS", message: "Inconsistent flash loan parameters" },
+  "74": { name: "LP_INCONSISTENT_PARAMS_LENGTH", message: "Inconsistent parameter lengths" },
+  "75": { name: "LPC_INVALID_CONFIGURATION", message: "Invalid risk parameters for the reserve" },
+  "76": { name: "LPC_CALLER_NOT_EMERGENCY_ADMIN", message: "Caller is not the emergency admin" },
+  "77": { name: "UL_INVALID_INDEX", message: "Invalid user configuration index" },
+  "78": { name: "LP_NOT_CONTRACT", message: "The address is not a contract" },
+  "79": { name: "SDT_STABLE_DEBT_OVERFLOW", message: "Stable debt overflow" },
+  "80": { name: "SDT_BURN_EXCEEDS_BALANCE", message: "Stable debt burn exceeds balance" },
+};
+
+const ERROR_STRING_SELECTOR = "0x08c379a0"; // Error(string)
+const PANIC_SELECTOR = "0x4e487b71"; // Panic(uint256)
+
+/**
+ * A revert reason decoded from EVM revert data, with the Aave v2 error name when the reason is a numeric code
+ */
+export interface DecodedRevert {
+  reason: string;
+  code?: string;
+  name?: string;
+  explanation: string;
+}
+
+/**
+ * Explains a revert reason string: Aave v2 numeric codes map to their `Errors` name, anything else is passed through
+ */
+export const explainRevertReason = (reason: string): DecodedRevert => {
+  const trimmed = reason.trim();
+  const known = AAVE_V2_ERRORS[trimmed];
+  if (known) {
+    return { reason: trimmed, code: trimmed, name: known.name, explanation: `${known.message} (${known.name}, code ${trimmed})` };
+  }
+  if (/^\d+$/.test(trimmed)) {
+    return { reason: trimmed, code: trimmed, explanation: `Bonzo error code ${trimmed}` };
+  }
+  return { reason: trimmed, explanation: trimmed };
+};
+
+/**
+ * Decodes revert data (hex `Error(string)` / `Panic(uint256)` payloads, or an already-decoded reason string).
+ * Returns undefined when there is nothing to decode, e.g. a bare `revert()`.
+ */
+export const decodeRevertReason = (data: string | null | undefined): DecodedRevert | undefined => {
+  if (!data) return undefined;
+  const value = data.trim();
+  if (!/^0x[0-9a-fA-F]*$/.test(value)) {
+    return value ? explainRevertReason(value) : undefined;
+  }
+
+  const selector = value.slice(0, 10).toLowerCase();
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = defaultAbiCoder.decode(["string"], `0x${value.slice(10)}`);
+      return explainRevertReason(String(reason));
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = defaultAbiCoder.decode(["uint256"], `0x${value.slice(10)}`);
+      const hex = `0x${BigInt(code.toString()).toString(16)}`;
+      return { reason: `Panic(${hex})`, explanation: `Contract panicked with code ${hex} (e.g. arithmetic overflow or division by zero)` };
+    }
+  } catch {}
+  return value.length > 2 ? { reason: value, explanation: `Unrecognized revert data ${value}` } : undefined;
+};
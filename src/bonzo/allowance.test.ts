@@ -0,0 +1,71 @@
+import { afterAll, afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { Client } from "@hashgraph/sdk";
+import { buildApprovalIfNeeded, buildApproveStep, fetchAllowance, fetchTokenBalance } from "./allowance.js";
+import { ALLOWANCE, BALANCE_OF, decodeStep, mockContractCalls } from "./test-fixtures.js";
+
+const APPROVE = "function approve(address spender, uint256 amount)";
+const token = "0x000000000000000000000000000000000006f89a";
+const owner = "0x0000000000000000000000000000000000001234";
+const pool = "0x00000000000000000000000000000000000a1b2c";
+
+const client = Client.forTestnet();
+afterAll(() => client.close());
+afterEach(() => {
+  mock.restore();
+});
+
+describe("buildApproveStep", () => {
+  test("encodes approve on the token with the light gas profile", () => {
+    const step = buildApproveStep(token, "USDC", pool, 2_500_000n);
+    const { contract, gas, args } = decodeStep(step, APPROVE);
+
+    expect(step.label).toBe("Approve USDC for LendingPool");
+    expect(contract).toBe(token);
+    expect(gas).toBe(6_000_000);
+    expect(args.spender.toLowerCase()).toBe(pool);
+    expect(args.amount.toString()).toBe("2500000");
+    expect(step.tx.maxTransactionFee?.toTinybars().toString()).toBe("200000000");
+  });
+});
+
+describe("allowance and balance reads", () => {
+  test("reads allowance(owner, spender) and balanceOf(account) from the token", async () => {
+    const calls: string[] = [];
+    mockContractCalls({
+      [ALLOWANCE]: ([o, s], contract) => {
+        calls.push(`${contract}:${o}:${s}`.toLowerCase());
+        return [7n];
+      },
+      [BALANCE_OF]: () => [42n],
+    });
+
+    expect(await fetchAllowance(client, token, owner, pool)).toBe(7n);
+    expect(await fetchTokenBalance(client, token, owner)).toBe(42n);
+    expect(calls).toEqual([`${token}:${owner}:${pool}`]);
+  });
+});
+
+describe("buildApprovalIfNeeded", () => {
+  test("skips the approval when the allowance covers the amount", async () => {
+    mockContractCalls({ [ALLOWANCE]: () => [1_000n] });
+
+    expect(await buildApprovalIfNeeded(client, token, "USDC", owner, pool, 1_000n)).toBeUndefined();
+  });
+
+  test("approves the exact shortfall amount with an allowance precondition", async () => {
+    mockContractCalls({ [ALLOWANCE]: () => [999n] });
+    const step = await buildApprovalIfNeeded(client, token, "USDC", owner, pool, 1_000n);
+
+    expect(decodeStep(step!, APPROVE).args.amount.toString()).toBe("1000");
+    expect(step!.precondition).toEqual({ type: "allowance", token, owner, spender: pool, amount: "1000" });
+  });
+
+  test("includes the approval when the allowance cannot be read", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    mockContractCalls({});
+    const step = await buildApprovalIfNeeded(client, token, "USDC", owner, pool, 1_000n);
+
+    expect(step?.label).toBe("Approve USDC for LendingPool");
+    expect(warn).toHaveBeenCalled();
+  });
+});
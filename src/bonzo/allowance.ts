@@ -0,0 +1,59 @@
+import type { Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import { type PreparedTransaction, buildContractCall, defaultGasAndFee, queryContract } from "./utils.js";
+
+const ERC20_ALLOWANCE_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount)",
+  "function balanceOf(address account) view returns (uint256)",
+];
+
+/**
+ * Reads allowance(owner, spender) for an ERC20 / HTS token
+ */
+export const fetchAllowance = async (client: Client, token: `0x${string}`, owner: `0x${string}`, spender: `0x${string}`): Promise<bigint> => {
+  const result = await queryContract(client, token, new Interface(ERC20_ALLOWANCE_ABI), "allowance", [owner, spender]);
+  return BigInt(result[0].toString());
+};
+
+/**
+ * Reads balanceOf(account) for an ERC20 / HTS token
+ */
+export const fetchTokenBalance = async (client: Client, token: `0x${string}`, account: `0x${string}`): Promise<bigint> => {
+  const result = await queryContract(client, token, new Interface(ERC20_ALLOWANCE_ABI), "balanceOf", [account]);
+  return BigInt(result[0].toString());
+};
+
+/**
+ * Builds an approve(spender, amount) transaction step with the light gas/fee profile
+ */
+export const buildApproveStep = (token: `0x${string}`, symbol: string, spender: `0x${string}`, amount: bigint): PreparedTransaction => {
+  const data = new Interface(ERC20_ALLOWANCE_ABI).encodeFunctionData("approve", [spender, amount]);
+  const { gas, fee } = defaultGasAndFee("light");
+  return { label: `Approve ${symbol} for LendingPool`, tx: buildContractCall(token, data, gas, undefined, fee) };
+};
+
+/**
+ * Returns an approve step when the owner's current allowance does not cover `required`, otherwise undefined.
+ * If the allowance cannot be read the approval is included, since a redundant approve is cheaper than a reverted action.
+ * The step re-checks the allowance when it runs, so a resumed plan skips it once the allowance is in place.
+ */
+export const buildApprovalIfNeeded = async (
+  client: Client,
+  token: `0x${string}`,
+  symbol: string,
+  owner: `0x${string}`,
+  spender: `0x${string}`,
+  required: bigint
+): Promise<PreparedTransaction | undefined> => {
+  try {
+    const allowance = await fetchAllowance(client, token, owner, spender);
+    if (allowance >= required) return undefined;
+  } catch (error) {
+    console.warn("[BonzoAllowance] Allowance check failed:", error instanceof Error ? error.message : error);
+  }
+  return {
+    ...buildApproveStep(token, symbol, spender, required),
+    precondition: { type: "allowance", token, owner, spender, amount: required.toString() },
+  };
+};
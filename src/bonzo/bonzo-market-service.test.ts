@@ -0,0 +1,330 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import {
+  BonzoMarketService,
+  BonzoServiceError,
+  InMemoryMarketCacheStore,
+  type BonzoMarketResponse,
+  type BonzoReserveRaw,
+  type BonzoValue,
+} from "./bonzo-market-service.js";
+import { WAD } from "./test-fixtures.js";
+
+const value = (tinyToken: string, usdWad: string): BonzoValue => ({
+  tiny_token: tinyToken,
+  token_display: "0",
+  hbar_tinybar: "0",
+  hbar_display: "0",
+  usd_wad: usdWad,
+  usd_display: "0",
+  usd_abbreviated: "$0",
+});
+
+// Raw API reserve: risk parameters as fractions, bonus as a multiplier
+const makeRawReserve = (overrides: Partial<BonzoReserveRaw> = {}): BonzoReserveRaw => ({
+  id: 1,
+  name: "Wrapped HBAR",
+  symbol: "WHBAR",
+  coingecko_id: "hedera-hashgraph",
+  evm_address: "0x0000000000000000000000000000000000163b5a",
+  hts_address: "0.0.1456986",
+  atoken_address: "0x0000000000000000000000000000000000000001",
+  stable_debt_address: "0x0000000000000000000000000000000000000002",
+  variable_debt_address: "0x0000000000000000000000000000000000000003",
+  interest_rate_strategy_address: "0x0000000000000000000000000000000000000004",
+  protocol_treasury_address: "0x0000000000000000000000000000000000000005",
+  decimals: 8,
+  ltv: 0.7,
+  liquidation_threshold: 0.75,
+  liquidation_bonus: 1.05,
+  reserve_factor: 0.1,
+  active: true,
+  frozen: false,
+  variable_borrowing_enabled: true,
+  stable_borrowing_enabled: true,
+  available_liquidity: value("500000000000000", (1_000_000n * WAD).toString()),
+  total_borrowable_liquidity: value("500000000000000", (1_000_000n * WAD).toString()),
+  total_stable_debt: value("0", "0"),
+  total_variable_debt: value("500000000000000", (1_000_000n * WAD).toString()),
+  total_supply: value("1000000000000000", (2_000_000n * WAD).toString()),
+  total_reserve: value("0", "0"),
+  borrow_cap: value("0", "0"),
+  supply_cap: value("0", "0"),
+  utilization_rate: 50,
+  supply_apy: 3,
+  variable_borrow_apy: 5,
+  stable_borrow_apy: 8,
+  price_weibars: WAD.toString(),
+  price_usd_wad: (WAD / 5n).toString(),
+  price_usd_display: "0.2",
+  ...overrides,
+});
+
+const makeMarketResponse = (reserves: BonzoReserveRaw[], chainId = 296): BonzoMarketResponse => ({
+  chain_id: chainId,
+  network_name: "testnet",
+  total_market_supplied: value("0", "0"),
+  total_market_borrowed: value("0", "0"),
+  total_market_liquidity: value("0", "0"),
+  total_market_reserve: value("0", "0"),
+  reserves,
+});
+
+const mockFetch = (...bodies: unknown[]) => {
+  const fetchMock = spyOn(globalThis, "fetch");
+  for (const body of bodies) {
+    fetchMock.mockImplementationOnce((async () => Response.json(body)) as unknown as typeof fetch);
+  }
+  return fetchMock;
+};
+
+const service = (overrides: Partial<ConstructorParameters<typeof BonzoMarketService>[0]> = {}) =>
+  new BonzoMarketService({ baseUrl: "https://bonzo.test/market", chainId: 296, cacheTtlMs: 0, ...overrides });
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("market data sources", () => {
+  const previous = process.env.BONZO_API_URL_TESTNET;
+  afterEach(() => {
+    if (previous === undefined) delete process.env.BONZO_API_URL_TESTNET;
+    else process.env.BONZO_API_URL_TESTNET = previous;
+    BonzoMarketService.configure("hedera_testnet", { baseUrl: undefined });
+  });
+
+  test("uses the mainnet default source with its chain check", () => {
+    const mainnet = BonzoMarketService.forNetwork("hedera_mainnet");
+
+    expect(mainnet.baseUrl).toBe("https://mainnet-data-staging.bonzo.finance/market");
+    expect(mainnet.chainId).toBe(295);
+  });
+
+  test("requires a configured testnet source", () => {
+    delete process.env.BONZO_API_URL_TESTNET;
+    BonzoMarketService.configure("hedera_testnet", { baseUrl: undefined });
+    const error = (() => {
+      try {
+        BonzoMarketService.forNetwork("hedera_testnet");
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect((error as BonzoServiceError).code).toBe("CONFIG_ERROR");
+    expect((error as BonzoServiceError).message).toContain("BONZO_API_URL_TESTNET");
+  });
+
+  test("prefers configure() over the environment", () => {
+    process.env.BONZO_API_URL_TESTNET = "https://env.test/market";
+    BonzoMarketService.configure("hedera_testnet", { baseUrl: undefined });
+    expect(BonzoMarketService.forNetwork("hedera_testnet").baseUrl).toBe("https://env.test/market");
+
+    BonzoMarketService.configure("hedera_testnet", { baseUrl: "https://configured.test/market", chainId: 296 });
+    expect(BonzoMarketService.forNetwork("hedera_testnet")).toMatchObject({ baseUrl: "https://configured.test/market", chainId: 296 });
+  });
+});
+
+describe("market data requests", () => {
+  test("reports a chain_id mismatch as API_ERROR", async () => {
+    mockFetch(makeMarketResponse([makeRawReserve()], 295));
+    const error = await service().fetchAllReserves().catch((e: unknown) => e);
+
+    expect((error as BonzoServiceError).code).toBe("API_ERROR");
+    expect((error as BonzoServiceError).message).toContain("expected 296");
+  });
+
+  test("reports HTTP errors as API_ERROR and network failures as NETWORK_ERROR", async () => {
+    const fetchMock = spyOn(globalThis, "fetch");
+    fetchMock.mockImplementationOnce((async () => new Response("down", { status: 503, statusText: "Service Unavailable" })) as unknown as typeof fetch);
+    fetchMock.mockImplementationOnce((async () => {
+      throw new TypeError("connection refused");
+    }) as unknown as typeof fetch);
+    const market = service();
+
+    expect(((await market.fetchAllReserves().catch((e: unknown) => e)) as BonzoServiceError).code).toBe("API_ERROR");
+    expect(((await market.fetchAllReserves().catch((e: unknown) => e)) as BonzoServiceError).code).toBe("NETWORK_ERROR");
+  });
+
+  test("times out a response whose body stalls after the headers arrive", async () => {
+    spyOn(globalThis, "fetch").mockImplementationOnce((async (_input: unknown, init?: RequestInit) => {
+      const body = new ReadableStream({
+        start(controller) {
+          init?.signal?.addEventListener("abort", () => controller.error(init.signal!.reason));
+        },
+      });
+      return new Response(body, { headers: { "Content-Type": "application/json" } });
+    }) as unknown as typeof fetch);
+    const error = await service({ timeoutMs: 20 }).fetchAllReserves().catch((e: unknown) => e);
+
+    expect((error as BonzoServiceError).code).toBe("NETWORK_ERROR");
+    expect((error as BonzoServiceError).message).toContain("Request timeout");
+  });
+});
+
+describe("reserve normalization", () => {
+  test("reports risk parameters in basis points", async () => {
+    const usdc = makeRawReserve({ id: 2, symbol: "USDC", decimals: 6, ltv: 0.8, liquidation_threshold: 0.85, liquidation_bonus: 1.045 });
+    mockFetch(makeMarketResponse([makeRawReserve(), usdc]));
+    const [whbar, usdcReserve] = await service().fetchAllReserves();
+
+    expect(whbar).toMatchObject({ ltvBps: 7000, liquidationThresholdBps: 7500, liquidationBonusBps: 10500, reserveFactorBps: 1000 });
+    expect(usdcReserve).toMatchObject({ ltvBps: 8000, liquidationThresholdBps: 8500, liquidationBonusBps: 10450 });
+  });
+
+  test("reports a zero bonus for reserves that are not collateral", async () => {
+    mockFetch(makeMarketResponse([makeRawReserve({ ltv: 0, liquidation_threshold: 0, liquidation_bonus: 0 })]));
+    const [reserve] = await service().fetchAllReserves();
+
+    expect(reserve).toMatchObject({ ltvBps: 0, liquidationThresholdBps: 0, liquidationBonusBps: 0 });
+  });
+});
+
+describe("reserve amounts", () => {
+  test("reads amounts, USD values and prices from the exact integer fields", async () => {
+    // Display strings disagree with the integer fields on purpose: only the integers may be used
+    const raw = makeRawReserve({
+      total_stable_debt: value("100000000000", (20_000n * WAD).toString()),
+      supply_cap: { ...value("2000000000000000", "0"), token_display: "1" },
+      borrow_cap: value("900000000000000", "0"),
+      price_usd_wad: "200000000000000001",
+      price_usd_display: "9.99",
+    });
+    mockFetch(makeMarketResponse([raw]));
+    const [whbar] = await service().fetchAllReserves();
+
+    expect(whbar).toMatchObject({
+      availableLiquidity: 500_000_000_000_000n,
+      totalSupply: 1_000_000_000_000_000n,
+      totalStableDebt: 100_000_000_000n,
+      supplyCap: 2_000_000_000_000_000n,
+      borrowCap: 900_000_000_000_000n,
+      totalBorrowUSDWad: 1_020_000n * WAD,
+      priceUSDWad: 200_000_000_000_000_001n,
+      priceWeibars: WAD,
+    });
+    expect(whbar!.priceUSD).toBeCloseTo(0.2);
+    expect(whbar!.totalBorrowUSD).toBe(1_020_000);
+  });
+});
+
+describe("market data cache", () => {
+  const symbols = async (market: BonzoMarketService) => (await market.fetchAllReserves()).map((r) => r.symbol);
+
+  test("serves fresh responses from cache", async () => {
+    const fetchMock = mockFetch(makeMarketResponse([makeRawReserve()]));
+    const market = service({ cacheTtlMs: 60_000 });
+
+    await market.fetchAllReserves();
+    await market.fetchReserves();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("serves a stale response while refreshing it in the background", async () => {
+    const cacheStore = new InMemoryMarketCacheStore();
+    cacheStore.set("https://bonzo.test/market", { data: makeMarketResponse([makeRawReserve({ symbol: "OLD" })]), fetchedAt: Date.now() - 90_000 });
+    const fetchMock = mockFetch(makeMarketResponse([makeRawReserve()]));
+    const market = service({ cacheTtlMs: 60_000, staleWhileRevalidateMs: 60_000, cacheStore });
+
+    expect(await symbols(market)).toEqual(["OLD"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await Bun.sleep(5);
+    expect(await symbols(market)).toEqual(["WHBAR"]);
+  });
+
+  test("refetches once the stale window has passed", async () => {
+    const cacheStore = new InMemoryMarketCacheStore();
+    cacheStore.set("https://bonzo.test/market", { data: makeMarketResponse([makeRawReserve({ symbol: "OLD" })]), fetchedAt: Date.now() - 200_000 });
+    mockFetch(makeMarketResponse([makeRawReserve()]));
+
+    expect(await symbols(service({ cacheTtlMs: 60_000, staleWhileRevalidateMs: 60_000, cacheStore }))).toEqual(["WHBAR"]);
+  });
+
+  test("coalesces concurrent requests into one fetch", async () => {
+    const fetchMock = mockFetch(makeMarketResponse([makeRawReserve()]));
+    const market = service({ cacheTtlMs: 60_000 });
+
+    const results = await Promise.all([market.fetchAllReserves(), market.fetchSupplyReserves(), market.fetchBorrowReserves()]);
+    expect(results.map((reserves) => reserves.length)).toEqual([1, 1, 1]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("invalidateCache forces the next call to refetch", async () => {
+    const fetchMock = mockFetch(makeMarketResponse([makeRawReserve()]), makeMarketResponse([makeRawReserve()]));
+    const market = service({ cacheTtlMs: 60_000 });
+
+    await market.fetchAllReserves();
+    await market.invalidateCache();
+    await market.fetchAllReserves();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("market data validation", () => {
+  test("strict validation rejects the payload naming the offending field", async () => {
+    mockFetch(makeMarketResponse([makeRawReserve({ ltv: 75 })]));
+    const error = await service().fetchAllReserves().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BonzoServiceError);
+    expect((error as BonzoServiceError).code).toBe("PARSE_ERROR");
+    expect((error as BonzoServiceError).message).toContain("reserves[0].ltv");
+  });
+
+  test("strict validation rejects display strings in integer fields", async () => {
+    mockFetch(makeMarketResponse([makeRawReserve({ price_weibars: "1.5" })]));
+    const error = await service().fetchAllReserves().catch((e: unknown) => e);
+
+    expect((error as BonzoServiceError).message).toContain("reserves[0].price_weibars");
+  });
+
+  test("lenient validation drops invalid reserves with a warning", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    mockFetch(makeMarketResponse([makeRawReserve(), makeRawReserve({ symbol: "BAD", liquidation_bonus: 105 })]));
+    const market = service({ validation: "lenient" });
+
+    expect((await market.fetchAllReserves()).map((r) => r.symbol)).toEqual(["WHBAR"]);
+    expect(market.lastValidationWarnings).toEqual([expect.stringContaining("Dropped reserve BAD: reserves[1].liquidation_bonus")]);
+    expect(warn).toHaveBeenCalled();
+  });
+
+  test("lenient validation still rejects a malformed envelope", async () => {
+    mockFetch({ ...makeMarketResponse([makeRawReserve()]), chain_id: "296" });
+    const error = await service({ validation: "lenient" }).fetchAllReserves().catch((e: unknown) => e);
+
+    expect((error as BonzoServiceError).code).toBe("PARSE_ERROR");
+    expect((error as BonzoServiceError).message).toContain("chain_id");
+  });
+
+  test("keeps unknown fields added to the API", async () => {
+    mockFetch({ ...makeMarketResponse([{ ...makeRawReserve(), e_mode_category: 1 } as BonzoReserveRaw]), generated_at: "now" });
+
+    expect(await service().fetchAllReserves()).toHaveLength(1);
+  });
+});
+
+describe("reserve lists", () => {
+  const frozen = makeRawReserve({ id: 3, symbol: "FROZEN", frozen: true });
+  const illiquid = makeRawReserve({
+    id: 4,
+    symbol: "DUST",
+    variable_borrowing_enabled: false,
+    available_liquidity: value("500000000000000", (50n * WAD).toString()),
+  });
+
+  test("fetchReserves drops frozen and illiquid reserves while fetchAllReserves keeps them", async () => {
+    mockFetch(makeMarketResponse([makeRawReserve(), frozen, illiquid]), makeMarketResponse([makeRawReserve(), frozen, illiquid]));
+    const market = service();
+
+    expect((await market.fetchReserves()).map((r) => r.symbol)).toEqual(["WHBAR"]);
+    expect((await market.fetchAllReserves()).map((r) => r.symbol)).toEqual(["WHBAR", "FROZEN", "DUST"]);
+  });
+
+  test("sorts supply reserves by APY and excludes borrowing-disabled reserves from borrow reserves", async () => {
+    const usdc = makeRawReserve({ id: 2, symbol: "USDC", supply_apy: 6, variable_borrow_apy: 4 });
+    const disabled = makeRawReserve({ id: 5, symbol: "NOBORROW", variable_borrowing_enabled: false, variable_borrow_apy: 1 });
+    mockFetch(makeMarketResponse([makeRawReserve(), usdc, disabled]), makeMarketResponse([makeRawReserve(), usdc, disabled]));
+    const market = service();
+
+    expect((await market.fetchSupplyReserves()).map((r) => r.symbol)).toEqual(["USDC", "WHBAR", "NOBORROW"]);
+    expect((await market.fetchBorrowReserves()).map((r) => r.symbol)).toEqual(["USDC", "WHBAR"]);
+  });
+});
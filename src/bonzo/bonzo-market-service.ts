@@ -1,3 +1,7 @@
+import type { Client } from "@hashgraph/sdk";
+import { bonzoMarketEnvelopeSchema, bonzoMarketResponseSchema, bonzoReserveRawSchema, formatZodIssue } from "./bonzo-market.zod.js";
+import { type NetworkKey, fromWei, getNetworkKey } from "./utils.js";
+
 /**
  * Value representation with multiple formats from Bonzo API
  */
@@ -41,7 +45,7 @@ export interface BonzoReserveRaw {
   protocol_treasury_address: string;
   decimals: number;
 
-  // Risk parameters (as numbers)
+  // Risk parameters: fractions (0.75), liquidation_bonus as a multiplier (1.05)
   ltv: number;
   liquidation_threshold: number;
   liquidation_bonus: number;
@@ -91,10 +95,12 @@ export interface BonzoReserve {
   variableBorrowAPY: number;
   stableBorrowAPY: number;
 
-  // Risk parameters
-  ltv: number;
-  liquidationThreshold: number;
-  liquidationBonus: number;
+  // Risk parameters in basis points, as in the Aave v2 reserve configuration
+  // (ltv 7500 = 75%; liquidationBonus 10500 = collateral seized at 105%, 0 when the asset is not collateral)
+  ltvBps: number;
+  liquidationThresholdBps: number;
+  liquidationBonusBps: number;
+  reserveFactorBps: number;
 
   // Market metrics (simplified to USD values)
   availableLiquidityUSD: number;
@@ -102,57 +108,292 @@ export interface BonzoReserve {
   totalBorrowUSD: number;
   utilizationRate: number;
 
+  // Exact token amounts in the reserve's smallest unit (caps: 0 = no cap, undefined = unknown)
+  availableLiquidity: bigint;
+  totalSupply: bigint;
+  totalStableDebt: bigint;
+  totalVariableDebt: bigint;
+  supplyCap?: bigint;
+  borrowCap?: bigint;
+
+  // Exact USD values (WAD, 18 decimals)
+  availableLiquidityUSDWad: bigint;
+  totalSupplyUSDWad: bigint;
+  totalBorrowUSDWad: bigint;
+
   // Status
   isActive: boolean;
   isFrozen: boolean;
   borrowingEnabled: boolean;
   stableBorrowingEnabled: boolean;
 
-  // USD price
+  // Prices per whole token: USD, USD in WAD, and HBAR in weibars (18 decimals, the AaveOracle unit)
   priceUSD: number;
+  priceUSDWad: bigint;
+  priceWeibars: bigint;
 }
 
 /**
  * Service error types
  */
 export class BonzoServiceError extends Error {
-  constructor(message: string, public readonly code: "API_ERROR" | "PARSE_ERROR" | "NETWORK_ERROR", public readonly originalError?: unknown) {
+  constructor(message: string, public readonly code: "API_ERROR" | "PARSE_ERROR" | "NETWORK_ERROR" | "CONFIG_ERROR", public readonly originalError?: unknown) {
     super(message);
     this.name = "BonzoServiceError";
   }
 }
 
+/**
+ * How API payloads are validated: "strict" rejects the whole response on any schema violation,
+ * "lenient" drops only the reserves that fail validation and records a warning for each
+ */
+export type BonzoMarketValidationMode = "strict" | "lenient";
+
+/**
+ * Market data source configuration
+ */
+export interface BonzoMarketServiceConfig {
+  /** Full URL of the market endpoint (e.g. a self-hosted Bonzo data API) */
+  baseUrl: string;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  /** Expected chain_id of the response; a mismatch is reported as API_ERROR */
+  chainId?: number;
+  /** How long a cached response is served without refetching (0 disables caching) */
+  cacheTtlMs?: number;
+  /** How long past the TTL a stale response is still served while it is refreshed in the background */
+  staleWhileRevalidateMs?: number;
+  /** External cache store (e.g. Redis); defaults to an in-process store */
+  cacheStore?: BonzoMarketCacheStore;
+  /** Payload validation mode (default "strict") */
+  validation?: BonzoMarketValidationMode;
+}
+
+/**
+ * Cached market response with the time it was fetched (epoch ms)
+ */
+export interface BonzoMarketCacheEntry {
+  data: BonzoMarketResponse;
+  fetchedAt: number;
+}
+
+/**
+ * Pluggable cache store for market responses; entries are keyed by source URL and are JSON-serializable
+ */
+export interface BonzoMarketCacheStore {
+  get(key: string): Promise<BonzoMarketCacheEntry | undefined> | BonzoMarketCacheEntry | undefined;
+  set(key: string, entry: BonzoMarketCacheEntry): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+}
+
+/**
+ * Default in-process cache store
+ */
+export class InMemoryMarketCacheStore implements BonzoMarketCacheStore {
+  private readonly entries = new Map<string, BonzoMarketCacheEntry>();
+
+  get(key: string): BonzoMarketCacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: BonzoMarketCacheEntry): void {
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Default market data sources per network (overridable via BONZO_API_URL_MAINNET / BONZO_API_URL_TESTNET).
+ * Bonzo publishes no testnet market API, so testnet needs BONZO_API_URL_TESTNET or configure().
+ */
+export const DEFAULT_MARKET_SOURCES: Partial<Record<NetworkKey, BonzoMarketServiceConfig>> = {
+  hedera_mainnet: { baseUrl: "https://mainnet-data-staging.bonzo.finance/market", chainId: 295 },
+};
+
+const ENV_URL_KEYS: Record<NetworkKey, string> = {
+  hedera_mainnet: "BONZO_API_URL_MAINNET",
+  hedera_testnet: "BONZO_API_URL_TESTNET",
+};
+
 /**
  * Bonzo Finance market data service
  */
 export class BonzoMarketService {
-  private static readonly API_URL = "https://mainnet-data-staging.bonzo.finance/market";
-  private static readonly TIMEOUT_MS = 5000;
+  private static readonly DEFAULT_TIMEOUT_MS = 5000;
+  private static readonly DEFAULT_CACHE_TTL_MS = 30_000;
+  private static readonly DEFAULT_STALE_WHILE_REVALIDATE_MS = 120_000;
+  private static readonly DEFAULT_HEADERS: Record<string, string> = {
+    "Accept": "application/json",
+    "User-Agent": "Bonzo-Strategy-Tool/1.0.0",
+  };
+
+  private static readonly instances = new Map<NetworkKey, BonzoMarketService>();
+  private static readonly overrides = new Map<NetworkKey, Partial<BonzoMarketServiceConfig>>();
+
+  readonly baseUrl: string;
+  readonly timeoutMs: number;
+  readonly headers: Record<string, string>;
+  readonly chainId?: number;
+  readonly cacheTtlMs: number;
+  readonly staleWhileRevalidateMs: number;
+  readonly validation: BonzoMarketValidationMode;
+  /** Warnings from the last lenient validation (one per dropped reserve) */
+  lastValidationWarnings: string[] = [];
+  private readonly cacheStore: BonzoMarketCacheStore;
+  private inFlight?: Promise<BonzoMarketResponse>;
+
+  constructor(config: BonzoMarketServiceConfig) {
+    this.baseUrl = config.baseUrl;
+    this.timeoutMs = config.timeoutMs ?? BonzoMarketService.DEFAULT_TIMEOUT_MS;
+    this.headers = { ...BonzoMarketService.DEFAULT_HEADERS, ...config.headers };
+    this.chainId = config.chainId;
+    this.cacheTtlMs = config.cacheTtlMs ?? BonzoMarketService.DEFAULT_CACHE_TTL_MS;
+    this.staleWhileRevalidateMs = config.staleWhileRevalidateMs ?? BonzoMarketService.DEFAULT_STALE_WHILE_REVALIDATE_MS;
+    this.cacheStore = config.cacheStore ?? new InMemoryMarketCacheStore();
+    this.validation = config.validation ?? "strict";
+  }
 
   /**
-   * Fetches raw market data from Bonzo Finance API
+   * Overrides the market data source for a network (e.g. a custom or self-hosted API).
+   * Omitting chainId with a custom baseUrl disables the chain check.
+   */
+  static configure(network: NetworkKey, config: Partial<BonzoMarketServiceConfig>): void {
+    this.overrides.set(network, { ...this.overrides.get(network), ...config });
+    this.instances.delete(network);
+  }
+
+  /**
+   * Returns the shared service instance for a network. Throws CONFIG_ERROR when the network has no source.
+   */
+  static forNetwork(network: NetworkKey): BonzoMarketService {
+    const existing = this.instances.get(network);
+    if (existing) return existing;
+
+    const defaults = DEFAULT_MARKET_SOURCES[network];
+    const override = this.overrides.get(network) ?? {};
+    const baseUrl = override.baseUrl || process.env[ENV_URL_KEYS[network]] || defaults?.baseUrl;
+    if (!baseUrl) {
+      throw new BonzoServiceError(
+        `No Bonzo market data source for ${network}; set ${ENV_URL_KEYS[network]} or call BonzoMarketService.configure("${network}", { baseUrl })`,
+        "CONFIG_ERROR",
+      );
+    }
+    const envTimeout = Number(process.env.BONZO_API_TIMEOUT_MS || "");
+    const envCacheTtl = Number(process.env.BONZO_API_CACHE_TTL_MS || "");
+    const envValidation = process.env.BONZO_API_VALIDATION;
+
+    const service = new BonzoMarketService({
+      baseUrl,
+      timeoutMs: override.timeoutMs ?? (envTimeout > 0 ? envTimeout : undefined),
+      headers: override.headers,
+      cacheTtlMs: override.cacheTtlMs ?? (process.env.BONZO_API_CACHE_TTL_MS && Number.isFinite(envCacheTtl) ? envCacheTtl : undefined),
+      staleWhileRevalidateMs: override.staleWhileRevalidateMs,
+      cacheStore: override.cacheStore,
+      validation: override.validation ?? (envValidation === "lenient" || envValidation === "strict" ? envValidation : undefined),
+      // Only the default sources have a known chain; custom sources opt in via chainId
+      chainId: override.chainId ?? (baseUrl === defaults?.baseUrl ? defaults.chainId : undefined),
+    });
+    this.instances.set(network, service);
+    return service;
+  }
+
+  /**
+   * Returns the service instance matching the network of a Hedera client
+   */
+  static forClient(client: Client): BonzoMarketService {
+    return this.forNetwork(getNetworkKey(client));
+  }
+
+  /**
+   * Returns market data, served from cache while fresh. Within the stale-while-revalidate window the cached
+   * response is returned immediately and refreshed in the background; concurrent refreshes share one request.
    */
-  static async fetchMarketData(): Promise<BonzoMarketResponse> {
+  async fetchMarketData(): Promise<BonzoMarketResponse> {
+    if (this.cacheTtlMs <= 0) {
+      return this.refreshMarketData();
+    }
+
+    const entry = await this.readCache();
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+    if (entry && age <= this.cacheTtlMs) {
+      return entry.data;
+    }
+
+    if (entry && age <= this.cacheTtlMs + this.staleWhileRevalidateMs) {
+      this.refreshMarketData().catch((error) => {
+        console.warn("[BonzoMarketService] Background refresh failed:", error instanceof Error ? error.message : error);
+      });
+      return entry.data;
+    }
+
+    return this.refreshMarketData();
+  }
+
+  /**
+   * Drops the cached response for this source
+   */
+  async invalidateCache(): Promise<void> {
+    await this.cacheStore.delete(this.baseUrl);
+  }
+
+  private async readCache(): Promise<BonzoMarketCacheEntry | undefined> {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.TIMEOUT_MS);
+      return await this.cacheStore.get(this.baseUrl);
+    } catch (error) {
+      console.warn("[BonzoMarketService] Cache read failed:", error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
 
-      const response = await fetch(this.API_URL, {
-        signal: controller.signal,
-        headers: {
-          "Accept": "application/json",
-          "User-Agent": "Bonzo-Strategy-Tool/1.0.0",
-        },
+  /**
+   * Fetches from the API and stores the result, coalescing concurrent callers onto one in-flight request
+   */
+  private refreshMarketData(): Promise<BonzoMarketResponse> {
+    if (this.inFlight) return this.inFlight;
+
+    this.inFlight = this.requestMarketData()
+      .then(async (data) => {
+        if (this.cacheTtlMs > 0) {
+          try {
+            await this.cacheStore.set(this.baseUrl, { data, fetchedAt: Date.now() });
+          } catch (error) {
+            console.warn("[BonzoMarketService] Cache write failed:", error instanceof Error ? error.message : error);
+          }
+        }
+        return data;
+      })
+      .finally(() => {
+        this.inFlight = undefined;
       });
+    return this.inFlight;
+  }
 
-      clearTimeout(timeoutId);
+  /**
+   * Fetches raw market data from Bonzo Finance API
+   */
+  private async requestMarketData(): Promise<BonzoMarketResponse> {
+    // The timer stays armed until the body is parsed, so a stalled body read also times out
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.baseUrl, {
+        signal: controller.signal,
+        headers: this.headers,
+      });
 
       if (!response.ok) {
         throw new BonzoServiceError(`API request failed with status ${response.status}: ${response.statusText}`, "API_ERROR");
       }
 
-      const data = await response.json();
-      return data as BonzoMarketResponse;
+      const data = this.validateMarketData(await response.json());
+      if (this.chainId !== undefined && data.chain_id !== this.chainId) {
+        throw new BonzoServiceError(`Market data source ${this.baseUrl} returned chain_id ${data.chain_id}, expected ${this.chainId}`, "API_ERROR");
+      }
+      return data;
     } catch (error) {
       if (error instanceof BonzoServiceError) {
         throw error;
@@ -167,60 +408,121 @@ export class BonzoMarketService {
       }
 
       throw new BonzoServiceError("Unknown error occurred while fetching market data", "API_ERROR", error);
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
   /**
-   * Parses USD display value from BonzoValue object
+   * Validates a raw API payload against the market schemas. Throws PARSE_ERROR naming the offending field path;
+   * in lenient mode only envelope errors throw and invalid reserves are dropped with a warning.
    */
-  private static parseUSDValue(value: BonzoValue): number {
-    try {
-      const usdString = value.usd_display.replace(/,/g, "");
-      const parsed = parseFloat(usdString);
-      return isNaN(parsed) ? 0 : parsed;
-    } catch {
-      return 0;
+  private validateMarketData(payload: unknown): BonzoMarketResponse {
+    if (this.validation === "strict") {
+      const result = bonzoMarketResponseSchema.safeParse(payload);
+      if (!result.success) {
+        throw new BonzoServiceError(`Invalid market data from ${this.baseUrl}: ${result.error.issues.map((issue) => formatZodIssue(issue)).join("; ")}`, "PARSE_ERROR", result.error);
+      }
+      this.lastValidationWarnings = [];
+      return result.data as BonzoMarketResponse;
+    }
+
+    const envelope = bonzoMarketEnvelopeSchema.safeParse(payload);
+    if (!envelope.success) {
+      throw new BonzoServiceError(`Invalid market data from ${this.baseUrl}: ${envelope.error.issues.map((issue) => formatZodIssue(issue)).join("; ")}`, "PARSE_ERROR", envelope.error);
     }
+
+    const reserves: BonzoReserveRaw[] = [];
+    const warnings: string[] = [];
+    envelope.data.reserves.forEach((raw, index) => {
+      const result = bonzoReserveRawSchema.safeParse(raw);
+      if (result.success) {
+        reserves.push(result.data as BonzoReserveRaw);
+        return;
+      }
+      const symbol = (raw as { symbol?: unknown } | null)?.symbol;
+      const issues = result.error.issues.map((issue) => formatZodIssue(issue, ["reserves", index])).join("; ");
+      warnings.push(`Dropped reserve ${typeof symbol === "string" ? symbol : `#${index}`}: ${issues}`);
+    });
+
+    warnings.forEach((warning) => console.warn(`[BonzoMarketService] ${warning}`));
+    this.lastValidationWarnings = warnings;
+    return { ...envelope.data, reserves } as BonzoMarketResponse;
+  }
+
+  /**
+   * Converts a WAD-denominated value to a number (for display and ranking; exact math uses the bigint)
+   */
+  private static wadToNumber(value: bigint): number {
+    return Number(fromWei(value, 18));
   }
 
   /**
-   * Normalizes raw reserve data to internal format
+   * Converts a fraction or multiplier from the API (0.75, 1.05) to basis points (7500, 10500)
+   */
+  private static toBps(value: number): number {
+    return Math.round(value * 10_000);
+  }
+
+  /**
+   * Normalizes raw reserve data to internal format. Amounts and prices come from the exact integer fields
+   * (tiny_token, usd_wad, price_weibars, price_usd_wad) rather than the display strings.
    */
   private static normalizeReserves(rawReserves: BonzoReserveRaw[]): BonzoReserve[] {
     return rawReserves.map((raw) => {
       try {
+        const totalStableDebtUSDWad = BigInt(raw.total_stable_debt.usd_wad);
+        const totalVariableDebtUSDWad = BigInt(raw.total_variable_debt.usd_wad);
+        const availableLiquidityUSDWad = BigInt(raw.available_liquidity.usd_wad);
+        const totalSupplyUSDWad = BigInt(raw.total_supply.usd_wad);
+        const priceUSDWad = BigInt(raw.price_usd_wad);
+
         return {
           id: raw.id,
           symbol: raw.symbol,
           name: raw.name,
           decimals: raw.decimals,
           htsAddress: raw.hts_address,
-          evmAddress: (raw as any).evm_address,
+          evmAddress: raw.evm_address,
 
           // APY rates (already numbers)
           supplyAPY: raw.supply_apy,
           variableBorrowAPY: raw.variable_borrow_apy,
           stableBorrowAPY: raw.stable_borrow_apy,
 
-          // Risk parameters
-          ltv: raw.ltv,
-          liquidationThreshold: raw.liquidation_threshold,
-          liquidationBonus: raw.liquidation_bonus,
+          // Risk parameters (fractions and multipliers to basis points)
+          ltvBps: this.toBps(raw.ltv),
+          liquidationThresholdBps: this.toBps(raw.liquidation_threshold),
+          liquidationBonusBps: this.toBps(raw.liquidation_bonus),
+          reserveFactorBps: this.toBps(raw.reserve_factor),
 
-          // Market metrics (convert to USD numbers)
-          availableLiquidityUSD: this.parseUSDValue(raw.available_liquidity),
-          totalSupplyUSD: this.parseUSDValue(raw.total_supply),
-          totalBorrowUSD: this.parseUSDValue(raw.total_variable_debt) + this.parseUSDValue(raw.total_stable_debt),
+          // Market metrics (USD numbers derived from WAD values)
+          availableLiquidityUSD: this.wadToNumber(availableLiquidityUSDWad),
+          totalSupplyUSD: this.wadToNumber(totalSupplyUSDWad),
+          totalBorrowUSD: this.wadToNumber(totalStableDebtUSDWad + totalVariableDebtUSDWad),
           utilizationRate: raw.utilization_rate,
 
+          // Exact amounts
+          availableLiquidity: BigInt(raw.available_liquidity.tiny_token),
+          totalSupply: BigInt(raw.total_supply.tiny_token),
+          totalStableDebt: BigInt(raw.total_stable_debt.tiny_token),
+          totalVariableDebt: BigInt(raw.total_variable_debt.tiny_token),
+          supplyCap: BigInt(raw.supply_cap.tiny_token),
+          borrowCap: BigInt(raw.borrow_cap.tiny_token),
+          availableLiquidityUSDWad,
+          totalSupplyUSDWad,
+          totalBorrowUSDWad: totalStableDebtUSDWad + totalVariableDebtUSDWad,
+
           // Status (normalize field names)
           isActive: raw.active,
           isFrozen: raw.frozen,
           borrowingEnabled: raw.variable_borrowing_enabled,
           stableBorrowingEnabled: raw.stable_borrowing_enabled,
 
-          // USD price
-          priceUSD: parseFloat(raw.price_usd_display) || 0,
+          // Prices
+          priceUSD: this.wadToNumber(priceUSDWad),
+          priceUSDWad,
+          priceWeibars: BigInt(raw.price_weibars),
         };
       } catch (error) {
         throw new BonzoServiceError(`Failed to normalize reserve ${raw.symbol}: ${error instanceof Error ? error.message : "Unknown error"}`, "PARSE_ERROR", error);
@@ -270,11 +572,28 @@ export class BonzoMarketService {
   /**
    * Fetches and returns processed reserve data
    */
-  static async fetchReserves(): Promise<BonzoReserve[]> {
+  async fetchReserves(): Promise<BonzoReserve[]> {
+    try {
+      const marketData = await this.fetchMarketData();
+      const normalizedReserves = BonzoMarketService.normalizeReserves(marketData.reserves);
+      return BonzoMarketService.filterActiveReserves(normalizedReserves, true); // Include all for now
+    } catch (error) {
+      if (error instanceof BonzoServiceError) {
+        throw error;
+      }
+
+      throw new BonzoServiceError("Failed to fetch and process reserves", "PARSE_ERROR", error);
+    }
+  }
+
+  /**
+   * Fetches every reserve, including inactive, frozen and low-liquidity ones. Use this for checks on a specific reserve;
+   * fetchReserves() drops exactly the reserves those checks need to refuse.
+   */
+  async fetchAllReserves(): Promise<BonzoReserve[]> {
     try {
       const marketData = await this.fetchMarketData();
-      const normalizedReserves = this.normalizeReserves(marketData.reserves);
-      return this.filterActiveReserves(normalizedReserves, true); // Include all for now
+      return BonzoMarketService.normalizeReserves(marketData.reserves);
     } catch (error) {
       if (error instanceof BonzoServiceError) {
         throw error;
@@ -287,12 +606,12 @@ export class BonzoMarketService {
   /**
    * Fetches reserves suitable for supply recommendations (sorted by supply APY desc)
    */
-  static async fetchSupplyReserves(): Promise<BonzoReserve[]> {
+  async fetchSupplyReserves(): Promise<BonzoReserve[]> {
     try {
       const marketData = await this.fetchMarketData();
-      const normalizedReserves = this.normalizeReserves(marketData.reserves);
-      const filteredReserves = this.filterActiveReserves(normalizedReserves, true);
-      return this.sortReservesBySupplyAPY(filteredReserves);
+      const normalizedReserves = BonzoMarketService.normalizeReserves(marketData.reserves);
+      const filteredReserves = BonzoMarketService.filterActiveReserves(normalizedReserves, true);
+      return BonzoMarketService.sortReservesBySupplyAPY(filteredReserves);
     } catch (error) {
       if (error instanceof BonzoServiceError) {
         throw error;
@@ -305,12 +624,12 @@ export class BonzoMarketService {
   /**
    * Fetches reserves suitable for borrow recommendations (sorted by borrow APY asc)
    */
-  static async fetchBorrowReserves(): Promise<BonzoReserve[]> {
+  async fetchBorrowReserves(): Promise<BonzoReserve[]> {
     try {
       const marketData = await this.fetchMarketData();
-      const normalizedReserves = this.normalizeReserves(marketData.reserves);
-      const filteredReserves = this.filterActiveReserves(normalizedReserves, false); // Exclude borrowing-disabled
-      return this.sortReservesByBorrowAPY(filteredReserves);
+      const normalizedReserves = BonzoMarketService.normalizeReserves(marketData.reserves);
+      const filteredReserves = BonzoMarketService.filterActiveReserves(normalizedReserves, false); // Exclude borrowing-disabled
+      return BonzoMarketService.sortReservesByBorrowAPY(filteredReserves);
     } catch (error) {
       if (error instanceof BonzoServiceError) {
         throw error;
@@ -0,0 +1,97 @@
+import z from "zod";
+
+/**
+ * Schemas mirroring the Bonzo market API payload (BonzoMarketResponse, BonzoReserveRaw, BonzoValue).
+ * Unknown fields are kept so additions to the API do not break validation.
+ */
+
+const integerString = z.string().regex(/^\d+$/, "Expected an unsigned integer string");
+const displayNumber = z.string().regex(/^-?[\d,]*\.?\d+$/, "Expected a numeric display string");
+const address = z.string().min(1);
+
+export const bonzoValueSchema = z
+  .object({
+    tiny_token: integerString,
+    token_display: displayNumber,
+    hbar_tinybar: integerString,
+    hbar_display: displayNumber,
+    usd_wad: integerString,
+    usd_display: displayNumber,
+    usd_abbreviated: z.string(),
+  })
+  .passthrough();
+
+export const bonzoReserveRawSchema = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    symbol: z.string().min(1),
+    coingecko_id: z.string(),
+    evm_address: address,
+    hts_address: address,
+    atoken_address: address,
+    stable_debt_address: address,
+    variable_debt_address: address,
+    interest_rate_strategy_address: address,
+    protocol_treasury_address: address,
+    decimals: z.number().int().nonnegative(),
+
+    // Fractions (0.75 = 75%); liquidation_bonus is the collateral multiplier (1.05 = 5% bonus, 0 when not collateral).
+    // Out-of-range values mean the unit changed, so the reserve is dropped rather than misread.
+    ltv: z.number().min(0).max(1),
+    liquidation_threshold: z.number().min(0).max(1),
+    liquidation_bonus: z.number().refine((value) => value === 0 || (value >= 1 && value <= 2), "expected 0 or a multiplier between 1 and 2"),
+    reserve_factor: z.number().min(0).max(1),
+
+    active: z.boolean(),
+    frozen: z.boolean(),
+    variable_borrowing_enabled: z.boolean(),
+    stable_borrowing_enabled: z.boolean(),
+
+    available_liquidity: bonzoValueSchema,
+    total_borrowable_liquidity: bonzoValueSchema,
+    total_stable_debt: bonzoValueSchema,
+    total_variable_debt: bonzoValueSchema,
+    total_supply: bonzoValueSchema,
+    total_reserve: bonzoValueSchema,
+    borrow_cap: bonzoValueSchema,
+    supply_cap: bonzoValueSchema,
+
+    utilization_rate: z.number(),
+    supply_apy: z.number(),
+    variable_borrow_apy: z.number(),
+    stable_borrow_apy: z.number(),
+
+    price_weibars: integerString,
+    price_usd_wad: integerString,
+    price_usd_display: displayNumber,
+  })
+  .passthrough();
+
+export const bonzoMarketResponseSchema = z
+  .object({
+    chain_id: z.number().int(),
+    network_name: z.string(),
+    total_market_supplied: bonzoValueSchema,
+    total_market_borrowed: bonzoValueSchema,
+    total_market_liquidity: bonzoValueSchema,
+    total_market_reserve: bonzoValueSchema,
+    reserves: z.array(bonzoReserveRawSchema),
+  })
+  .passthrough();
+
+/**
+ * Response envelope with reserves left unchecked, used by lenient validation to check reserves one by one
+ */
+export const bonzoMarketEnvelopeSchema = bonzoMarketResponseSchema.extend({ reserves: z.array(z.unknown()) });
+
+/**
+ * Formats a zod issue as "path.to[0].field: message"
+ */
+export const formatZodIssue = (issue: z.ZodIssue, prefix: (string | number)[] = []): string => {
+  const path = [...prefix, ...issue.path].reduce<string>(
+    (acc, key) => (typeof key === "number" ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key),
+    ""
+  );
+  return `${path || "<root>"}: ${issue.message}`;
+};
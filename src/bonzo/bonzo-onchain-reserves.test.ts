@@ -0,0 +1,74 @@
+import { afterAll, afterEach, describe, expect, mock, test } from "bun:test";
+import { Client } from "@hashgraph/sdk";
+import { crossCheckReserves, fetchReservesFromChain, rayRateToAPY } from "./bonzo-onchain-reserves.js";
+import { GET_ASSET_PRICE, GET_RESERVE_CONFIGURATION_DATA, GET_RESERVE_DATA, WAD, makeReserve, mockContractCalls } from "./test-fixtures.js";
+import { getAvailableSymbols, getTokenAddresses } from "./utils.js";
+
+const RAY = 10n ** 27n;
+
+describe("rayRateToAPY", () => {
+  test("compounds a RAY APR per second", () => {
+    expect(rayRateToAPY(0n)).toBe(0);
+    expect(rayRateToAPY(RAY / 20n)).toBeCloseTo((Math.exp(0.05) - 1) * 100, 4);
+  });
+});
+
+describe("fetchReservesFromChain", () => {
+  const client = Client.forTestnet();
+  const usdc = getTokenAddresses("USDC", "hedera_testnet").token.toLowerCase();
+  afterAll(() => client.close());
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test("rebuilds every configured reserve with basis points and USD values relative to USDC", async () => {
+    // USDC (6 decimals) at 5 HBAR, everything else (8 decimals) at 1 HBAR; 600 available and 400 borrowed of each
+    const isUsdc = (asset: string) => asset.toLowerCase() === usdc;
+    mockContractCalls({
+      [GET_ASSET_PRICE]: ([asset]) => [isUsdc(asset) ? 5n * WAD : WAD],
+      [GET_RESERVE_CONFIGURATION_DATA]: ([asset]) => [isUsdc(asset) ? 6n : 8n, 7500n, 8000n, 10500n, 1000n, true, true, false, true, isUsdc(asset)],
+      [GET_RESERVE_DATA]: ([asset]) => {
+        const unit = isUsdc(asset) ? 10n ** 6n : 10n ** 8n;
+        return [600n * unit, 0n, 400n * unit, RAY / 20n, RAY / 10n, 0n, 0n, RAY, RAY, 0];
+      },
+    });
+    const reserves = await fetchReservesFromChain(client, "hedera_testnet");
+    const whbar = reserves.find((r) => r.symbol === "WHBAR")!;
+    const usdcReserve = reserves.find((r) => r.symbol === "USDC")!;
+
+    expect(reserves.map((r) => r.symbol)).toEqual(getAvailableSymbols("hedera_testnet"));
+    expect(whbar).toMatchObject({ decimals: 8, ltvBps: 7500, liquidationThresholdBps: 8000, liquidationBonusBps: 10500, reserveFactorBps: 1000, supplyCap: undefined, borrowCap: undefined });
+    expect(whbar).toMatchObject({ htsAddress: "0.0.15058", isActive: true, isFrozen: false, borrowingEnabled: true, stableBorrowingEnabled: false });
+    expect(whbar.totalSupply).toBe(100_000_000_000n);
+    expect(whbar.utilizationRate).toBe(40);
+    expect(whbar.priceUSD).toBeCloseTo(0.2);
+    expect(whbar.availableLiquidityUSD).toBeCloseTo(120);
+    expect(whbar.supplyAPY).toBeCloseTo(rayRateToAPY(RAY / 20n));
+    expect(usdcReserve).toMatchObject({ priceUSD: 1, availableLiquidityUSD: 600, isFrozen: true });
+  });
+});
+
+describe("crossCheckReserves", () => {
+  test("accepts reserves within tolerance", () => {
+    const api = makeReserve();
+    const chain = makeReserve({ supplyAPY: 3.4, priceUSD: 0.202, ltvBps: 7001 });
+
+    expect(crossCheckReserves([api], [chain])).toEqual([]);
+  });
+
+  test("reports rates, prices, risk parameters and flags that differ", () => {
+    const api = makeReserve();
+    const chain = makeReserve({ variableBorrowAPY: 6, availableLiquidityUSD: 900_000, liquidationBonusBps: 11000, isFrozen: true });
+
+    expect(crossCheckReserves([api], [chain])).toEqual([
+      { symbol: "WHBAR", field: "variableBorrowAPY", api: 5, chain: 6 },
+      { symbol: "WHBAR", field: "availableLiquidityUSD", api: 1_000_000, chain: 900_000 },
+      { symbol: "WHBAR", field: "liquidationBonusBps", api: 10500, chain: 11000 },
+      { symbol: "WHBAR", field: "isFrozen", api: false, chain: true },
+    ]);
+  });
+
+  test("skips reserves missing on chain", () => {
+    expect(crossCheckReserves([makeReserve({ symbol: "NEW" })], [makeReserve({ ltvBps: 0 })])).toEqual([]);
+  });
+});
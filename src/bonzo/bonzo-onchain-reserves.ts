@@ -0,0 +1,158 @@
+import type { Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import BigNumber from "bignumber.js";
+import type { BonzoReserve } from "./bonzo-market-service.js";
+import { fetchAssetPrice, fetchReserveConfiguration } from "./health-factor.js";
+import { type NetworkKey, evmToHederaAccountId, getAvailableSymbols, getContractAddress, getTokenAddresses, queryContract } from "./utils.js";
+
+const RAY = new BigNumber(10).pow(27);
+const SECONDS_PER_YEAR = 31_536_000;
+
+/**
+ * Reserve used to derive USD prices from AaveOracle HBAR prices (assumed to trade at $1)
+ */
+const USD_REFERENCE_SYMBOL = "USDC";
+
+const DATA_PROVIDER_ABI = [
+  "function getReserveData(address asset) view returns (uint256 availableLiquidity, uint256 totalStableDebt, uint256 totalVariableDebt, uint256 liquidityRate, uint256 variableBorrowRate, uint256 stableBorrowRate, uint256 averageStableBorrowRate, uint256 liquidityIndex, uint256 variableBorrowIndex, uint40 lastUpdateTimestamp)",
+];
+
+/**
+ * Difference between the API and on-chain view of a reserve field
+ */
+export interface ReserveDiscrepancy {
+  symbol: string;
+  field: keyof BonzoReserve;
+  api: number | boolean;
+  chain: number | boolean;
+}
+
+/**
+ * Converts a RAY-denominated APR (as stored by Aave v2) to a compounded APY percentage
+ */
+export const rayRateToAPY = (rate: bigint): number => {
+  const apr = new BigNumber(rate.toString()).dividedBy(RAY).toNumber();
+  return (Math.pow(1 + apr / SECONDS_PER_YEAR, SECONDS_PER_YEAR) - 1) * 100;
+};
+
+const WAD = 10n ** 18n;
+
+const wadToNumber = (value: bigint): number => new BigNumber(value.toString()).shiftedBy(-18).toNumber();
+
+/**
+ * Rebuilds BonzoReserve objects directly from chain state (AaveProtocolDataProvider and AaveOracle) via ContractCallQuery.
+ * Used when the Bonzo API is unavailable and to cross-check it. Risk parameters keep their on-chain basis points.
+ * USD values are derived from oracle HBAR prices relative to USDC; they are 0 when no USDC reserve is configured.
+ * Supply and borrow caps are not part of the Aave v2 configuration and are reported as 0 (no cap).
+ */
+export const fetchReservesFromChain = async (client: Client, network: NetworkKey): Promise<BonzoReserve[]> => {
+  const dataProvider = getContractAddress("AaveProtocolDataProvider", network);
+  const iface = new Interface(DATA_PROVIDER_ABI);
+  const symbols = getAvailableSymbols(network);
+
+  let usdReferencePrice: bigint | undefined;
+  if (symbols.includes(USD_REFERENCE_SYMBOL)) {
+    usdReferencePrice = await fetchAssetPrice(client, network, getTokenAddresses(USD_REFERENCE_SYMBOL, network).token);
+  }
+
+  const reserves: BonzoReserve[] = [];
+  for (const [index, symbol] of symbols.entries()) {
+    const { token } = getTokenAddresses(symbol, network);
+    const config = await fetchReserveConfiguration(client, network, token);
+    const data = await queryContract(client, dataProvider, iface, "getReserveData", [token], 300_000);
+    const price = await fetchAssetPrice(client, network, token);
+
+    const availableLiquidity = BigInt(data[0].toString());
+    const totalStableDebt = BigInt(data[1].toString());
+    const totalVariableDebt = BigInt(data[2].toString());
+    const totalDebt = totalStableDebt + totalVariableDebt;
+    const totalSupply = availableLiquidity + totalDebt;
+    const priceUSDWad = usdReferencePrice ? (price * WAD) / usdReferencePrice : 0n;
+    const toUSDWad = (amount: bigint) => (amount * priceUSDWad) / 10n ** BigInt(config.decimals);
+
+    reserves.push({
+      id: index,
+      symbol,
+      name: symbol,
+      decimals: config.decimals,
+      htsAddress: evmToHederaAccountId(token),
+      evmAddress: token,
+
+      supplyAPY: rayRateToAPY(BigInt(data[3].toString())),
+      variableBorrowAPY: rayRateToAPY(BigInt(data[4].toString())),
+      stableBorrowAPY: rayRateToAPY(BigInt(data[5].toString())),
+
+      ltvBps: Number(config.ltv),
+      liquidationThresholdBps: Number(config.liquidationThreshold),
+      liquidationBonusBps: Number(config.liquidationBonus),
+      reserveFactorBps: Number(config.reserveFactor),
+
+      availableLiquidityUSD: wadToNumber(toUSDWad(availableLiquidity)),
+      totalSupplyUSD: wadToNumber(toUSDWad(totalSupply)),
+      totalBorrowUSD: wadToNumber(toUSDWad(totalDebt)),
+      utilizationRate: totalSupply > 0n ? (Number(totalDebt) / Number(totalSupply)) * 100 : 0,
+
+      availableLiquidity,
+      totalSupply,
+      totalStableDebt,
+      totalVariableDebt,
+      // Aave v2 reserve configuration has no caps; only the Bonzo API reports them, so they are unknown here
+      supplyCap: undefined,
+      borrowCap: undefined,
+      availableLiquidityUSDWad: toUSDWad(availableLiquidity),
+      totalSupplyUSDWad: toUSDWad(totalSupply),
+      totalBorrowUSDWad: toUSDWad(totalDebt),
+
+      isActive: config.isActive,
+      isFrozen: config.isFrozen,
+      borrowingEnabled: config.borrowingEnabled,
+      stableBorrowingEnabled: config.stableBorrowRateEnabled,
+
+      priceUSD: wadToNumber(priceUSDWad),
+      priceUSDWad,
+      priceWeibars: price,
+    });
+  }
+  return reserves;
+};
+
+/**
+ * Compares API reserves against on-chain reserves and reports fields that differ beyond tolerance.
+ * Rates are compared in absolute APY points, prices and liquidity in relative terms, risk parameters in basis points.
+ */
+export const crossCheckReserves = (
+  apiReserves: BonzoReserve[],
+  chainReserves: BonzoReserve[],
+  tolerance = { apyPoints: 0.5, relative: 0.02, bps: 1 }
+): ReserveDiscrepancy[] => {
+  const discrepancies: ReserveDiscrepancy[] = [];
+  const chainBySymbol = new Map(chainReserves.map((r) => [r.symbol.toUpperCase(), r]));
+
+  for (const api of apiReserves) {
+    const chain = chainBySymbol.get(api.symbol.toUpperCase());
+    if (!chain) continue;
+
+    for (const field of ["supplyAPY", "variableBorrowAPY", "stableBorrowAPY"] as const) {
+      if (Math.abs(api[field] - chain[field]) > tolerance.apyPoints) {
+        discrepancies.push({ symbol: api.symbol, field, api: api[field], chain: chain[field] });
+      }
+    }
+    for (const field of ["priceUSD", "availableLiquidityUSD"] as const) {
+      const base = Math.max(Math.abs(api[field]), Math.abs(chain[field]));
+      if (base > 0 && Math.abs(api[field] - chain[field]) / base > tolerance.relative) {
+        discrepancies.push({ symbol: api.symbol, field, api: api[field], chain: chain[field] });
+      }
+    }
+    for (const field of ["ltvBps", "liquidationThresholdBps", "liquidationBonusBps", "reserveFactorBps"] as const) {
+      if (Math.abs(api[field] - chain[field]) > tolerance.bps) {
+        discrepancies.push({ symbol: api.symbol, field, api: api[field], chain: chain[field] });
+      }
+    }
+    for (const field of ["isActive", "isFrozen", "borrowingEnabled"] as const) {
+      if (api[field] !== chain[field]) {
+        discrepancies.push({ symbol: api.symbol, field, api: api[field], chain: chain[field] });
+      }
+    }
+  }
+  return discrepancies;
+};
@@ -0,0 +1,154 @@
+import type { Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import { BonzoMarketService } from "./bonzo-market-service.js";
+import {
+  type NetworkKey,
+  fetchErc20Decimals,
+  fromWei,
+  getAvailableSymbols,
+  getContractAddress,
+  getEvmAliasAddress,
+  getLendingPoolAddress,
+  getTokenAddresses,
+  maxUint256,
+  queryContract,
+} from "./utils.js";
+
+/**
+ * Aggregate account data as returned by LendingPool.getUserAccountData.
+ * Values suffixed with ETH are denominated in the Aave v2 base currency, which is HBAR (18 decimals) on Bonzo.
+ */
+export interface BonzoUserAccountData {
+  totalCollateralETH: bigint;
+  totalDebtETH: bigint;
+  availableBorrowsETH: bigint;
+  currentLiquidationThreshold: bigint; // basis points
+  ltv: bigint; // basis points
+  healthFactor: bigint; // WAD (1e18 = 1.0)
+}
+
+/**
+ * Per-reserve user data as returned by AaveProtocolDataProvider.getUserReserveData
+ */
+export interface BonzoUserReservePosition {
+  symbol: string;
+  token: `0x${string}`;
+  decimals: number;
+  currentATokenBalance: bigint;
+  currentStableDebt: bigint;
+  currentVariableDebt: bigint;
+  stableBorrowRate: bigint; // RAY
+  liquidityRate: bigint; // RAY
+  usageAsCollateralEnabled: boolean;
+}
+
+/**
+ * Full account position on Bonzo for a single network
+ */
+export interface BonzoUserPosition {
+  accountId: string;
+  evmAddress: `0x${string}`;
+  network: NetworkKey;
+  accountData: BonzoUserAccountData;
+  reserves: BonzoUserReservePosition[];
+}
+
+const LENDING_POOL_ABI = [
+  "function getUserAccountData(address user) view returns (uint256 totalCollateralETH, uint256 totalDebtETH, uint256 availableBorrowsETH, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)",
+];
+
+const DATA_PROVIDER_ABI = [
+  "function getUserReserveData(address asset, address user) view returns (uint256 currentATokenBalance, uint256 currentStableDebt, uint256 currentVariableDebt, uint256 principalStableDebt, uint256 scaledVariableDebt, uint256 stableBorrowRate, uint256 liquidityRate, uint40 stableRateLastUpdated, bool usageAsCollateralEnabled)",
+];
+
+/**
+ * Reads user positions from the Bonzo LendingPool and AaveProtocolDataProvider
+ */
+export class BonzoPositionService {
+  private static readonly QUERY_GAS = 300_000;
+
+  /**
+   * Reads aggregate collateral, debt, LTV and health factor for a user
+   */
+  static async fetchUserAccountData(client: Client, network: NetworkKey, user: `0x${string}`): Promise<BonzoUserAccountData> {
+    const iface = new Interface(LENDING_POOL_ABI);
+    const res = await queryContract(client, getLendingPoolAddress(network), iface, "getUserAccountData", [user], this.QUERY_GAS);
+    return {
+      totalCollateralETH: BigInt(res[0].toString()),
+      totalDebtETH: BigInt(res[1].toString()),
+      availableBorrowsETH: BigInt(res[2].toString()),
+      currentLiquidationThreshold: BigInt(res[3].toString()),
+      ltv: BigInt(res[4].toString()),
+      healthFactor: BigInt(res[5].toString()),
+    };
+  }
+
+  /**
+   * Reads supplied balance, debts and collateral flag of a user for a single reserve
+   */
+  static async fetchUserReserveData(
+    client: Client,
+    network: NetworkKey,
+    symbol: string,
+    user: `0x${string}`,
+    decimals?: number
+  ): Promise<BonzoUserReservePosition> {
+    const { token } = getTokenAddresses(symbol, network);
+    const iface = new Interface(DATA_PROVIDER_ABI);
+    const dataProvider = getContractAddress("AaveProtocolDataProvider", network);
+    const res = await queryContract(client, dataProvider, iface, "getUserReserveData", [token, user], this.QUERY_GAS);
+    return {
+      symbol,
+      token,
+      decimals: decimals ?? (await fetchErc20Decimals(client, token)),
+      currentATokenBalance: BigInt(res[0].toString()),
+      currentStableDebt: BigInt(res[1].toString()),
+      currentVariableDebt: BigInt(res[2].toString()),
+      stableBorrowRate: BigInt(res[5].toString()),
+      liquidityRate: BigInt(res[6].toString()),
+      usageAsCollateralEnabled: Boolean(res[8]),
+    };
+  }
+
+  /**
+   * Reads the supplied balances and debts of an EVM address across every reserve configured for the network.
+   * Reserves where the address has neither supply nor debt are omitted.
+   */
+  static async fetchUserReserves(client: Client, network: NetworkKey, evmAddress: `0x${string}`): Promise<BonzoUserReservePosition[]> {
+    // Decimals from market API where available; on-chain lookup otherwise
+    const decimalsBySymbol = new Map<string, number>();
+    try {
+      const marketReserves = await BonzoMarketService.forNetwork(network).fetchAllReserves();
+      marketReserves.forEach((r) => decimalsBySymbol.set(r.symbol.toUpperCase(), r.decimals));
+    } catch {}
+
+    const reserves: BonzoUserReservePosition[] = [];
+    for (const symbol of getAvailableSymbols(network)) {
+      const reserve = await this.fetchUserReserveData(client, network, symbol, evmAddress, decimalsBySymbol.get(symbol.toUpperCase()));
+      if (reserve.currentATokenBalance > 0n || reserve.currentStableDebt > 0n || reserve.currentVariableDebt > 0n) {
+        reserves.push(reserve);
+      }
+    }
+    return reserves;
+  }
+
+  /**
+   * Reads the full position of an account across every reserve configured for the network.
+   * Reserves where the account has neither supply nor debt are omitted.
+   */
+  static async fetchUserPosition(client: Client, network: NetworkKey, accountId: string): Promise<BonzoUserPosition> {
+    const evmAddress = await getEvmAliasAddress(client, accountId);
+    const accountData = await this.fetchUserAccountData(client, network, evmAddress);
+    const reserves = await this.fetchUserReserves(client, network, evmAddress);
+
+    return { accountId, evmAddress, network, accountData, reserves };
+  }
+}
+
+/**
+ * Formats a WAD health factor for display; uint256 max (no debt) is shown as ∞
+ */
+export const formatHealthFactor = (healthFactor: bigint): string => {
+  if (healthFactor >= maxUint256 / 2n) return "∞";
+  return Number(fromWei(healthFactor, 18)).toFixed(2);
+};
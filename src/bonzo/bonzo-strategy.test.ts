@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import { RISK_PROFILES, type StrategyHolding, buildStrategy, formatStrategySummary } from "./bonzo-strategy.js";
+import { makeReserve, makeUsdcReserve } from "./test-fixtures.js";
+
+const whbar = makeReserve();
+const usdc = makeUsdcReserve();
+const holdings: StrategyHolding[] = [{ symbol: "HBAR", amount: "5000", usdValue: 1000, reserve: whbar }];
+// USDC yields 6% and WHBAR costs 5% to borrow, so borrowing WHBAR into USDC has positive carry
+const supplyReserves = [usdc, whbar];
+const borrowReserves = [usdc, whbar];
+
+describe("buildStrategy", () => {
+  test("low risk supplies every holding and never borrows", () => {
+    const plan = buildStrategy(holdings, supplyReserves, borrowReserves, "low");
+
+    expect(plan.supply).toEqual([{ symbol: "HBAR", amount: "5000", usdValue: 1000, supplyAPY: 3 }]);
+    expect(plan.borrow).toBeUndefined();
+    expect(plan.healthFactor).toBeNull();
+    expect(plan.netAPY).toBeCloseTo(3);
+    expect(plan.projected30DayUSD).toBeCloseTo((30 * 30) / 365);
+  });
+
+  test("medium risk borrows 40% of capacity, skipping the target asset, and redeploys it", () => {
+    const plan = buildStrategy(holdings, supplyReserves, borrowReserves, "medium");
+
+    // capacity = $1000 × 70% LTV = $700
+    expect(plan.borrow).toEqual({ symbol: "WHBAR", usdValue: 280, borrowAPY: 5, redeployInto: "USDC", redeploySupplyAPY: 6 });
+    expect(plan.netAPY).toBeCloseTo(((30 + 280 * 0.06 - 280 * 0.05) / 1000) * 100);
+    expect(plan.healthFactor).toBeCloseTo((750 + 280 * 0.85) / 280);
+  });
+
+  test("high risk borrows 70% of capacity", () => {
+    const plan = buildStrategy(holdings, supplyReserves, borrowReserves, "high");
+
+    expect(plan.borrow?.usdValue).toBeCloseTo(490);
+  });
+
+  test("keeps the health factor at or above each profile's floor", () => {
+    const risky = [{ ...holdings[0]!, reserve: makeReserve({ ltvBps: 9000, liquidationThresholdBps: 9000 }) }];
+    const unsecured = makeUsdcReserve({ liquidationThresholdBps: 0 });
+    for (const riskAppetite of ["medium", "high"] as const) {
+      const plan = buildStrategy(risky, [unsecured, whbar], [unsecured, whbar], riskAppetite);
+
+      expect(plan.borrow).toBeDefined();
+      expect(plan.healthFactor!).toBeGreaterThanOrEqual(RISK_PROFILES[riskAppetite].minHealthFactor);
+    }
+  });
+
+  test("caps the borrow at the reserve's available liquidity", () => {
+    const shallow = makeReserve({ availableLiquidityUSD: 100 });
+    const plan = buildStrategy(holdings, [usdc, shallow], [usdc, shallow], "high");
+
+    expect(plan.borrow?.usdValue).toBe(100);
+  });
+
+  test("does not borrow without positive carry", () => {
+    const expensive = makeReserve({ variableBorrowAPY: 6 });
+    const plan = buildStrategy(holdings, [usdc, expensive], [usdc, expensive], "high");
+
+    expect(plan.borrow).toBeUndefined();
+    expect(plan.healthFactor).toBeNull();
+  });
+
+  test("does not borrow dust", () => {
+    const dust = makeReserve({ availableLiquidityUSD: 0.5 });
+    const plan = buildStrategy(holdings, [usdc, dust], [usdc, dust], "high");
+
+    expect(plan.borrow).toBeUndefined();
+  });
+});
+
+describe("formatStrategySummary", () => {
+  test("includes the data timestamp, top pools and the recommendation", () => {
+    const plan = buildStrategy(holdings, supplyReserves, borrowReserves, "medium");
+    const summary = formatStrategySummary(plan, supplyReserves, "2024-01-01T00:00:00Z", 100);
+
+    expect(summary).toContain("Data as of 2024-01-01T00:00:00Z");
+    expect(summary).toContain("Top Pools: USDC 6.00%, WHBAR 3.00%");
+    expect(summary).toContain("borrow ~$280 WHBAR (5.00%) into USDC (6.00%)");
+    expect(summary).not.toContain("Slow response");
+  });
+
+  test("stays within 500 characters and flags slow responses", () => {
+    const many: StrategyHolding[] = Array.from({ length: 20 }, (_, i) => ({
+      symbol: `TOKEN_WITH_A_VERY_LONG_SYMBOL_${i}`,
+      amount: "123456789.123456",
+      usdValue: 1000 + i,
+      reserve: makeReserve({ symbol: `TOKEN_WITH_A_VERY_LONG_SYMBOL_${i}` }),
+    }));
+    const reserves = many.map((h) => h.reserve);
+    const summary = formatStrategySummary(buildStrategy(many, reserves, reserves, "high"), reserves, "2024-01-01T00:00:00Z", 5000);
+
+    expect(summary.length).toBeLessThanOrEqual(500);
+    expect(formatStrategySummary(buildStrategy(holdings, supplyReserves, borrowReserves, "low"), supplyReserves, "now", 5000)).toContain(
+      "Slow response"
+    );
+  });
+});
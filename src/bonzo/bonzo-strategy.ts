@@ -0,0 +1,187 @@
+import { AccountBalanceQuery, AccountId, type Client } from "@hashgraph/sdk";
+import type { Context } from "hedera-agent-kit";
+import BigNumber from "bignumber.js";
+import type { BonzoReserve } from "./bonzo-market-service.js";
+import { HBAR_DECIMALS, HBAR_SYMBOL, WRAPPED_HBAR_SYMBOL } from "./hbar-gateway.js";
+
+export type RiskAppetite = "low" | "medium" | "high";
+
+/**
+ * Input of the Bonzo strategy tool
+ */
+export interface BonzoStrategyInput {
+  accountId: string;
+  riskAppetite?: RiskAppetite;
+}
+
+/**
+ * Output of the Bonzo strategy tool: a short plain-text summary plus structured details
+ */
+export interface BonzoStrategyOutput {
+  summary: string;
+  diagnostics?: object;
+}
+
+/**
+ * Wallet holding that can be supplied to a Bonzo reserve
+ */
+export interface StrategyHolding {
+  symbol: string;
+  amount: string;
+  usdValue: number;
+  reserve: BonzoReserve;
+}
+
+/**
+ * Proposed strategy: supply every eligible holding, optionally borrow the cheapest asset and redeploy it into the best-yielding pool
+ */
+export interface StrategyPlan {
+  riskAppetite: RiskAppetite;
+  supply: { symbol: string; amount: string; usdValue: number; supplyAPY: number }[];
+  borrow?: { symbol: string; usdValue: number; borrowAPY: number; redeployInto: string; redeploySupplyAPY: number };
+  equityUSD: number;
+  netAPY: number;
+  projected30DayUSD: number;
+  healthFactor: number | null;
+}
+
+/**
+ * Borrow sizing per risk appetite: share of LTV-based borrowing capacity used and the health factor floor enforced
+ */
+export const RISK_PROFILES: Record<RiskAppetite, { borrowShareOfCapacity: number; minHealthFactor: number }> = {
+  low: { borrowShareOfCapacity: 0, minHealthFactor: 2 },
+  medium: { borrowShareOfCapacity: 0.4, minHealthFactor: 1.6 },
+  high: { borrowShareOfCapacity: 0.7, minHealthFactor: 1.25 },
+};
+
+/**
+ * Holdings worth less than this (USD) are treated as dust and ignored
+ */
+export const DUST_THRESHOLD_USD = 1;
+
+const SUMMARY_MAX_LENGTH = 500;
+const PROJECTION_DAYS = 30;
+
+/**
+ * Reads HBAR and HTS token balances for an account and matches them to supply reserves.
+ * Token balances come from the mirror node when the context provides one, otherwise from AccountBalanceQuery.
+ */
+export const fetchStrategyHoldings = async (
+  client: Client,
+  context: Context,
+  accountId: string,
+  reserves: BonzoReserve[]
+): Promise<StrategyHolding[]> => {
+  const id = AccountId.fromString(accountId);
+  const balance = await new AccountBalanceQuery().setAccountId(id).execute(client);
+
+  const tokenBalances = new Map<string, BigNumber>();
+  if (context.mirrornodeService) {
+    const { tokens } = await context.mirrornodeService.getAccountTokenBalances(accountId);
+    tokens.forEach((t) => tokenBalances.set(t.token_id, new BigNumber(t.balance)));
+  } else if (balance.tokens) {
+    for (const [tokenId, amount] of balance.tokens) {
+      tokenBalances.set(tokenId.toString(), new BigNumber(amount.toString()));
+    }
+  }
+
+  const holdings: StrategyHolding[] = [];
+  for (const reserve of reserves) {
+    const isWrappedHbar = reserve.symbol.toUpperCase() === WRAPPED_HBAR_SYMBOL;
+    const raw = isWrappedHbar ? new BigNumber(balance.hbars.toTinybars().toString()) : tokenBalances.get(reserve.htsAddress);
+    if (!raw || raw.isZero()) continue;
+
+    const amount = raw.shiftedBy(-(isWrappedHbar ? HBAR_DECIMALS : reserve.decimals));
+    const usdValue = amount.multipliedBy(reserve.priceUSD).toNumber();
+    if (usdValue < DUST_THRESHOLD_USD) continue;
+
+    holdings.push({ symbol: isWrappedHbar ? HBAR_SYMBOL : reserve.symbol, amount: amount.toFixed(), usdValue, reserve });
+  }
+  return holdings;
+};
+
+/**
+ * Builds the strategy from holdings and current market data (simple-interest 30-day projection)
+ */
+export const buildStrategy = (
+  holdings: StrategyHolding[],
+  supplyReserves: BonzoReserve[],
+  borrowReserves: BonzoReserve[],
+  riskAppetite: RiskAppetite
+): StrategyPlan => {
+  const profile = RISK_PROFILES[riskAppetite];
+  const equityUSD = holdings.reduce((sum, h) => sum + h.usdValue, 0);
+  const supplyIncome = holdings.reduce((sum, h) => sum + (h.usdValue * h.reserve.supplyAPY) / 100, 0);
+  const borrowCapacity = holdings.reduce((sum, h) => sum + (h.usdValue * h.reserve.ltvBps) / 10_000, 0);
+  const weightedCollateral = holdings.reduce((sum, h) => sum + (h.usdValue * h.reserve.liquidationThresholdBps) / 10_000, 0);
+
+  const plan: StrategyPlan = {
+    riskAppetite,
+    supply: holdings.map((h) => ({ symbol: h.symbol, amount: h.amount, usdValue: h.usdValue, supplyAPY: h.reserve.supplyAPY })),
+    equityUSD,
+    netAPY: equityUSD > 0 ? (supplyIncome / equityUSD) * 100 : 0,
+    projected30DayUSD: (supplyIncome * PROJECTION_DAYS) / 365,
+    healthFactor: null,
+  };
+
+  // Borrow leg only when the cheapest borrow costs less than the best supply yield (positive carry)
+  const target = supplyReserves[0];
+  const cheapest = borrowReserves.find((r) => r.symbol !== target?.symbol);
+  if (!target || !cheapest || profile.borrowShareOfCapacity === 0 || cheapest.variableBorrowAPY >= target.supplyAPY) {
+    return plan;
+  }
+
+  // Size the borrow by capacity share, health factor floor (redeployed asset counts as collateral) and available liquidity
+  const targetThreshold = target.liquidationThresholdBps / 10_000;
+  const maxByHealth = profile.minHealthFactor > targetThreshold ? weightedCollateral / (profile.minHealthFactor - targetThreshold) : Infinity;
+  const borrowUSD = Math.min(borrowCapacity * profile.borrowShareOfCapacity, maxByHealth, cheapest.availableLiquidityUSD);
+  if (!(borrowUSD >= DUST_THRESHOLD_USD)) {
+    return plan;
+  }
+
+  const netIncome = supplyIncome + (borrowUSD * target.supplyAPY) / 100 - (borrowUSD * cheapest.variableBorrowAPY) / 100;
+  return {
+    ...plan,
+    borrow: {
+      symbol: cheapest.symbol,
+      usdValue: borrowUSD,
+      borrowAPY: cheapest.variableBorrowAPY,
+      redeployInto: target.symbol,
+      redeploySupplyAPY: target.supplyAPY,
+    },
+    netAPY: (netIncome / equityUSD) * 100,
+    projected30DayUSD: (netIncome * PROJECTION_DAYS) / 365,
+    healthFactor: (weightedCollateral + borrowUSD * targetThreshold) / borrowUSD,
+  };
+};
+
+/**
+ * Formats the plain-text summary (≤ 500 chars) shown in the CLI
+ */
+export const formatStrategySummary = (plan: StrategyPlan, supplyReserves: BonzoReserve[], dataAsOf: string, elapsedMs: number): string => {
+  const topPools = supplyReserves
+    .slice(0, 3)
+    .map((r) => `${r.symbol} ${r.supplyAPY.toFixed(2)}%`)
+    .join(", ");
+  const largest = [...plan.supply].sort((a, b) => b.usdValue - a.usdValue);
+  const supplyText =
+    largest
+      .slice(0, 4)
+      .map((s) => `${new BigNumber(s.amount).toFixed(2)} ${s.symbol}`)
+      .join(", ") + (largest.length > 4 ? ` +${largest.length - 4} more` : "");
+  const borrowText = plan.borrow
+    ? `; borrow ~$${plan.borrow.usdValue.toFixed(0)} ${plan.borrow.symbol} (${plan.borrow.borrowAPY.toFixed(2)}%) into ${plan.borrow.redeployInto} (${plan.borrow.redeploySupplyAPY.toFixed(2)}%)`
+    : "; no borrow";
+  const health = plan.healthFactor === null ? "no debt" : `health factor ${plan.healthFactor.toFixed(2)}`;
+
+  let summary = `Data as of ${dataAsOf}\n`;
+  summary += `Top Pools: ${topPools}\n`;
+  summary += `Recommended Strategy: Supply ${supplyText}${borrowText}\n`;
+  summary += `Projected APY: ${plan.netAPY.toFixed(2)}% net (~$${plan.projected30DayUSD.toFixed(2)} over 30 days)\n`;
+  summary += `Risk: ${plan.riskAppetite}, ${health}`;
+  if (elapsedMs > 3000) {
+    summary += "\nSlow response; retry later for fresher data.";
+  }
+
+  return summary.length > SUMMARY_MAX_LENGTH ? `${summary.slice(0, SUMMARY_MAX_LENGTH - 1)}…` : summary;
+};
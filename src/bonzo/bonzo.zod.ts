@@ -11,6 +11,7 @@ export const approveErc20Parameters = (_: Context = {}) =>
       .object({
         spender: z.string().optional().describe("Override spender address; defaults to Bonzo LendingPool"),
         useMax: z.boolean().optional().default(false).describe("Approve max uint256 instead of amount"),
+        dryRun: z.boolean().optional().default(false).describe("Simulate the transactions and report reverts and estimated gas without submitting or returning bytes"),
       })
       .optional(),
   });
@@ -25,6 +26,12 @@ export const depositParameters = (_: Context = {}) =>
       .object({
         onBehalfOf: z.string().optional().describe("Account ID to deposit on behalf of; defaults to operator"),
         referralCode: z.number().optional().default(0).describe("Referral code (default 0)"),
+        clampToMax: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Reduce the amount to the max currently possible when it exceeds the supply cap"),
+        dryRun: z.boolean().optional().default(false).describe("Simulate the transactions and report reverts and estimated gas without submitting or returning bytes"),
       })
       .optional(),
   });
@@ -39,6 +46,12 @@ export const withdrawParameters = (_: Context = {}) =>
       .object({
         to: z.string().optional().describe("Recipient account ID; defaults to operator"),
         withdrawAll: z.boolean().optional().default(false).describe("Withdraw max (all)"),
+        acknowledgeRisk: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Proceed even if the projected health factor falls below the configured minimum"),
+        dryRun: z.boolean().optional().default(false).describe("Simulate the transactions and report reverts and estimated gas without submitting or returning bytes"),
       })
       .optional(),
   });
@@ -54,6 +67,17 @@ export const borrowParameters = (_: Context = {}) =>
       .object({
         onBehalfOf: z.string().optional().describe("Account ID to borrow on behalf of; defaults to operator"),
         referralCode: z.number().optional().default(0).describe("Referral code (default 0)"),
+        clampToMax: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Reduce the amount to the max currently possible when it exceeds the borrow cap or available liquidity"),
+        acknowledgeRisk: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Proceed even if the projected health factor falls below the configured minimum"),
+        dryRun: z.boolean().optional().default(false).describe("Simulate the transactions and report reverts and estimated gas without submitting or returning bytes"),
       })
       .optional(),
   });
@@ -69,7 +93,217 @@ export const repayParameters = (_: Context = {}) =>
       .object({
         onBehalfOf: z.string().optional().describe("Account ID to repay on behalf of; defaults to operator"),
         repayAll: z.boolean().optional().default(false).describe("Repay max (all)"),
+        dryRun: z.boolean().optional().default(false).describe("Simulate the transactions and report reverts and estimated gas without submitting or returning bytes"),
       })
       .optional(),
   });
 
+
+export const userPositionParameters = (_: Context = {}) =>
+  z.object({
+    optional: z
+      .object({
+        accountId: z.string().optional().describe("Account ID whose position to read; defaults to operator"),
+      })
+      .optional(),
+  });
+
+export const strategyParameters = (_: Context = {}) =>
+  z.object({
+    accountId: z.string().min(1).describe("Hedera account ID whose balances the strategy is built for (e.g. 0.0.12345)"),
+    riskAppetite: z.enum(["low", "medium", "high"]).optional().default("medium").describe("Risk appetite (default medium)"),
+  });
+
+export const walletBalanceParameters = (_: Context = {}) =>
+  z.object({
+    optional: z
+      .object({
+        accountId: z.string().optional().describe("Account ID whose wallet balances to read; defaults to operator"),
+        includeZero: z.boolean().optional().default(false).describe("Also list reserve tokens with a zero balance"),
+      })
+      .optional(),
+  });
+
+export const swapRateModeParameters = (_: Context = {}) =>
+  z.object({
+    required: z.object({
+      tokenSymbol: z.string().min(1).describe("Symbol of the borrowed token whose debt to move (HBAR for WHBAR debt)"),
+      targetRateMode: z.enum(["stable", "variable"]).describe("Rate mode to move the debt into"),
+    }),
+  });
+
+export const setCollateralParameters = (_: Context = {}) =>
+  z.object({
+    required: z.object({
+      tokenSymbol: z.string().min(1).describe("Symbol of the supplied token (HBAR for WHBAR)"),
+      useAsCollateral: z.boolean().describe("true to enable the supplied balance as collateral, false to disable it"),
+    }),
+    optional: z
+      .object({
+        acknowledgeRisk: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Proceed even if the projected health factor falls below the configured minimum"),
+      })
+      .optional(),
+  });
+
+export const liquidationParameters = (_: Context = {}) =>
+  z.object({
+    required: z.object({
+      user: z.string().min(1).describe("Borrower to liquidate: Hedera account ID (0.0.x) or EVM address"),
+      collateralTokenSymbol: z.string().min(1).describe("Collateral to seize (HBAR for WHBAR)"),
+      debtTokenSymbol: z.string().min(1).describe("Debt to repay (HBAR for WHBAR)"),
+    }),
+    optional: z
+      .object({
+        debtToCover: z
+          .union([z.number(), z.string()])
+          .optional()
+          .describe("Debt amount to repay in human-readable units; defaults to the max allowed by the close factor"),
+        receiveAToken: z.boolean().optional().default(false).describe("Receive the collateral as aTokens instead of the underlying"),
+      })
+      .optional(),
+  });
+
+export const liquidationScanParameters = (_: Context = {}) =>
+  z.object({
+    optional: z
+      .object({
+        accounts: z
+          .array(z.string().trim().regex(/^(\d+\.\d+\.\d+|0x[0-9a-fA-F]{40})$/, "Expected an account ID (0.0.x) or an EVM address"))
+          .optional()
+          .describe("Account IDs (0.0.x) or EVM addresses to scan"),
+        fromMirrorNode: z.boolean().optional().default(false).describe("Also scan recent LendingPool callers from the mirror node"),
+        maxAccounts: z.number().int().positive().optional().default(200).describe("Maximum number of accounts to scan (default 200)"),
+        healthFactorThreshold: z
+          .number()
+          .positive()
+          .optional()
+          .default(1)
+          .describe("Report positions with a health factor below this value (default 1.0 = liquidatable now)"),
+        concurrency: z.number().int().positive().max(20).optional().default(5).describe("Accounts read in parallel (default 5)"),
+      })
+      .optional(),
+  });
+
+export const flashLoanParameters = (_: Context = {}) =>
+  z.object({
+    required: z.object({
+      receiver: z.string().min(1).describe("Receiver contract implementing executeOperation: contract ID (0.0.x) or EVM address"),
+      assets: z
+        .array(
+          z.object({
+            tokenSymbol: z.string().min(1).describe("Symbol of the token to flash borrow (HBAR for WHBAR)"),
+            amount: z.union([z.number(), z.string()]).describe("Amount in human-readable units"),
+            mode: z
+              .enum(["none", "stable", "variable"])
+              .optional()
+              .default("none")
+              .describe("none = repay with premium in the same transaction; stable/variable = keep as debt of onBehalfOf"),
+          })
+        )
+        .min(1)
+        .describe("Assets to borrow"),
+    }),
+    optional: z
+      .object({
+        onBehalfOf: z.string().optional().describe("Account ID that incurs debt for stable/variable modes; defaults to operator"),
+        params: z.string().regex(/^0x([0-9a-fA-F]{2})*$/).optional().default("0x").describe("Hex-encoded bytes passed to executeOperation"),
+        referralCode: z.number().optional().default(0).describe("Referral code (default 0)"),
+        gas: z.number().int().positive().optional().describe("Gas limit; the receiver's logic runs inside this call"),
+      })
+      .optional(),
+  });
+
+export const rebalanceStableRateParameters = (_: Context = {}) =>
+  z.object({
+    required: z.object({
+      tokenSymbol: z.string().min(1).describe("Symbol of the borrowed token (HBAR for WHBAR)"),
+    }),
+    optional: z
+      .object({
+        users: z
+          .array(z.string())
+          .optional()
+          .describe("Stable rate borrowers to check: account IDs (0.0.x) or EVM addresses; defaults to operator"),
+        checkOnly: z.boolean().optional().default(false).describe("Only report rates and eligibility; do not build rebalance transactions"),
+      })
+      .optional(),
+  });
+
+export const repayFromCollateralParameters = (_: Context = {}) =>
+  z.object({
+    required: z.object({
+      tokenSymbol: z.string().min(1).describe("Symbol of the token whose debt to repay with its supplied balance (HBAR for WHBAR)"),
+      rateMode: z.enum(["stable", "variable"]).describe("Debt rate mode to repay"),
+    }),
+    optional: z
+      .object({
+        amount: z
+          .union([z.number(), z.string()])
+          .optional()
+          .describe("Amount to repay in human-readable units; defaults to the whole debt including accrued interest"),
+        acknowledgeRisk: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Proceed even if the health factor after the withdraw step falls below the configured minimum"),
+      })
+      .optional(),
+  });
+
+export const loopParameters = (_: Context = {}) =>
+  z.object({
+    required: z.object({
+      supplyTokenSymbol: z.string().min(1).describe("Token supplied as collateral in every loop (HBAR for WHBAR)"),
+      borrowTokenSymbol: z.string().min(1).describe("Token borrowed in every loop (HBAR for WHBAR)"),
+      amount: z.union([z.number(), z.string()]).describe("Initial deposit in human-readable units of the supply token"),
+      targetLeverage: z.number().min(1).describe("Target total supplied / initial deposit, e.g. 2.5"),
+    }),
+    optional: z
+      .object({
+        minHealthFactor: z.number().min(1).optional().describe("Lowest health factor allowed at any step; defaults to BONZO_MIN_HEALTH_FACTOR"),
+        maxLoops: z.number().int().min(1).max(10).optional().default(5).describe("Maximum number of borrow/re-supply loops (default 5)"),
+        rateMode: z.enum(["stable", "variable"]).optional().default("variable").describe("Borrow rate mode (default variable)"),
+        planOnly: z.boolean().optional().default(false).describe("Only report the plan; do not build transactions"),
+      })
+      .optional(),
+  });
+
+export const unwindParameters = (_: Context = {}) =>
+  z.object({
+    required: z.object({
+      collateralTokenSymbol: z.string().min(1).describe("Supplied token withdrawn to repay the debt (HBAR for WHBAR)"),
+      debtTokenSymbol: z.string().min(1).describe("Borrowed token to repay (HBAR for WHBAR)"),
+    }),
+    optional: z
+      .object({
+        rateMode: z.enum(["stable", "variable"]).optional().default("variable").describe("Debt rate mode to repay (default variable)"),
+        targetHealthFactor: z
+          .number()
+          .min(1)
+          .optional()
+          .describe("Stop once the health factor reaches this value; omit to close the debt fully and withdraw the rest"),
+        minHealthFactor: z.number().min(1).optional().describe("Lowest health factor allowed after any withdraw; defaults to BONZO_MIN_HEALTH_FACTOR"),
+        maxSteps: z.number().int().min(1).max(20).optional().default(10).describe("Maximum number of withdraw/repay rounds (default 10)"),
+        planOnly: z.boolean().optional().default(false).describe("Only report the plan; do not build transactions"),
+      })
+      .optional(),
+  });
+
+export const resumePlanParameters = (_: Context = {}) =>
+  z.object({
+    required: z.object({
+      planState: z.string().min(1).describe("planState JSON returned by the previous step of a multi-transaction plan"),
+    }),
+    optional: z
+      .object({
+        transactionId: z
+          .string()
+          .optional()
+          .describe("Transaction ID under which the last prepared step was submitted (defaults to the ID stored in planState)"),
+      })
+      .optional(),
+  });
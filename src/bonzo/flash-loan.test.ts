@@ -0,0 +1,54 @@
+import { afterAll, afterEach, describe, expect, mock, test } from "bun:test";
+import { Client } from "@hashgraph/sdk";
+import { type FlashLoanAsset, buildFlashLoanStep, fetchFlashLoanPremium, flashLoanPremium } from "./flash-loan.js";
+import { decodeStep, mockContractCalls } from "./test-fixtures.js";
+import { getLendingPoolAddress, getTokenAddresses } from "./utils.js";
+
+const FLASH_LOAN =
+  "function flashLoan(address receiverAddress, address[] assets, uint256[] amounts, uint256[] modes, address onBehalfOf, bytes params, uint16 referralCode)";
+const receiver = "0x0000000000000000000000000000000000018ecd";
+const onBehalfOf = "0x0000000000000000000000000000000000001234";
+
+const usdc: FlashLoanAsset = { symbol: "USDC", token: getTokenAddresses("USDC", "hedera_testnet").token, amount: 10_000_000_000n, mode: "none" };
+const whbar: FlashLoanAsset = { symbol: "WHBAR", token: getTokenAddresses("WHBAR", "hedera_testnet").token, amount: 50_000_000_000n, mode: "variable" };
+
+const client = Client.forTestnet();
+afterAll(() => client.close());
+afterEach(() => {
+  mock.restore();
+});
+
+describe("flash loan premium", () => {
+  test("charges the premium only on assets repaid within the loan", () => {
+    // 10,000 USDC at 9 bps
+    expect(flashLoanPremium(usdc, 9n)).toBe(9_000_000n);
+    expect(flashLoanPremium(whbar, 9n)).toBe(0n);
+  });
+
+  test("reads FLASHLOAN_PREMIUM_TOTAL and falls back to 9 bps", async () => {
+    mockContractCalls({ "function FLASHLOAN_PREMIUM_TOTAL() view returns (uint256)": () => [5n] });
+    expect(await fetchFlashLoanPremium(client, "hedera_testnet")).toBe(5n);
+
+    mock.restore();
+    mockContractCalls({});
+    expect(await fetchFlashLoanPremium(client, "hedera_testnet")).toBe(9n);
+  });
+});
+
+describe("buildFlashLoanStep", () => {
+  test("encodes assets, amounts and modes in order on the LendingPool", () => {
+    const step = buildFlashLoanStep("hedera_testnet", receiver, [usdc, whbar], onBehalfOf, "0xdead", 7, 3_000_000);
+    const { contract, gas, args } = decodeStep(step, FLASH_LOAN);
+
+    expect(step.label).toBe(`Flash loan USDC, WHBAR to ${receiver}`);
+    expect(contract).toBe(getLendingPoolAddress("hedera_testnet").toLowerCase());
+    expect(gas).toBe(3_000_000);
+    expect(args.receiverAddress.toLowerCase()).toBe(receiver);
+    expect(args.assets.map((a: string) => a.toLowerCase())).toEqual([usdc.token.toLowerCase(), whbar.token.toLowerCase()]);
+    expect(args.amounts.map(String)).toEqual(["10000000000", "50000000000"]);
+    expect(args.modes.map(String)).toEqual(["0", "2"]);
+    expect(args.onBehalfOf.toLowerCase()).toBe(onBehalfOf);
+    expect(args.params).toBe("0xdead");
+    expect(args.referralCode).toBe(7);
+  });
+});
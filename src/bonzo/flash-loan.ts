@@ -0,0 +1,78 @@
+import type { Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import { type NetworkKey, type PreparedTransaction, buildContractCall, getLendingPoolAddress, queryContract } from "./utils.js";
+
+/**
+ * Aave v2 flash loan premium (0.09%), used when FLASHLOAN_PREMIUM_TOTAL cannot be read
+ */
+export const FLASHLOAN_PREMIUM_FALLBACK_BPS = 9n;
+
+/**
+ * What happens to each borrowed asset at the end of the flash loan: repaid with premium ("none"), or left open as debt
+ */
+export const FLASH_LOAN_MODE_MAP = {
+  none: 0,
+  stable: 1,
+  variable: 2,
+} as const;
+
+export type FlashLoanMode = keyof typeof FLASH_LOAN_MODE_MAP;
+
+export interface FlashLoanAsset {
+  symbol: string;
+  token: `0x${string}`;
+  amount: bigint;
+  mode: FlashLoanMode;
+}
+
+const LENDING_POOL_FLASH_ABI = [
+  "function FLASHLOAN_PREMIUM_TOTAL() view returns (uint256)",
+  "function flashLoan(address receiverAddress, address[] assets, uint256[] amounts, uint256[] modes, address onBehalfOf, bytes params, uint16 referralCode)",
+];
+
+/**
+ * Reads LendingPool.FLASHLOAN_PREMIUM_TOTAL (basis points), falling back to the Aave v2 default of 9
+ */
+export const fetchFlashLoanPremium = async (client: Client, network: NetworkKey): Promise<bigint> => {
+  try {
+    const res = await queryContract(client, getLendingPoolAddress(network), new Interface(LENDING_POOL_FLASH_ABI), "FLASHLOAN_PREMIUM_TOTAL");
+    return BigInt(res[0].toString());
+  } catch {
+    return FLASHLOAN_PREMIUM_FALLBACK_BPS;
+  }
+};
+
+/**
+ * Premium owed for an asset repaid within the flash loan; assets left open as debt pay no premium
+ */
+export const flashLoanPremium = (asset: FlashLoanAsset, premiumBps: bigint): bigint => {
+  return asset.mode === "none" ? (asset.amount * premiumBps) / 10_000n : 0n;
+};
+
+/**
+ * Builds LendingPool.flashLoan. The receiver's executeOperation must return the funds plus premium (mode "none")
+ * or `onBehalfOf` must have enough collateral (and credit delegation, if not the caller) for the debt modes.
+ */
+export const buildFlashLoanStep = (
+  network: NetworkKey,
+  receiver: `0x${string}`,
+  assets: FlashLoanAsset[],
+  onBehalfOf: `0x${string}`,
+  params: string,
+  referralCode: number,
+  gas: number
+): PreparedTransaction => {
+  const data = new Interface(LENDING_POOL_FLASH_ABI).encodeFunctionData("flashLoan", [
+    receiver,
+    assets.map((a) => a.token),
+    assets.map((a) => a.amount),
+    assets.map((a) => FLASH_LOAN_MODE_MAP[a.mode]),
+    onBehalfOf,
+    params,
+    referralCode,
+  ]);
+  return {
+    label: `Flash loan ${assets.map((a) => a.symbol).join(", ")} to ${receiver}`,
+    tx: buildContractCall(getLendingPoolAddress(network), data, gas),
+  };
+};
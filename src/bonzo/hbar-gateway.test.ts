@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildBorrowHbarSteps,
+  buildDepositHbarSteps,
+  buildRepayHbarSteps,
+  buildWithdrawHbarSteps,
+  getWethGatewayAddress,
+  isNativeHbar,
+  withAccrualBuffer,
+} from "./hbar-gateway.js";
+import { decodeStep } from "./test-fixtures.js";
+import { getLendingPoolAddress, getTokenAddresses, maxUint256 } from "./utils.js";
+
+const user = "0x0000000000000000000000000000000000001234";
+const gateway = getWethGatewayAddress("hedera_testnet").toLowerCase();
+const lendingPool = getLendingPoolAddress("hedera_testnet").toLowerCase();
+const whbar = getTokenAddresses("WHBAR", "hedera_testnet");
+
+describe("WETHGateway steps", () => {
+  test("deposit attaches the HBAR as msg.value", () => {
+    const [step] = buildDepositHbarSteps("hedera_testnet", 500_000_000n, user, 0);
+    const { contract, payableTinybars, args } = decodeStep(step!, "function depositETH(address lendingPool, address onBehalfOf, uint16 referralCode)");
+
+    expect(contract).toBe(gateway);
+    expect(payableTinybars).toBe("500000000");
+    expect(args.lendingPool.toLowerCase()).toBe(lendingPool);
+  });
+
+  test("withdraw approves aWHBAR for the gateway first", () => {
+    const [approve, withdraw] = buildWithdrawHbarSteps("hedera_testnet", maxUint256, 1_001n, user);
+    const approval = decodeStep(approve!, "function approve(address spender, uint256 amount)");
+
+    expect(approval.contract).toBe(whbar.aToken.toLowerCase());
+    expect(approval.args.spender.toLowerCase()).toBe(gateway);
+    expect(approval.args.amount.toString()).toBe("1001");
+    expect(decodeStep(withdraw!, "function withdrawETH(address lendingPool, uint256 amount, address to)").args.to.toLowerCase()).toBe(user);
+  });
+
+  test("borrow delegates credit on the debt token of the chosen rate mode", () => {
+    const [variable] = buildBorrowHbarSteps("hedera_testnet", 100n, "variable", 0);
+    const [stable, borrow] = buildBorrowHbarSteps("hedera_testnet", 100n, "stable", 0);
+
+    expect(decodeStep(variable!, "function approveDelegation(address delegatee, uint256 amount)").contract).toBe(whbar.variableDebt.toLowerCase());
+    expect(decodeStep(stable!, "function approveDelegation(address delegatee, uint256 amount)").contract).toBe(whbar.stableDebt.toLowerCase());
+    expect(
+      decodeStep(borrow!, "function borrowETH(address lendingPool, uint256 amount, uint256 interesRateMode, uint16 referralCode)").args.interesRateMode.toNumber()
+    ).toBe(1);
+  });
+
+  test("repay attaches the payable amount separately from the repaid amount", () => {
+    const [step] = buildRepayHbarSteps("hedera_testnet", maxUint256, 1_002n, "variable", user);
+    const { payableTinybars, args } = decodeStep(step!, "function repayETH(address lendingPool, uint256 amount, uint256 rateMode, address onBehalfOf)");
+
+    expect(payableTinybars).toBe("1002");
+    expect(BigInt(args.amount.toString())).toBe(maxUint256);
+  });
+});
+
+describe("helpers", () => {
+  test("recognizes native HBAR case-insensitively", () => {
+    expect(isNativeHbar("hbar")).toBe(true);
+    expect(isNativeHbar("WHBAR")).toBe(false);
+  });
+
+  test("adds a 0.1% accrual margin except to uint256 max", () => {
+    expect(withAccrualBuffer(1_000_000n)).toBe(1_001_001n);
+    expect(withAccrualBuffer(maxUint256)).toBe(maxUint256);
+  });
+});
@@ -0,0 +1,129 @@
+import { Interface } from "@ethersproject/abi";
+import {
+  type NetworkKey,
+  type PreparedTransaction,
+  type RateMode,
+  RATE_MODE_MAP,
+  buildContractCall,
+  getContractAddress,
+  getLendingPoolAddress,
+  getTokenAddresses,
+  maxUint256,
+} from "./utils.js";
+
+/**
+ * Symbol users refer to for native HBAR; routed through the WETHGateway
+ */
+export const HBAR_SYMBOL = "HBAR";
+
+/**
+ * Reserve that backs native HBAR flows in the LendingPool
+ */
+export const WRAPPED_HBAR_SYMBOL = "WHBAR";
+
+/**
+ * HBAR is denominated in tinybars (8 decimals), which is also the EVM msg.value unit on Hedera
+ */
+export const HBAR_DECIMALS = 8;
+
+const GATEWAY_ABI = [
+  "function depositETH(address lendingPool, address onBehalfOf, uint16 referralCode) payable",
+  "function withdrawETH(address lendingPool, uint256 amount, address to)",
+  "function repayETH(address lendingPool, uint256 amount, uint256 rateMode, address onBehalfOf) payable",
+  "function borrowETH(address lendingPool, uint256 amount, uint256 interesRateMode, uint16 referralCode)",
+];
+
+const ERC20_APPROVE_ABI = ["function approve(address spender, uint256 amount)"];
+const DEBT_TOKEN_DELEGATION_ABI = ["function approveDelegation(address delegatee, uint256 amount)"];
+
+export const isNativeHbar = (symbol: string): boolean => symbol.toUpperCase() === HBAR_SYMBOL;
+
+export const getWethGatewayAddress = (network: NetworkKey): `0x${string}` => getContractAddress("WETHGateway", network);
+
+/**
+ * depositETH: wraps the attached HBAR and supplies it as WHBAR on behalf of `onBehalfOf`
+ */
+export const buildDepositHbarSteps = (
+  network: NetworkKey,
+  amountTinybars: bigint,
+  onBehalfOf: `0x${string}`,
+  referralCode: number
+): PreparedTransaction[] => {
+  const gateway = getWethGatewayAddress(network);
+  const data = new Interface(GATEWAY_ABI).encodeFunctionData("depositETH", [getLendingPoolAddress(network), onBehalfOf, referralCode]);
+  return [{ label: "Deposit HBAR via WETHGateway", tx: buildContractCall(gateway, data, 1_000_000, amountTinybars) }];
+};
+
+/**
+ * withdrawETH: the gateway pulls aWHBAR from the caller, so an aWHBAR approval to the gateway is prepended.
+ * `approvalAmount` must cover the withdrawn amount at execution time (use a small buffer for withdraw-all).
+ */
+export const buildWithdrawHbarSteps = (
+  network: NetworkKey,
+  amountTinybars: bigint,
+  approvalAmount: bigint,
+  to: `0x${string}`
+): PreparedTransaction[] => {
+  const gateway = getWethGatewayAddress(network);
+  const { aToken } = getTokenAddresses(WRAPPED_HBAR_SYMBOL, network);
+  const approveData = new Interface(ERC20_APPROVE_ABI).encodeFunctionData("approve", [gateway, approvalAmount]);
+  const withdrawData = new Interface(GATEWAY_ABI).encodeFunctionData("withdrawETH", [getLendingPoolAddress(network), amountTinybars, to]);
+  return [
+    { label: "Approve aWHBAR for WETHGateway", tx: buildContractCall(aToken, approveData, 1_000_000) },
+    { label: "Withdraw HBAR via WETHGateway", tx: buildContractCall(gateway, withdrawData, 1_000_000) },
+  ];
+};
+
+/**
+ * borrowETH: the gateway borrows WHBAR on behalf of the caller, which requires credit delegation on the debt token
+ */
+export const buildBorrowHbarSteps = (
+  network: NetworkKey,
+  amountTinybars: bigint,
+  rateMode: RateMode,
+  referralCode: number
+): PreparedTransaction[] => {
+  const gateway = getWethGatewayAddress(network);
+  const { stableDebt, variableDebt } = getTokenAddresses(WRAPPED_HBAR_SYMBOL, network);
+  const debtToken = rateMode === "stable" ? stableDebt : variableDebt;
+  const delegateData = new Interface(DEBT_TOKEN_DELEGATION_ABI).encodeFunctionData("approveDelegation", [gateway, amountTinybars]);
+  const borrowData = new Interface(GATEWAY_ABI).encodeFunctionData("borrowETH", [
+    getLendingPoolAddress(network),
+    amountTinybars,
+    RATE_MODE_MAP[rateMode],
+    referralCode,
+  ]);
+  return [
+    { label: `Delegate ${rateMode} WHBAR credit to WETHGateway`, tx: buildContractCall(debtToken, delegateData, 1_000_000) },
+    { label: "Borrow HBAR via WETHGateway", tx: buildContractCall(gateway, borrowData, 2_000_000) },
+  ];
+};
+
+/**
+ * repayETH: the attached HBAR must be at least the amount repaid; the gateway refunds any excess.
+ * Pass `amountTinybars = maxUint256` with `payableTinybars` covering the full debt to repay everything.
+ */
+export const buildRepayHbarSteps = (
+  network: NetworkKey,
+  amountTinybars: bigint,
+  payableTinybars: bigint,
+  rateMode: RateMode,
+  onBehalfOf: `0x${string}`
+): PreparedTransaction[] => {
+  const gateway = getWethGatewayAddress(network);
+  const data = new Interface(GATEWAY_ABI).encodeFunctionData("repayETH", [
+    getLendingPoolAddress(network),
+    amountTinybars,
+    RATE_MODE_MAP[rateMode],
+    onBehalfOf,
+  ]);
+  return [{ label: "Repay HBAR via WETHGateway", tx: buildContractCall(gateway, data, 1_000_000, payableTinybars) }];
+};
+
+/**
+ * Adds a 0.1% margin (plus one unit) to cover interest accrued between building and executing a transaction
+ */
+export const withAccrualBuffer = (amount: bigint): bigint => {
+  if (amount === maxUint256) return amount;
+  return amount + amount / 1000n + 1n;
+};
@@ -0,0 +1,140 @@
+import { afterAll, afterEach, describe, expect, mock, test } from "bun:test";
+import { Client } from "@hashgraph/sdk";
+import {
+  evaluateHealthFactor,
+  getMinHealthFactor,
+  preflightBorrow,
+  preflightCollateralToggle,
+  preflightWithdraw,
+  simulateHealthFactor,
+  toBaseCurrency,
+} from "./health-factor.js";
+import {
+  GET_ASSET_PRICE,
+  GET_RESERVE_CONFIGURATION_DATA,
+  GET_USER_ACCOUNT_DATA,
+  GET_USER_RESERVE_DATA,
+  WAD,
+  makeAccountData,
+  mockContractCalls,
+} from "./test-fixtures.js";
+import { maxUint256 } from "./utils.js";
+
+// 1000 HBAR of collateral at a 75% threshold against 500 HBAR of debt: health factor 1.5
+const account = makeAccountData({ totalCollateralETH: 1000n * WAD, currentLiquidationThreshold: 7500n, totalDebtETH: 500n * WAD });
+
+describe("simulateHealthFactor", () => {
+  test("returns the current health factor for an empty delta", () => {
+    expect(simulateHealthFactor(account, {})).toBe((3n * WAD) / 2n);
+  });
+
+  test("accounts for new debt and repayments", () => {
+    expect(simulateHealthFactor(account, { debtAddedETH: 100n * WAD })).toBe((5n * WAD) / 4n);
+    expect(simulateHealthFactor(account, { debtRemovedETH: 250n * WAD })).toBe(3n * WAD);
+  });
+
+  test("weights added and removed collateral by its own threshold", () => {
+    expect(simulateHealthFactor(account, { collateralRemovedETH: 200n * WAD, collateralLiquidationThreshold: 7500n })).toBe((6n * WAD) / 5n);
+    expect(simulateHealthFactor(account, { collateralAddedETH: 100n * WAD, collateralLiquidationThreshold: 5000n })).toBe((8n * WAD) / 5n);
+  });
+
+  test("returns uint256 max without debt and zero without collateral", () => {
+    expect(simulateHealthFactor(account, { debtRemovedETH: 500n * WAD })).toBe(maxUint256);
+    expect(simulateHealthFactor(makeAccountData(), { debtAddedETH: WAD })).toBe(0n);
+  });
+});
+
+describe("toBaseCurrency", () => {
+  test("converts smallest units with the oracle price", () => {
+    expect(toBaseCurrency(2_500_000n, 5n * WAD, 6)).toBe((25n * WAD) / 2n);
+  });
+});
+
+describe("evaluateHealthFactor", () => {
+  const previous = process.env.BONZO_MIN_HEALTH_FACTOR;
+  afterEach(() => {
+    if (previous === undefined) delete process.env.BONZO_MIN_HEALTH_FACTOR;
+    else process.env.BONZO_MIN_HEALTH_FACTOR = previous;
+  });
+
+  test("defaults the floor to 1.2 and reads BONZO_MIN_HEALTH_FACTOR", () => {
+    delete process.env.BONZO_MIN_HEALTH_FACTOR;
+    expect(getMinHealthFactor()).toBe((6n * WAD) / 5n);
+
+    process.env.BONZO_MIN_HEALTH_FACTOR = "1.5";
+    expect(getMinHealthFactor()).toBe((3n * WAD) / 2n);
+
+    process.env.BONZO_MIN_HEALTH_FACTOR = "0.5";
+    expect(getMinHealthFactor()).toBe((6n * WAD) / 5n);
+  });
+
+  test("allows projections at or above the floor", () => {
+    delete process.env.BONZO_MIN_HEALTH_FACTOR;
+    expect(evaluateHealthFactor("Borrow", 2n * WAD, (6n * WAD) / 5n).ok).toBe(true);
+  });
+
+  test("blocks projections below the floor unless the risk is acknowledged", () => {
+    delete process.env.BONZO_MIN_HEALTH_FACTOR;
+    const blocked = evaluateHealthFactor("Borrow", 2n * WAD, (11n * WAD) / 10n);
+
+    expect(blocked.ok).toBe(false);
+    expect(blocked.message).toContain("acknowledgeRisk");
+    expect(evaluateHealthFactor("Borrow", 2n * WAD, (11n * WAD) / 10n, true).ok).toBe(true);
+  });
+
+  test("always blocks projections below 1.0", () => {
+    const result = evaluateHealthFactor("Withdraw", 2n * WAD, (9n * WAD) / 10n, true);
+
+    expect(result.ok).toBe(false);
+    expect(result.message).toContain("liquidatable immediately");
+  });
+});
+
+describe("preflight checks", () => {
+  const client = Client.forTestnet();
+  const user = "0x0000000000000000000000000000000000001234";
+  const whbar = "0x0000000000000000000000000000000000003ad2";
+  afterAll(() => client.close());
+  afterEach(() => {
+    mock.restore();
+  });
+
+  // The account above, with `supplied` WHBAR (1 HBAR each) of its collateral in the checked reserve
+  const mockAccount = (supplied: bigint, usageAsCollateralEnabled = true) =>
+    mockContractCalls({
+      [GET_USER_ACCOUNT_DATA]: () => [account.totalCollateralETH, account.totalDebtETH, 0n, 7500n, 7000n, (3n * WAD) / 2n],
+      [GET_USER_RESERVE_DATA]: () => [supplied, 0n, 0n, 0n, 0n, 0n, 0n, 0, usageAsCollateralEnabled],
+      [GET_ASSET_PRICE]: () => [WAD],
+      [GET_RESERVE_CONFIGURATION_DATA]: () => [8n, 7000n, 7500n, 10500n, 1000n, true, true, true, true, false],
+    });
+
+  test("projects a borrow from the oracle price", async () => {
+    mockAccount(0n);
+
+    expect(await preflightBorrow(client, "hedera_testnet", user, whbar, 10_000_000_000n, 8)).toMatchObject({ ok: true, projectedHealthFactor: (5n * WAD) / 4n });
+    expect((await preflightBorrow(client, "hedera_testnet", user, whbar, 20_000_000_000n, 8)).ok).toBe(false);
+  });
+
+  test("projects a withdraw, capped at the supplied balance", async () => {
+    mockAccount(20_000_000_000n);
+
+    expect(await preflightWithdraw(client, "hedera_testnet", user, "WHBAR", 20_000_000_000n, 8)).toMatchObject({ ok: true, projectedHealthFactor: (6n * WAD) / 5n });
+    expect((await preflightWithdraw(client, "hedera_testnet", user, "WHBAR", 10n ** 30n, 8)).projectedHealthFactor).toBe((6n * WAD) / 5n);
+  });
+
+  test("ignores withdrawals of reserves that are not collateral", async () => {
+    mockAccount(90_000_000_000n, false);
+
+    expect(await preflightWithdraw(client, "hedera_testnet", user, "WHBAR", 90_000_000_000n, 8)).toMatchObject({ ok: true, projectedHealthFactor: (3n * WAD) / 2n });
+  });
+
+  test("blocks disabling collateral that the debt depends on", async () => {
+    mockAccount(40_000_000_000n);
+    const disable = await preflightCollateralToggle(client, "hedera_testnet", user, "WHBAR", false, 8);
+
+    expect(disable.ok).toBe(false);
+    expect(disable.message).toContain("Disabling collateral blocked");
+    expect(disable.message).toContain("Repay debt or add other collateral first");
+    expect((await preflightCollateralToggle(client, "hedera_testnet", user, "WHBAR", true, 8)).ok).toBe(true);
+  });
+});
@@ -0,0 +1,232 @@
+import type { Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import { BonzoPositionService, formatHealthFactor, type BonzoUserAccountData } from "./bonzo-position-service.js";
+import { type NetworkKey, getContractAddress, maxUint256, queryContract, toWei } from "./utils.js";
+
+const WAD = 10n ** 18n;
+const BPS = 10_000n;
+
+const ORACLE_ABI = ["function getAssetPrice(address asset) view returns (uint256)"];
+
+const DATA_PROVIDER_ABI = [
+  "function getReserveConfigurationData(address asset) view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)",
+];
+
+/**
+ * On-chain risk configuration of a reserve (basis points where applicable)
+ */
+export interface BonzoReserveConfiguration {
+  decimals: number;
+  ltv: bigint;
+  liquidationThreshold: bigint;
+  liquidationBonus: bigint;
+  reserveFactor: bigint;
+  usageAsCollateralEnabled: boolean;
+  borrowingEnabled: boolean;
+  stableBorrowRateEnabled: boolean;
+  isActive: boolean;
+  isFrozen: boolean;
+}
+
+/**
+ * Change applied to an account when simulating its health factor.
+ * Amounts are in the Aave v2 base currency (HBAR, 18 decimals).
+ */
+export interface HealthFactorDelta {
+  collateralRemovedETH?: bigint;
+  collateralAddedETH?: bigint;
+  collateralLiquidationThreshold?: bigint; // basis points of the asset being removed or added
+  debtAddedETH?: bigint;
+  debtRemovedETH?: bigint;
+}
+
+export interface HealthCheckResult {
+  ok: boolean;
+  currentHealthFactor: bigint;
+  projectedHealthFactor: bigint;
+  minHealthFactor: bigint;
+  message?: string;
+}
+
+/**
+ * Reads the AaveOracle price of an asset in the base currency (HBAR, 18 decimals)
+ */
+export const fetchAssetPrice = async (client: Client, network: NetworkKey, asset: `0x${string}`): Promise<bigint> => {
+  const res = await queryContract(client, getContractAddress("AaveOracle", network), new Interface(ORACLE_ABI), "getAssetPrice", [asset]);
+  return BigInt(res[0].toString());
+};
+
+/**
+ * Reads the risk configuration of a reserve from the AaveProtocolDataProvider
+ */
+export const fetchReserveConfiguration = async (
+  client: Client,
+  network: NetworkKey,
+  asset: `0x${string}`
+): Promise<BonzoReserveConfiguration> => {
+  const dataProvider = getContractAddress("AaveProtocolDataProvider", network);
+  const res = await queryContract(client, dataProvider, new Interface(DATA_PROVIDER_ABI), "getReserveConfigurationData", [asset]);
+  return {
+    decimals: Number(res[0].toString()),
+    ltv: BigInt(res[1].toString()),
+    liquidationThreshold: BigInt(res[2].toString()),
+    liquidationBonus: BigInt(res[3].toString()),
+    reserveFactor: BigInt(res[4].toString()),
+    usageAsCollateralEnabled: Boolean(res[5]),
+    borrowingEnabled: Boolean(res[6]),
+    stableBorrowRateEnabled: Boolean(res[7]),
+    isActive: Boolean(res[8]),
+    isFrozen: Boolean(res[9]),
+  };
+};
+
+/**
+ * Converts a token amount in smallest units to the base currency using an oracle price
+ */
+export const toBaseCurrency = (amount: bigint, price: bigint, decimals: number): bigint => {
+  return (amount * price) / 10n ** BigInt(decimals);
+};
+
+/**
+ * Projects the health factor after changing collateral and/or debt, mirroring GenericLogic.calculateHealthFactorFromBalances
+ */
+export const simulateHealthFactor = (accountData: BonzoUserAccountData, delta: HealthFactorDelta): bigint => {
+  const removed = delta.collateralRemovedETH ?? 0n;
+  const added = delta.collateralAddedETH ?? 0n;
+  const threshold = delta.collateralLiquidationThreshold ?? 0n;
+  const weightedCollateral = accountData.totalCollateralETH * accountData.currentLiquidationThreshold + (added - removed) * threshold;
+  const debt = accountData.totalDebtETH + (delta.debtAddedETH ?? 0n) - (delta.debtRemovedETH ?? 0n);
+
+  if (debt <= 0n) return maxUint256;
+  if (weightedCollateral <= 0n) return 0n;
+  return (weightedCollateral * WAD) / BPS / debt;
+};
+
+/**
+ * Minimum projected health factor accepted without acknowledgeRisk (env BONZO_MIN_HEALTH_FACTOR, default 1.2)
+ */
+export const getMinHealthFactor = (): bigint => {
+  const env = Number(process.env.BONZO_MIN_HEALTH_FACTOR || "");
+  const floor = Number.isFinite(env) && env >= 1 ? env : 1.2;
+  return toWei(floor, 18);
+};
+
+/**
+ * Evaluates a projected health factor against the liquidation point and the configured floor
+ */
+export const evaluateHealthFactor = (
+  action: string,
+  currentHealthFactor: bigint,
+  projectedHealthFactor: bigint,
+  acknowledgeRisk = false,
+  remedy = "Reduce the amount"
+): HealthCheckResult => {
+  const minHealthFactor = getMinHealthFactor();
+  const result = { ok: true, currentHealthFactor, projectedHealthFactor, minHealthFactor };
+
+  if (projectedHealthFactor < WAD) {
+    return {
+      ...result,
+      ok: false,
+      message: `${action} blocked: projected health factor ${formatHealthFactor(projectedHealthFactor)} is below 1.0 (current ${formatHealthFactor(
+        currentHealthFactor
+      )}), so the position would be liquidatable immediately. ${remedy}.`,
+    };
+  }
+
+  if (projectedHealthFactor < minHealthFactor && !acknowledgeRisk) {
+    return {
+      ...result,
+      ok: false,
+      message: `${action} blocked: projected health factor ${formatHealthFactor(projectedHealthFactor)} is below the minimum ${formatHealthFactor(
+        minHealthFactor
+      )} (current ${formatHealthFactor(currentHealthFactor)}). ${remedy} or set optional.acknowledgeRisk=true to proceed.`,
+    };
+  }
+
+  return result;
+};
+
+/**
+ * Simulates the health factor after borrowing `amount` (smallest units) of `asset` on behalf of `user`
+ */
+export const preflightBorrow = async (
+  client: Client,
+  network: NetworkKey,
+  user: `0x${string}`,
+  asset: `0x${string}`,
+  amount: bigint,
+  decimals: number,
+  acknowledgeRisk = false
+): Promise<HealthCheckResult> => {
+  const accountData = await BonzoPositionService.fetchUserAccountData(client, network, user);
+  const price = await fetchAssetPrice(client, network, asset);
+  const projected = simulateHealthFactor(accountData, { debtAddedETH: toBaseCurrency(amount, price, decimals) });
+  return evaluateHealthFactor("Borrow", accountData.healthFactor, projected, acknowledgeRisk);
+};
+
+/**
+ * Simulates the health factor after withdrawing `amount` (smallest units, uint256 max = all) of the reserve `symbol` by `user`
+ */
+export const preflightWithdraw = async (
+  client: Client,
+  network: NetworkKey,
+  user: `0x${string}`,
+  symbol: string,
+  amount: bigint,
+  decimals: number,
+  acknowledgeRisk = false
+): Promise<HealthCheckResult> => {
+  const accountData = await BonzoPositionService.fetchUserAccountData(client, network, user);
+  const reserve = await BonzoPositionService.fetchUserReserveData(client, network, symbol, user, decimals);
+
+  // Withdrawing a non-collateral reserve or with no debt cannot move the health factor
+  if (!reserve.usageAsCollateralEnabled || accountData.totalDebtETH === 0n) {
+    return {
+      ok: true,
+      currentHealthFactor: accountData.healthFactor,
+      projectedHealthFactor: accountData.healthFactor,
+      minHealthFactor: getMinHealthFactor(),
+    };
+  }
+
+  const withdrawn = amount > reserve.currentATokenBalance ? reserve.currentATokenBalance : amount;
+  const price = await fetchAssetPrice(client, network, reserve.token);
+  const config = await fetchReserveConfiguration(client, network, reserve.token);
+  const projected = simulateHealthFactor(accountData, {
+    collateralRemovedETH: toBaseCurrency(withdrawn, price, decimals),
+    collateralLiquidationThreshold: config.liquidationThreshold,
+  });
+  return evaluateHealthFactor("Withdraw", accountData.healthFactor, projected, acknowledgeRisk);
+};
+
+/**
+ * Simulates the health factor after enabling or disabling the whole supplied balance of `symbol` as collateral for `user`
+ */
+export const preflightCollateralToggle = async (
+  client: Client,
+  network: NetworkKey,
+  user: `0x${string}`,
+  symbol: string,
+  useAsCollateral: boolean,
+  decimals?: number,
+  acknowledgeRisk = false
+): Promise<HealthCheckResult> => {
+  const accountData = await BonzoPositionService.fetchUserAccountData(client, network, user);
+  const reserve = await BonzoPositionService.fetchUserReserveData(client, network, symbol, user, decimals);
+  const price = await fetchAssetPrice(client, network, reserve.token);
+  const config = await fetchReserveConfiguration(client, network, reserve.token);
+  const value = toBaseCurrency(reserve.currentATokenBalance, price, reserve.decimals);
+
+  const projected = simulateHealthFactor(
+    accountData,
+    useAsCollateral
+      ? { collateralAddedETH: value, collateralLiquidationThreshold: config.liquidationThreshold }
+      : { collateralRemovedETH: value, collateralLiquidationThreshold: config.liquidationThreshold }
+  );
+  // Enabling collateral can only raise the health factor
+  if (useAsCollateral || accountData.totalDebtETH === 0n) {
+    return { ok: true, currentHealthFactor: accountData.healthFactor, projectedHealthFactor: projected, minHealthFactor: getMinHealthFactor() };
+  }
+  return evaluateHealthFactor("Disabling collateral", accountData.healthFactor, projected, acknowledgeRisk, "Repay debt or add other collateral first");
+};
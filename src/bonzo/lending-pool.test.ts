@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { Hbar } from "@hashgraph/sdk";
+import { buildBorrowStep, buildDepositStep, buildRepayStep, buildWithdrawStep } from "./lending-pool.js";
+import { decodeStep } from "./test-fixtures.js";
+import { getLendingPoolAddress, maxUint256 } from "./utils.js";
+
+const usdc = "0x0000000000000000000000000000000000001549";
+const user = "0x0000000000000000000000000000000000001234";
+const lendingPool = getLendingPoolAddress("hedera_testnet").toLowerCase();
+
+describe("LendingPool steps", () => {
+  test("deposit supplies on behalf of the user with the referral code", () => {
+    const step = buildDepositStep("hedera_testnet", "USDC", usdc, 1_000_000n, user, 7);
+    const { contract, gas, args } = decodeStep(step, "function deposit(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)");
+
+    expect(step.label).toBe("Deposit USDC");
+    expect(contract).toBe(lendingPool);
+    expect(gas).toBe(1_000_000);
+    expect(step.tx.maxTransactionFee?.toString()).toBe(new Hbar(3_000_000).toString());
+    expect([args.asset.toLowerCase(), args.amount.toString(), args.onBehalfOf.toLowerCase(), args.referralCode]).toEqual([usdc, "1000000", user, 7]);
+  });
+
+  test("borrow encodes the rate mode", () => {
+    const step = buildBorrowStep("hedera_testnet", "USDC", usdc, 5n, "stable", user);
+    const { gas, args } = decodeStep(step, "function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)");
+
+    expect(step.label).toBe("Borrow stable USDC");
+    expect(gas).toBe(2_000_000);
+    expect(step.tx.maxTransactionFee?.toString()).toBe(new Hbar(5_000_000).toString());
+    expect(args.interestRateMode.toNumber()).toBe(1);
+    expect(args.referralCode).toBe(0);
+  });
+
+  test("withdraw and repay pass uint256 max through", () => {
+    const withdraw = decodeStep(buildWithdrawStep("hedera_testnet", "USDC", usdc, maxUint256, user), "function withdraw(address asset, uint256 amount, address to)");
+    const repay = decodeStep(
+      buildRepayStep("hedera_testnet", "USDC", usdc, maxUint256, "variable", user),
+      "function repay(address asset, uint256 amount, uint256 rateMode, address onBehalfOf)"
+    );
+
+    expect(BigInt(withdraw.args.amount.toString())).toBe(maxUint256);
+    expect(BigInt(repay.args.amount.toString())).toBe(maxUint256);
+    expect(repay.args.rateMode.toNumber()).toBe(2);
+    expect(buildWithdrawStep("hedera_testnet", "USDC", usdc, 1n, user).tx.maxTransactionFee?.toString()).toBe(new Hbar(3_000_000).toString());
+  });
+});
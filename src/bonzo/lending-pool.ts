@@ -0,0 +1,70 @@
+import { Interface } from "@ethersproject/abi";
+import { Hbar } from "@hashgraph/sdk";
+import { type NetworkKey, type PreparedTransaction, type RateMode, RATE_MODE_MAP, buildContractCall, getLendingPoolAddress } from "./utils.js";
+
+const LENDING_POOL_ABI = [
+  "function deposit(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)",
+  "function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)",
+  "function withdraw(address asset, uint256 amount, address to)",
+  "function repay(address asset, uint256 amount, uint256 rateMode, address onBehalfOf)",
+];
+
+/**
+ * LendingPool.deposit: pulls the underlying from the caller and mints aTokens to `onBehalfOf`
+ */
+export const buildDepositStep = (
+  network: NetworkKey,
+  symbol: string,
+  asset: `0x${string}`,
+  amount: bigint,
+  onBehalfOf: `0x${string}`,
+  referralCode = 0
+): PreparedTransaction => {
+  const data = new Interface(LENDING_POOL_ABI).encodeFunctionData("deposit", [asset, amount, onBehalfOf, referralCode]);
+  return { label: `Deposit ${symbol}`, tx: buildContractCall(getLendingPoolAddress(network), data, 1_000_000, undefined, new Hbar(3_000_000)) };
+};
+
+/**
+ * LendingPool.borrow: sends the borrowed underlying to the caller and mints debt to `onBehalfOf`
+ */
+export const buildBorrowStep = (
+  network: NetworkKey,
+  symbol: string,
+  asset: `0x${string}`,
+  amount: bigint,
+  rateMode: RateMode,
+  onBehalfOf: `0x${string}`,
+  referralCode = 0
+): PreparedTransaction => {
+  const data = new Interface(LENDING_POOL_ABI).encodeFunctionData("borrow", [asset, amount, RATE_MODE_MAP[rateMode], referralCode, onBehalfOf]);
+  return { label: `Borrow ${rateMode} ${symbol}`, tx: buildContractCall(getLendingPoolAddress(network), data, 2_000_000, undefined, new Hbar(5_000_000)) };
+};
+
+/**
+ * LendingPool.withdraw: burns aTokens of the caller and sends the underlying to `to` (uint256 max = whole balance)
+ */
+export const buildWithdrawStep = (
+  network: NetworkKey,
+  symbol: string,
+  asset: `0x${string}`,
+  amount: bigint,
+  to: `0x${string}`
+): PreparedTransaction => {
+  const data = new Interface(LENDING_POOL_ABI).encodeFunctionData("withdraw", [asset, amount, to]);
+  return { label: `Withdraw ${symbol}`, tx: buildContractCall(getLendingPoolAddress(network), data, 1_000_000, undefined, new Hbar(3_000_000)) };
+};
+
+/**
+ * LendingPool.repay: pulls the underlying from the caller (uint256 max = whole debt, only when repaying for oneself)
+ */
+export const buildRepayStep = (
+  network: NetworkKey,
+  symbol: string,
+  asset: `0x${string}`,
+  amount: bigint,
+  rateMode: RateMode,
+  onBehalfOf: `0x${string}`
+): PreparedTransaction => {
+  const data = new Interface(LENDING_POOL_ABI).encodeFunctionData("repay", [asset, amount, RATE_MODE_MAP[rateMode], onBehalfOf]);
+  return { label: `Repay ${rateMode} ${symbol}`, tx: buildContractCall(getLendingPoolAddress(network), data, 1_000_000, undefined, new Hbar(3_000_000)) };
+};
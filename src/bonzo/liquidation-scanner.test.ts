@@ -0,0 +1,96 @@
+import { afterAll, afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { Client } from "@hashgraph/sdk";
+import { BonzoMarketService } from "./bonzo-market-service.js";
+import { BonzoPositionService, type BonzoUserReservePosition } from "./bonzo-position-service.js";
+import { mapWithConcurrency, scanLiquidations } from "./liquidation-scanner.js";
+import { WAD, makeAccountData, makeReserve, makeUsdcReserve } from "./test-fixtures.js";
+
+const client = Client.forTestnet();
+afterAll(() => client.close());
+afterEach(() => {
+  mock.restore();
+  BonzoMarketService.configure("hedera_testnet", { baseUrl: undefined });
+});
+
+describe("mapWithConcurrency", () => {
+  test("keeps input order with at most `limit` calls in flight", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (ms) => {
+      peak = Math.max(peak, ++inFlight);
+      await Bun.sleep(ms);
+      inFlight--;
+      return ms * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 0, 10]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe("scanLiquidations", () => {
+  const position = (symbol: string, decimals: number, overrides: Partial<BonzoUserReservePosition>): BonzoUserReservePosition => ({
+    symbol,
+    token: "0x0000000000000000000000000000000000000001",
+    decimals,
+    currentATokenBalance: 0n,
+    currentStableDebt: 0n,
+    currentVariableDebt: 0n,
+    stableBorrowRate: 0n,
+    liquidityRate: 0n,
+    usageAsCollateralEnabled: false,
+    ...overrides,
+  });
+  const whbarCollateral = (amount: bigint) => position("WHBAR", 8, { currentATokenBalance: amount, usageAsCollateralEnabled: true });
+  const usdcDebt = (amount: bigint) => position("USDC", 6, { currentVariableDebt: amount });
+
+  // Health factor and positions per borrower; a missing entry fails the account read
+  const borrowers: Record<string, { healthFactor: bigint; positions: BonzoUserReservePosition[] }> = {
+    // 100,000 WHBAR against 1000 USDC, plus 10,000 USDC collateral with a smaller bonus
+    "0x00000000000000000000000000000000000000a1": {
+      healthFactor: (9n * WAD) / 10n,
+      positions: [
+        whbarCollateral(10_000_000_000_000n),
+        position("USDC", 6, { currentATokenBalance: 10_000_000_000n, currentVariableDebt: 1_000_000_000n, usageAsCollateralEnabled: true }),
+      ],
+    },
+    // 1000 WHBAR against 100 USDC
+    "0x00000000000000000000000000000000000000a2": { healthFactor: (19n * WAD) / 20n, positions: [whbarCollateral(100_000_000_000n), usdcDebt(100_000_000n)] },
+    "0x00000000000000000000000000000000000000a3": { healthFactor: (11n * WAD) / 10n, positions: [whbarCollateral(100_000_000_000n), usdcDebt(100_000_000n)] },
+    "0x00000000000000000000000000000000000000a4": { healthFactor: 2n ** 256n - 1n, positions: [whbarCollateral(100_000_000_000n)] },
+  };
+
+  beforeEach(() => {
+    BonzoMarketService.configure("hedera_testnet", { baseUrl: "https://bonzo.test/market" });
+    spyOn(BonzoMarketService.prototype, "fetchAllReserves").mockResolvedValue([makeReserve(), makeUsdcReserve({ liquidationBonusBps: 10_400 })]);
+    spyOn(BonzoPositionService, "fetchUserAccountData").mockImplementation(async (_client, _network, user) => {
+      const borrower = borrowers[user];
+      if (!borrower) throw new Error("CONTRACT_REVERT_EXECUTED");
+      const hasDebt = borrower.positions.some((p) => p.currentVariableDebt > 0n);
+      return makeAccountData({ totalDebtETH: hasDebt ? WAD : 0n, healthFactor: borrower.healthFactor });
+    });
+    spyOn(BonzoPositionService, "fetchUserReserves").mockImplementation(async (_client, _network, user) => borrowers[user]!.positions);
+  });
+
+  test("ranks liquidatable positions by the USD bonus of their best pair and collects read failures", async () => {
+    const accounts = [...Object.keys(borrowers), "0x00000000000000000000000000000000000000a5"];
+    const result = await scanLiquidations(client, "hedera_testnet", accounts);
+
+    expect(result.scanned).toBe(5);
+    expect(result.candidates.map((c) => [c.user, c.collateralSymbol, c.debtSymbol, c.bonusUSD])).toEqual([
+      // 500 USDC covered = 2500 WHBAR + 5% bonus: 125 WHBAR at $0.20
+      ["0x00000000000000000000000000000000000000a1", "WHBAR", "USDC", 25],
+      ["0x00000000000000000000000000000000000000a2", "WHBAR", "USDC", 2.5],
+    ]);
+    expect(result.candidates[0]!.quote.debtToCover).toBe(500_000_000n);
+    expect(result.candidates.every((c) => c.liquidatable)).toBe(true);
+    expect(result.errors).toEqual([{ account: "0x00000000000000000000000000000000000000a5", error: "CONTRACT_REVERT_EXECUTED" }]);
+  });
+
+  test("reports positions close to liquidation under a higher threshold", async () => {
+    const result = await scanLiquidations(client, "hedera_testnet", ["0x00000000000000000000000000000000000000a3"], { healthFactorThreshold: 1.2 });
+
+    expect(result.candidates).toHaveLength(1);
+    expect(result.candidates[0]).toMatchObject({ liquidatable: false, healthFactor: (11n * WAD) / 10n });
+  });
+});
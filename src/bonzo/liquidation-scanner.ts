@@ -0,0 +1,120 @@
+import type { Client } from "@hashgraph/sdk";
+import type { BonzoReserve } from "./bonzo-market-service.js";
+import { BonzoPositionService } from "./bonzo-position-service.js";
+import { type LiquidationQuote, quoteLiquidation, resolveUserAddress } from "./liquidation.js";
+import { fetchReservesWithFallback } from "./reserve-caps.js";
+import { type NetworkKey, fromWei, toWei } from "./utils.js";
+
+const WAD = 10n ** 18n;
+
+/**
+ * Best liquidation pair found for a scanned position
+ */
+export interface LiquidationCandidate {
+  account: string;
+  user: `0x${string}`;
+  healthFactor: bigint;
+  liquidatable: boolean;
+  collateralSymbol: string;
+  debtSymbol: string;
+  quote: LiquidationQuote;
+  bonusUSD: number;
+}
+
+export interface LiquidationScanOptions {
+  /** Report positions whose health factor is below this value (default 1.0, i.e. liquidatable now) */
+  healthFactorThreshold?: number;
+  /** Accounts read in parallel (default 5) */
+  concurrency?: number;
+}
+
+export interface LiquidationScanResult {
+  scanned: number;
+  candidates: LiquidationCandidate[];
+  errors: { account: string; error: string }[];
+}
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight, preserving input order
+ */
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+};
+
+/**
+ * Picks the collateral/debt pair with the largest USD bonus for one position, using market prices and bonuses
+ */
+const bestPair = (
+  reservesBySymbol: Map<string, BonzoReserve>,
+  positions: Awaited<ReturnType<typeof BonzoPositionService.fetchUserReserves>>
+): { collateralSymbol: string; debtSymbol: string; quote: LiquidationQuote; bonusUSD: number } | undefined => {
+  let best: { collateralSymbol: string; debtSymbol: string; quote: LiquidationQuote; bonusUSD: number } | undefined;
+  for (const collateral of positions.filter((p) => p.usageAsCollateralEnabled && p.currentATokenBalance > 0n)) {
+    const collateralReserve = reservesBySymbol.get(collateral.symbol.toUpperCase());
+    if (!collateralReserve) continue;
+    for (const debt of positions.filter((p) => p.currentStableDebt + p.currentVariableDebt > 0n)) {
+      const debtReserve = reservesBySymbol.get(debt.symbol.toUpperCase());
+      if (!debtReserve) continue;
+
+      const quote = quoteLiquidation({
+        debtBalance: debt.currentStableDebt + debt.currentVariableDebt,
+        debtPrice: debtReserve.priceWeibars,
+        debtDecimals: debt.decimals,
+        collateralBalance: collateral.currentATokenBalance,
+        collateralPrice: collateralReserve.priceWeibars,
+        collateralDecimals: collateral.decimals,
+        liquidationBonus: BigInt(collateralReserve.liquidationBonusBps),
+      });
+      const bonusUSD = Number(fromWei((quote.bonusCollateral * collateralReserve.priceUSDWad) / 10n ** BigInt(collateral.decimals), 18));
+      if (!best || bonusUSD > best.bonusUSD) {
+        best = { collateralSymbol: collateral.symbol, debtSymbol: debt.symbol, quote, bonusUSD };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Reads the health factor of every account and, for those below the threshold, quotes the most profitable liquidation
+ * pair. Results are ranked by collateral bonus in USD. Per-account failures are collected instead of aborting the scan.
+ */
+export const scanLiquidations = async (
+  client: Client,
+  network: NetworkKey,
+  accounts: string[],
+  options: LiquidationScanOptions = {}
+): Promise<LiquidationScanResult> => {
+  const threshold = toWei(options.healthFactorThreshold ?? 1, 18);
+
+  const reserves = await fetchReservesWithFallback(client, network);
+  const reservesBySymbol = new Map(reserves.map((r) => [r.symbol.toUpperCase(), r]));
+
+  const errors: LiquidationScanResult["errors"] = [];
+  const scanned = await mapWithConcurrency(accounts, options.concurrency ?? 5, async (account): Promise<LiquidationCandidate | undefined> => {
+    try {
+      const user = await resolveUserAddress(client, account);
+      const accountData = await BonzoPositionService.fetchUserAccountData(client, network, user);
+      if (accountData.totalDebtETH === 0n || accountData.healthFactor >= threshold) return undefined;
+
+      const positions = await BonzoPositionService.fetchUserReserves(client, network, user);
+      const pair = bestPair(reservesBySymbol, positions);
+      if (!pair) return undefined;
+      return { account, user, healthFactor: accountData.healthFactor, liquidatable: accountData.healthFactor < WAD, ...pair };
+    } catch (error) {
+      errors.push({ account, error: error instanceof Error ? error.message : String(error) });
+      return undefined;
+    }
+  });
+
+  const candidates = scanned.filter((c): c is LiquidationCandidate => c !== undefined).sort((a, b) => b.bonusUSD - a.bonusUSD);
+  return { scanned: accounts.length, candidates, errors };
+};
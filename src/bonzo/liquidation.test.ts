@@ -0,0 +1,119 @@
+import { afterAll, afterEach, describe, expect, mock, test } from "bun:test";
+import { Client } from "@hashgraph/sdk";
+import { type LiquidationInputs, buildLiquidationStep, fetchLiquidationOpportunity, quoteLiquidation, resolveUserAddress } from "./liquidation.js";
+import {
+  GET_ASSET_PRICE,
+  GET_RESERVE_CONFIGURATION_DATA,
+  GET_USER_ACCOUNT_DATA,
+  GET_USER_RESERVE_DATA,
+  WAD,
+  decodeStep,
+  mockContractCalls,
+} from "./test-fixtures.js";
+import { getLendingPoolAddress, getTokenAddresses } from "./utils.js";
+
+// 1000 USDC of debt (5 HBAR each) against 100,000 WHBAR of collateral (1 HBAR each) with a 5% bonus
+const inputs: LiquidationInputs = {
+  debtBalance: 1_000_000_000n,
+  debtPrice: 5n * WAD,
+  debtDecimals: 6,
+  collateralBalance: 10_000_000_000_000n,
+  collateralPrice: WAD,
+  collateralDecimals: 8,
+  liquidationBonus: 10_500n,
+};
+
+describe("quoteLiquidation", () => {
+  test("covers at most half of the debt", () => {
+    const quote = quoteLiquidation(inputs);
+
+    expect(quote.maxDebtToCover).toBe(500_000_000n);
+    expect(quote.debtToCover).toBe(500_000_000n);
+    // 500 USDC = 2500 HBAR, plus 5%
+    expect(quote.collateralToReceive).toBe(262_500_000_000n);
+    expect(quote.bonusCollateral).toBe(12_500_000_000n);
+    expect(quote.bonusETH).toBe(125n * WAD);
+  });
+
+  test("uses a smaller requested amount as is", () => {
+    expect(quoteLiquidation(inputs, 100_000_000n)).toMatchObject({ requestedDebtToCover: 100_000_000n, debtToCover: 100_000_000n, limitedBy: undefined });
+    expect(quoteLiquidation(inputs).limitedBy).toBeUndefined();
+  });
+
+  test("reports a requested amount above the close factor as clamped", () => {
+    expect(quoteLiquidation(inputs, 900_000_000n)).toMatchObject({ requestedDebtToCover: 900_000_000n, debtToCover: 500_000_000n, limitedBy: "close factor" });
+  });
+
+  test("limits the debt covered to what the collateral can pay including the bonus", () => {
+    const quote = quoteLiquidation({ ...inputs, collateralBalance: 105_000_000_000n }, 900_000_000n);
+
+    expect(quote.collateralToReceive).toBe(105_000_000_000n);
+    // 1050 HBAR of collateral pays for 1000 HBAR = 200 USDC of debt
+    expect(quote.debtToCover).toBe(200_000_000n);
+    expect(quote.limitedBy).toBe("collateral");
+    expect(quote.bonusCollateral).toBe(5_000_000_000n);
+  });
+
+  test("returns nothing to receive without a collateral price", () => {
+    const quote = quoteLiquidation({ ...inputs, collateralPrice: 0n });
+
+    expect(quote.collateralToReceive).toBe(0n);
+    expect(quote.bonusETH).toBe(0n);
+  });
+});
+
+describe("fetchLiquidationOpportunity", () => {
+  const client = Client.forTestnet();
+  const user = "0x0000000000000000000000000000000000001234";
+  const usdc = getTokenAddresses("USDC", "hedera_testnet").token.toLowerCase();
+  afterAll(() => client.close());
+  afterEach(() => {
+    mock.restore();
+  });
+
+  // The borrower above: WHBAR collateral and variable USDC debt
+  const mockBorrower = (healthFactor: bigint, { collateral = inputs.collateralBalance, usageAsCollateralEnabled = true, debt = inputs.debtBalance } = {}) =>
+    mockContractCalls({
+      [GET_USER_ACCOUNT_DATA]: () => [0n, 0n, 0n, 0n, 0n, healthFactor],
+      [GET_USER_RESERVE_DATA]: ([asset]) =>
+        asset.toLowerCase() === usdc ? [0n, 0n, debt, 0n, 0n, 0n, 0n, 0, false] : [collateral, 0n, 0n, 0n, 0n, 0n, 0n, 0, usageAsCollateralEnabled],
+      ["function decimals() view returns (uint8)"]: (_, contract) => [contract === usdc ? 6 : 8],
+      [GET_ASSET_PRICE]: ([asset]) => [asset.toLowerCase() === usdc ? inputs.debtPrice : inputs.collateralPrice],
+      [GET_RESERVE_CONFIGURATION_DATA]: () => [8n, 7000n, 7500n, inputs.liquidationBonus, 1000n, true, true, true, true, false],
+    });
+
+  test("quotes an unhealthy position from chain state", async () => {
+    mockBorrower((9n * WAD) / 10n);
+    const opportunity = await fetchLiquidationOpportunity(client, "hedera_testnet", user, "WHBAR", "USDC");
+
+    expect(opportunity.collateral).toMatchObject({ symbol: "WHBAR", decimals: 8, balance: inputs.collateralBalance });
+    expect(opportunity.debt).toMatchObject({ symbol: "USDC", decimals: 6, balance: inputs.debtBalance });
+    expect(opportunity.quote).toEqual(quoteLiquidation(inputs));
+
+    const { contract, args } = decodeStep(
+      buildLiquidationStep("hedera_testnet", opportunity, false),
+      "function liquidationCall(address collateralAsset, address debtAsset, address user, uint256 debtToCover, bool receiveAToken)"
+    );
+    expect(contract).toBe(getLendingPoolAddress("hedera_testnet").toLowerCase());
+    expect(args.debtAsset.toLowerCase()).toBe(usdc);
+    expect(args.debtToCover.toString()).toBe("500000000");
+    expect(args.receiveAToken).toBe(false);
+  });
+
+  test("refuses healthy positions and pairs that cannot be liquidated", async () => {
+    mockBorrower(WAD);
+    await expect(fetchLiquidationOpportunity(client, "hedera_testnet", user, "WHBAR", "USDC")).rejects.toThrow("is not liquidatable");
+    mock.restore();
+
+    mockBorrower((9n * WAD) / 10n, { usageAsCollateralEnabled: false });
+    await expect(fetchLiquidationOpportunity(client, "hedera_testnet", user, "WHBAR", "USDC")).rejects.toThrow("WHBAR is not used as collateral");
+    mock.restore();
+
+    mockBorrower((9n * WAD) / 10n, { debt: 0n });
+    await expect(fetchLiquidationOpportunity(client, "hedera_testnet", user, "WHBAR", "USDC")).rejects.toThrow("has no USDC debt");
+  });
+
+  test("accepts EVM addresses as borrowers", async () => {
+    expect(await resolveUserAddress(client, user)).toBe(user);
+  });
+});
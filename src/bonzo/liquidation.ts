@@ -0,0 +1,160 @@
+import type { Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import { BonzoPositionService, type BonzoUserAccountData } from "./bonzo-position-service.js";
+import { fetchAssetPrice, fetchReserveConfiguration } from "./health-factor.js";
+import { type NetworkKey, buildContractCall, getEvmAliasAddress, getLendingPoolAddress, type PreparedTransaction } from "./utils.js";
+
+const WAD = 10n ** 18n;
+const BPS = 10_000n;
+
+/**
+ * Share of a borrower's debt in one asset that a single liquidationCall may repay (Aave v2 LIQUIDATION_CLOSE_FACTOR_PERCENT)
+ */
+export const LIQUIDATION_CLOSE_FACTOR_BPS = 5_000n;
+
+/**
+ * Inputs of a liquidation: the borrower's balances in the two reserves and their oracle prices (base currency, 18 decimals)
+ */
+export interface LiquidationInputs {
+  debtBalance: bigint;
+  debtPrice: bigint;
+  debtDecimals: number;
+  collateralBalance: bigint;
+  collateralPrice: bigint;
+  collateralDecimals: number;
+  liquidationBonus: bigint; // basis points, e.g. 10500 = 5% bonus
+}
+
+/**
+ * Expected outcome of a liquidationCall (smallest units of each asset; bonus also in base currency).
+ * `limitedBy` says why `debtToCover` is below the requested amount (or below `maxDebtToCover` when none was requested).
+ */
+export interface LiquidationQuote {
+  maxDebtToCover: bigint;
+  requestedDebtToCover?: bigint;
+  debtToCover: bigint;
+  limitedBy?: "close factor" | "collateral";
+  collateralToReceive: bigint;
+  bonusCollateral: bigint;
+  bonusETH: bigint;
+}
+
+/**
+ * Mirrors LendingPoolCollateralManager._calculateAvailableCollateralToLiquidate: the debt covered is capped by the
+ * close factor, and reduced further when the borrower's collateral cannot pay debt plus bonus
+ */
+export const quoteLiquidation = (inputs: LiquidationInputs, requestedDebtToCover?: bigint): LiquidationQuote => {
+  const { debtBalance, debtPrice, debtDecimals, collateralBalance, collateralPrice, collateralDecimals, liquidationBonus } = inputs;
+  const debtUnit = 10n ** BigInt(debtDecimals);
+  const collateralUnit = 10n ** BigInt(collateralDecimals);
+
+  const maxDebtToCover = (debtBalance * LIQUIDATION_CLOSE_FACTOR_BPS) / BPS;
+  let debtToCover = requestedDebtToCover !== undefined && requestedDebtToCover < maxDebtToCover ? requestedDebtToCover : maxDebtToCover;
+  let limitedBy: LiquidationQuote["limitedBy"] = requestedDebtToCover !== undefined && requestedDebtToCover > maxDebtToCover ? "close factor" : undefined;
+
+  let collateralToReceive = collateralPrice > 0n ? (debtToCover * debtPrice * collateralUnit * liquidationBonus) / (collateralPrice * debtUnit * BPS) : 0n;
+  if (collateralToReceive > collateralBalance) {
+    collateralToReceive = collateralBalance;
+    debtToCover = debtPrice > 0n ? (collateralBalance * collateralPrice * debtUnit * BPS) / (debtPrice * collateralUnit * liquidationBonus) : 0n;
+    limitedBy = "collateral";
+  }
+
+  const bonusCollateral = liquidationBonus > 0n ? collateralToReceive - (collateralToReceive * BPS) / liquidationBonus : 0n;
+  return {
+    maxDebtToCover,
+    requestedDebtToCover,
+    debtToCover,
+    limitedBy,
+    collateralToReceive,
+    bonusCollateral,
+    bonusETH: (bonusCollateral * collateralPrice) / collateralUnit,
+  };
+};
+
+/**
+ * Liquidation opportunity for one borrower and one collateral/debt pair, read from chain
+ */
+export interface LiquidationOpportunity {
+  user: `0x${string}`;
+  accountData: BonzoUserAccountData;
+  collateral: { symbol: string; token: `0x${string}`; decimals: number; balance: bigint };
+  debt: { symbol: string; token: `0x${string}`; decimals: number; balance: bigint };
+  quote: LiquidationQuote;
+}
+
+/**
+ * Resolves a borrower given as a Hedera account ID or an EVM address
+ */
+export const resolveUserAddress = async (client: Client, user: string): Promise<`0x${string}`> => {
+  if (/^0x[0-9a-fA-F]{40}$/.test(user)) return user as `0x${string}`;
+  return getEvmAliasAddress(client, user);
+};
+
+/**
+ * Reads a borrower's position and quotes liquidating `debtSymbol` debt against `collateralSymbol` collateral.
+ * Throws when the position is healthy (health factor >= 1) or the pair is not liquidatable.
+ */
+export const fetchLiquidationOpportunity = async (
+  client: Client,
+  network: NetworkKey,
+  user: `0x${string}`,
+  collateralSymbol: string,
+  debtSymbol: string,
+  requestedDebtToCover?: bigint
+): Promise<LiquidationOpportunity> => {
+  const accountData = await BonzoPositionService.fetchUserAccountData(client, network, user);
+  if (accountData.healthFactor >= WAD) {
+    throw new Error(`Position ${user} is not liquidatable: health factor is not below 1.0`);
+  }
+
+  const collateral = await BonzoPositionService.fetchUserReserveData(client, network, collateralSymbol, user);
+  if (collateral.currentATokenBalance === 0n || !collateral.usageAsCollateralEnabled) {
+    throw new Error(`${collateralSymbol} is not used as collateral by ${user}`);
+  }
+  const debt = await BonzoPositionService.fetchUserReserveData(client, network, debtSymbol, user);
+  const debtBalance = debt.currentStableDebt + debt.currentVariableDebt;
+  if (debtBalance === 0n) {
+    throw new Error(`${user} has no ${debtSymbol} debt`);
+  }
+
+  const config = await fetchReserveConfiguration(client, network, collateral.token);
+  const quote = quoteLiquidation(
+    {
+      debtBalance,
+      debtPrice: await fetchAssetPrice(client, network, debt.token),
+      debtDecimals: debt.decimals,
+      collateralBalance: collateral.currentATokenBalance,
+      collateralPrice: await fetchAssetPrice(client, network, collateral.token),
+      collateralDecimals: collateral.decimals,
+      liquidationBonus: config.liquidationBonus,
+    },
+    requestedDebtToCover
+  );
+
+  return {
+    user,
+    accountData,
+    collateral: { symbol: collateralSymbol, token: collateral.token, decimals: collateral.decimals, balance: collateral.currentATokenBalance },
+    debt: { symbol: debtSymbol, token: debt.token, decimals: debt.decimals, balance: debtBalance },
+    quote,
+  };
+};
+
+/**
+ * Builds LendingPool.liquidationCall (delegated to the LendingPoolCollateralManager); the caller pays `debtToCover`
+ */
+export const buildLiquidationStep = (network: NetworkKey, opportunity: LiquidationOpportunity, receiveAToken: boolean): PreparedTransaction => {
+  const data = new Interface([
+    "function liquidationCall(address collateralAsset, address debtAsset, address user, uint256 debtToCover, bool receiveAToken)",
+  ]).encodeFunctionData("liquidationCall", [
+    opportunity.collateral.token,
+    opportunity.debt.token,
+    opportunity.user,
+    opportunity.quote.debtToCover,
+    receiveAToken,
+  ]);
+  return {
+    label: `Liquidate ${opportunity.debt.symbol} debt of ${opportunity.user} for ${opportunity.collateral.symbol}`,
+    tx: buildContractCall(getLendingPoolAddress(network), data, 2_000_000),
+  };
+};
@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { type LoopPlanInputs, loopNetAPY, planLoop } from "./looping.js";
+import { WAD, makeAccountData, makeReserve, makeUsdcReserve } from "./test-fixtures.js";
+
+const minHealthFactor = (6n * WAD) / 5n;
+// 1000 WHBAR into an empty account; 70% LTV, 75% threshold
+const inputs: LoopPlanInputs = {
+  supply: makeReserve(),
+  borrow: makeReserve(),
+  initialAmount: 100_000_000_000n,
+  targetLeverage: 2,
+  minHealthFactor,
+  maxLoops: 10,
+  rateMode: "variable",
+  accountData: makeAccountData(),
+};
+
+describe("planLoop", () => {
+  test("starts with the initial deposit", () => {
+    const [first] = planLoop(inputs).steps;
+
+    expect(first).toMatchObject({ loop: 0, borrowAmount: 0n, depositAmount: 100_000_000_000n, leverage: 1, totalDebtETH: 0n });
+  });
+
+  test("stops at the target leverage", () => {
+    const plan = planLoop(inputs);
+    const last = plan.steps.at(-1)!;
+
+    expect(plan.sameAsset).toBe(true);
+    expect(plan.limitedBy).toBe("target leverage");
+    expect(last.leverage).toBeLessThanOrEqual(2);
+    expect(last.leverage).toBeGreaterThan(1.99);
+    expect(plan.maxTheoreticalLeverage).toBeCloseTo(1 / 0.3);
+  });
+
+  test("never lets the health factor drop below the minimum, even before re-supplying", () => {
+    const plan = planLoop({ ...inputs, targetLeverage: 5, maxLoops: 50 });
+
+    expect(plan.limitedBy).toBe("health factor");
+    for (const step of plan.steps) {
+      expect(step.healthFactorAfterBorrow).toBeGreaterThanOrEqual(minHealthFactor);
+      expect(step.healthFactor).toBeGreaterThanOrEqual(minHealthFactor);
+    }
+    // 75% threshold at a 1.2 floor allows debt of 62.5% of supply: leverage below 1 / (1 - 0.625)
+    expect(plan.steps.at(-1)!.leverage).toBeLessThan(8 / 3);
+  });
+
+  test("counts existing collateral and debt in the health factor", () => {
+    const accountData = makeAccountData({ totalCollateralETH: 1000n * WAD, currentLiquidationThreshold: 7500n, ltv: 7000n, totalDebtETH: 600n * WAD });
+    const plan = planLoop({ ...inputs, targetLeverage: 5, accountData });
+
+    // (1000 + 1000) × 75% / 600
+    expect(plan.steps[0]!.healthFactor).toBe((5n * WAD) / 2n);
+    for (const step of plan.steps) {
+      expect(step.healthFactorAfterBorrow).toBeGreaterThanOrEqual(minHealthFactor);
+    }
+  });
+
+  test("stops after maxLoops", () => {
+    const plan = planLoop({ ...inputs, targetLeverage: 2.5, maxLoops: 2 });
+
+    expect(plan.steps).toHaveLength(3);
+    expect(plan.limitedBy).toBe("max loops");
+  });
+
+  test("converts between assets at oracle prices", () => {
+    const plan = planLoop({ ...inputs, borrow: makeUsdcReserve() });
+    const step = plan.steps[1]!;
+
+    expect(plan.sameAsset).toBe(false);
+    // 1 USDC (6 decimals) = 5 WHBAR (8 decimals)
+    expect(step.depositAmount).toBe(step.borrowAmount * 500n);
+    expect(step.netAPY).toBe(loopNetAPY(step.totalSuppliedETH, step.totalDebtETH, 1000n * WAD, 3, 4));
+  });
+
+  test("stops when the borrow reserve runs out of liquidity", () => {
+    const plan = planLoop({ ...inputs, borrow: makeUsdcReserve({ availableLiquidity: 100_000_000n }) });
+
+    expect(plan.steps[1]!.borrowAmount).toBe(100_000_000n);
+    expect(plan.steps).toHaveLength(2);
+    expect(plan.limitedBy).toBe("liquidity or borrow cap");
+  });
+
+  test("stops at the supply cap", () => {
+    const supply = makeReserve({ supplyCap: 1_000_000_000_000_000n + 120_000_000_000n });
+    const plan = planLoop({ ...inputs, supply, borrow: supply });
+
+    expect(plan.steps.reduce((sum, s) => sum + s.depositAmount, 0n)).toBeLessThanOrEqual(120_000_000_000n);
+    expect(plan.limitedBy).toBe("supply cap");
+  });
+
+  test("flags unknown caps from chain reserves and plans against liquidity only", () => {
+    const fromChain = makeReserve({ supplyCap: undefined, borrowCap: undefined });
+    const plan = planLoop({ ...inputs, supply: fromChain, borrow: fromChain });
+
+    expect(plan.capsUnknown).toBe(true);
+    expect(plan.limitedBy).toBe("target leverage");
+    expect(planLoop(inputs).capsUnknown).toBe(false);
+  });
+});
+
+describe("loopNetAPY", () => {
+  test("nets supply yield against borrow cost on the initial equity", () => {
+    expect(loopNetAPY(2000n, 1000n, 1000n, 3, 5)).toBe(1);
+    expect(loopNetAPY(0n, 0n, 0n, 3, 5)).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+import type { BonzoReserve } from "./bonzo-market-service.js";
+import type { BonzoUserAccountData } from "./bonzo-position-service.js";
+import { toBaseCurrency } from "./health-factor.js";
+import { getBorrowHeadroom, getSupplyHeadroom } from "./reserve-caps.js";
+import { type RateMode, maxUint256, toWei } from "./utils.js";
+
+const WAD = 10n ** 18n;
+const BPS = 10_000n;
+
+export type LoopLimit = "target leverage" | "ltv" | "health factor" | "liquidity or borrow cap" | "supply cap" | "max loops";
+
+/**
+ * One step of a loop plan. Loop 0 is the initial deposit; every later loop borrows and re-supplies.
+ * Values are in the Aave v2 base currency (HBAR, 18 decimals) and cover only the looped position.
+ */
+export interface LoopStep {
+  loop: number;
+  borrowAmount: bigint; // smallest units of the borrow asset
+  depositAmount: bigint; // smallest units of the supply asset
+  totalSuppliedETH: bigint;
+  totalDebtETH: bigint;
+  leverage: number;
+  healthFactorAfterBorrow: bigint; // whole account, before the borrowed funds are re-supplied
+  healthFactor: bigint; // whole account, after the loop's deposit
+  netAPY: number; // percent, on the initial deposit
+}
+
+export interface LoopPlanInputs {
+  supply: BonzoReserve;
+  borrow: BonzoReserve;
+  initialAmount: bigint;
+  targetLeverage: number;
+  minHealthFactor: bigint;
+  maxLoops: number;
+  rateMode: RateMode;
+  accountData: BonzoUserAccountData;
+}
+
+export interface LoopPlan {
+  steps: LoopStep[];
+  sameAsset: boolean;
+  limitedBy: LoopLimit;
+  maxTheoreticalLeverage: number;
+  capsUnknown: boolean; // the supply or borrow cap could not be read, so the plan ignores it
+}
+
+const fromBase = (value: bigint, price: bigint, decimals: number): bigint => (price > 0n ? (value * 10n ** BigInt(decimals)) / price : 0n);
+
+/**
+ * Net APY of a looped position on its initial equity: supply yield on everything supplied minus interest on the loop's debt
+ */
+export const loopNetAPY = (suppliedETH: bigint, debtETH: bigint, equityETH: bigint, supplyAPY: number, borrowAPY: number): number => {
+  if (equityETH === 0n) return 0;
+  return (Number(suppliedETH) * supplyAPY - Number(debtETH) * borrowAPY) / Number(equityETH);
+};
+
+/**
+ * Plans recursive supply → borrow → re-supply loops. Each borrow is the smallest of: what the account's LTV still allows,
+ * what keeps the health factor at or above `minHealthFactor` (checked before the borrowed funds are re-supplied), what is
+ * left to reach `targetLeverage`, and the reserves' liquidity and caps. Different assets are converted at oracle prices.
+ */
+export const planLoop = (inputs: LoopPlanInputs): LoopPlan => {
+  const { supply, borrow, initialAmount, targetLeverage, minHealthFactor, maxLoops, rateMode, accountData } = inputs;
+  const sameAsset = supply.symbol.toUpperCase() === borrow.symbol.toUpperCase();
+  const ltv = BigInt(supply.ltvBps);
+  const threshold = BigInt(supply.liquidationThresholdBps);
+  const borrowAPY = rateMode === "stable" ? borrow.stableBorrowAPY : borrow.variableBorrowAPY;
+
+  const equity = toBaseCurrency(initialAmount, supply.priceWeibars, supply.decimals);
+  const targetSupplied = (equity * toWei(targetLeverage, 18)) / WAD;
+  let weightedLtv = accountData.totalCollateralETH * accountData.ltv + equity * ltv;
+  let weightedThreshold = accountData.totalCollateralETH * accountData.currentLiquidationThreshold + equity * threshold;
+  let debt = accountData.totalDebtETH;
+  let supplied = equity;
+  let loopDebt = 0n;
+
+  const borrowHeadroom = getBorrowHeadroom(borrow);
+  const supplyHeadroom = getSupplyHeadroom(supply);
+  let borrowLeft = borrowHeadroom.maxAmount ?? maxUint256;
+  let supplyLeft = supplyHeadroom.maxAmount !== undefined ? supplyHeadroom.maxAmount - initialAmount : maxUint256;
+
+  const healthFactor = () => (debt === 0n ? maxUint256 : (weightedThreshold * WAD) / BPS / debt);
+  const steps: LoopStep[] = [
+    {
+      loop: 0,
+      borrowAmount: 0n,
+      depositAmount: initialAmount,
+      totalSuppliedETH: supplied,
+      totalDebtETH: 0n,
+      leverage: 1,
+      healthFactorAfterBorrow: healthFactor(),
+      healthFactor: healthFactor(),
+      netAPY: supply.supplyAPY,
+    },
+  ];
+
+  // Stop once a loop would add less than 0.1% of the initial deposit
+  const dust = equity / 1000n;
+  let limitedBy: LoopLimit = "max loops";
+  for (let loop = 1; loop <= maxLoops; loop++) {
+    const limits: [LoopLimit, bigint][] = [
+      ["ltv", weightedLtv / BPS - debt],
+      ["health factor", minHealthFactor > 0n ? (weightedThreshold * WAD) / (BPS * minHealthFactor) - debt : 0n],
+      ["target leverage", targetSupplied - supplied],
+      ["liquidity or borrow cap", toBaseCurrency(borrowLeft, borrow.priceWeibars, borrow.decimals)],
+      ["supply cap", toBaseCurrency(supplyLeft, supply.priceWeibars, supply.decimals)],
+    ];
+    const [limit, value] = limits.reduce((min, current) => (current[1] < min[1] ? current : min));
+    if (value <= dust) {
+      limitedBy = limit;
+      break;
+    }
+
+    const borrowAmount = fromBase(value, borrow.priceWeibars, borrow.decimals);
+    const borrowValue = toBaseCurrency(borrowAmount, borrow.priceWeibars, borrow.decimals);
+    const depositAmount = sameAsset ? borrowAmount : fromBase(borrowValue, supply.priceWeibars, supply.decimals);
+    const depositValue = toBaseCurrency(depositAmount, supply.priceWeibars, supply.decimals);
+
+    debt += borrowValue;
+    loopDebt += borrowValue;
+    const healthFactorAfterBorrow = healthFactor();
+    supplied += depositValue;
+    weightedLtv += depositValue * ltv;
+    weightedThreshold += depositValue * threshold;
+    borrowLeft -= borrowAmount;
+    supplyLeft -= depositAmount;
+    // Re-supplying the same asset returns the borrowed liquidity to the reserve
+    if (sameAsset && borrowHeadroom.limitedBy === "liquidity") borrowLeft += depositAmount;
+
+    steps.push({
+      loop,
+      borrowAmount,
+      depositAmount,
+      totalSuppliedETH: supplied,
+      totalDebtETH: loopDebt,
+      leverage: Number((supplied * 10_000n) / equity) / 10_000,
+      healthFactorAfterBorrow,
+      healthFactor: healthFactor(),
+      netAPY: loopNetAPY(supplied, loopDebt, equity, supply.supplyAPY, borrowAPY),
+    });
+  }
+
+  const ltvRatio = Number(ltv) / 10_000;
+  return {
+    steps,
+    sameAsset,
+    limitedBy,
+    maxTheoreticalLeverage: ltvRatio < 1 ? 1 / (1 - ltvRatio) : Infinity,
+    capsUnknown: Boolean(supplyHeadroom.capUnknown || borrowHeadroom.capUnknown),
+  };
+};
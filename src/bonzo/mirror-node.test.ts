@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { MirrorNodeError, fetchAutomaticAssociations, fetchMirrorNode, fetchRecentContractCallers, fetchTokenAssociation } from "./mirror-node.js";
+import { mockMirrorNode } from "./test-fixtures.js";
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("fetchMirrorNode", () => {
+  test("throws MirrorNodeError with the status and body on HTTP errors", async () => {
+    mockMirrorNode({});
+    const error = await fetchMirrorNode("hedera_testnet", "/api/v1/missing").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(MirrorNodeError);
+    expect((error as MirrorNodeError).status).toBe(404);
+    expect((error as MirrorNodeError).body).toEqual({ _status: { messages: [{ message: "Not found" }] } });
+  });
+});
+
+describe("fetchRecentContractCallers", () => {
+  const firstPage = "/api/v1/contracts/0.0.4999355/results?limit=100&order=desc";
+  const secondPage = "/api/v1/contracts/0.0.4999355/results?limit=100&order=desc&timestamp=lt:1700000000.000000001";
+
+  test("collects distinct callers across pages, newest first", async () => {
+    mockMirrorNode({
+      [firstPage]: {
+        results: [{ from: "0x00000000000000000000000000000000000000A1" }, { from: "0x00000000000000000000000000000000000000b2" }, { from: "0x00000000000000000000000000000000000000a1" }],
+        links: { next: secondPage },
+      },
+      [secondPage]: { results: [{ from: "0x00000000000000000000000000000000000000c3" }], links: { next: null } },
+    });
+
+    expect(await fetchRecentContractCallers("hedera_testnet", "0.0.4999355", 10)).toEqual([
+      "0x00000000000000000000000000000000000000a1",
+      "0x00000000000000000000000000000000000000b2",
+      "0x00000000000000000000000000000000000000c3",
+    ]);
+  });
+
+  test("stops paging once enough callers are found", async () => {
+    const fetchMock = mockMirrorNode({
+      [firstPage]: { results: [{ from: "0x00000000000000000000000000000000000000a1" }, { from: "0x00000000000000000000000000000000000000b2" }], links: { next: secondPage } },
+    });
+
+    expect(await fetchRecentContractCallers("hedera_testnet", "0.0.4999355", 1)).toEqual(["0x00000000000000000000000000000000000000a1"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("token associations", () => {
+  test("reports whether the account holds a relationship with the token", async () => {
+    mockMirrorNode({
+      "/api/v1/accounts/0.0.1001/tokens?token.id=0.0.456858": { tokens: [{ token_id: "0.0.456858", automatic_association: false }] },
+      "/api/v1/accounts/0.0.1002/tokens?token.id=0.0.456858": { tokens: [] },
+    });
+
+    expect(await fetchTokenAssociation("hedera_testnet", "0.0.1001", "0.0.456858")).toBe(true);
+    expect(await fetchTokenAssociation("hedera_testnet", "0.0.1002", "0.0.456858")).toBe(false);
+  });
+
+  test("counts used automatic association slots across pages", async () => {
+    mockMirrorNode({
+      "/api/v1/accounts/0.0.1001?transactions=false": { max_automatic_token_associations: 5 },
+      "/api/v1/accounts/0.0.1001/tokens?limit=100": {
+        tokens: [
+          { token_id: "0.0.1", automatic_association: true },
+          { token_id: "0.0.2", automatic_association: false },
+        ],
+        links: { next: "/api/v1/accounts/0.0.1001/tokens?limit=100&token.id=gt:0.0.2" },
+      },
+      "/api/v1/accounts/0.0.1001/tokens?limit=100&token.id=gt:0.0.2": { tokens: [{ token_id: "0.0.3", automatic_association: true }], links: { next: null } },
+    });
+
+    expect(await fetchAutomaticAssociations("hedera_testnet", "0.0.1001")).toEqual({ max: 5, used: 2 });
+  });
+
+  test("skips the token walk when automatic associations are unlimited or disabled", async () => {
+    const fetchMock = mockMirrorNode({ "/api/v1/accounts/0.0.1001?transactions=false": { max_automatic_token_associations: -1 } });
+
+    expect(await fetchAutomaticAssociations("hedera_testnet", "0.0.1001")).toEqual({ max: -1, used: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,164 @@
+import type { NetworkKey } from "./utils.js";
+
+/**
+ * Public mirror node REST endpoints (overridable via BONZO_MIRROR_NODE_URL_MAINNET / BONZO_MIRROR_NODE_URL_TESTNET)
+ */
+export const DEFAULT_MIRROR_NODE_URLS: Record<NetworkKey, string> = {
+  hedera_mainnet: "https://mainnet-public.mirrornode.hedera.com",
+  hedera_testnet: "https://testnet.mirrornode.hedera.com",
+};
+
+const ENV_MIRROR_NODE_KEYS: Record<NetworkKey, string> = {
+  hedera_mainnet: "BONZO_MIRROR_NODE_URL_MAINNET",
+  hedera_testnet: "BONZO_MIRROR_NODE_URL_TESTNET",
+};
+
+const MIRROR_NODE_TIMEOUT_MS = 10_000;
+
+export const getMirrorNodeUrl = (network: NetworkKey): string =>
+  (process.env[ENV_MIRROR_NODE_KEYS[network]] || DEFAULT_MIRROR_NODE_URLS[network]).replace(/\/$/, "");
+
+/**
+ * Error returned by the mirror node, with the HTTP status and response body when available
+ */
+export class MirrorNodeError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly body?: unknown) {
+    super(message);
+    this.name = "MirrorNodeError";
+  }
+}
+
+/**
+ * Calls a mirror node REST path (e.g. /api/v1/contracts/results/...) and returns the parsed JSON body.
+ * Non-2xx responses throw MirrorNodeError carrying the parsed body, since the mirror node reports reverts that way.
+ */
+export const fetchMirrorNode = async <T>(network: NetworkKey, path: string, init: { method?: "GET" | "POST"; body?: unknown } = {}): Promise<T> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), MIRROR_NODE_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${getMirrorNodeUrl(network)}${path}`, {
+      method: init.method ?? "GET",
+      signal: controller.signal,
+      headers: { "Accept": "application/json", ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}) },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+    const body = (await response.json().catch(() => undefined)) as unknown;
+    if (!response.ok) {
+      throw new MirrorNodeError(`Mirror node request ${path} failed with status ${response.status}`, response.status, body);
+    }
+    return body as T;
+  } catch (error) {
+    if (error instanceof MirrorNodeError) throw error;
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new MirrorNodeError(`Mirror node request ${path} timed out`);
+    }
+    throw new MirrorNodeError(`Mirror node request ${path} failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+interface ContractResultsPage {
+  results: { from: string }[];
+  links?: { next?: string | null };
+}
+
+/**
+ * Collects distinct caller addresses of a contract's recent calls, newest first (e.g. LendingPool users)
+ */
+export const fetchRecentContractCallers = async (network: NetworkKey, contract: string, maxCallers: number): Promise<`0x${string}`[]> => {
+  const callers = new Set<string>();
+  let path: string | null | undefined = `/api/v1/contracts/${contract}/results?limit=100&order=desc`;
+  // Bounded page walk so a busy contract cannot turn this into an unbounded crawl
+  for (let page = 0; path && page < 20 && callers.size < maxCallers; page++) {
+    const body: ContractResultsPage = await fetchMirrorNode<ContractResultsPage>(network, path);
+    for (const result of body.results) {
+      if (callers.size >= maxCallers) break;
+      callers.add(result.from.toLowerCase());
+    }
+    path = body.links?.next;
+  }
+  return Array.from(callers) as `0x${string}`[];
+};
+
+/**
+ * Subset of a mirror node contract result used to explain failed calls
+ */
+export interface ContractResult {
+  result?: string;
+  error_message?: string | null;
+  gas_used?: number;
+}
+
+/**
+ * Converts an SDK transaction ID (0.0.123@1700000000.000000001) to the mirror node form (0.0.123-1700000000-000000001)
+ */
+export const toMirrorNodeTransactionId = (transactionId: string): string => {
+  const [payer, validStart] = transactionId.split(/[?/]/)[0]!.split("@");
+  if (!payer || !validStart) return transactionId;
+  const [seconds, nanos = "0"] = validStart.split(".");
+  return `${payer}-${seconds}-${nanos.padStart(9, "0")}`;
+};
+
+/**
+ * Reads the contract result of a transaction, including `error_message` (revert data) for failed calls
+ */
+export const fetchContractResult = async (network: NetworkKey, transactionId: string): Promise<ContractResult> =>
+  fetchMirrorNode<ContractResult>(network, `/api/v1/contracts/results/${toMirrorNodeTransactionId(transactionId)}`);
+
+/**
+ * Subset of a mirror node transaction used to confirm steps signed and submitted by the user
+ */
+export interface MirrorNodeTransaction {
+  transaction_id: string;
+  result: string;
+  name?: string;
+  nonce?: number;
+  scheduled?: boolean;
+}
+
+/**
+ * Reads the outcome of a transaction by ID; undefined when the mirror node does not know it (yet)
+ */
+export const fetchTransaction = async (network: NetworkKey, transactionId: string): Promise<MirrorNodeTransaction | undefined> => {
+  try {
+    const body = await fetchMirrorNode<{ transactions: MirrorNodeTransaction[] }>(network, `/api/v1/transactions/${toMirrorNodeTransactionId(transactionId)}`);
+    // Child and scheduled transactions share the ID; the user transaction is the unscheduled one with nonce 0
+    return body.transactions.find((tx) => !tx.scheduled && (tx.nonce ?? 0) === 0) ?? body.transactions[0];
+  } catch (error) {
+    if (error instanceof MirrorNodeError && error.status === 404) return undefined;
+    throw error;
+  }
+};
+
+interface TokenRelationshipsPage {
+  tokens: { token_id: string; automatic_association?: boolean }[];
+  links?: { next?: string | null };
+}
+
+/**
+ * Reads whether an account is associated with an HTS token (/api/v1/accounts/{id}/tokens?token.id=)
+ */
+export const fetchTokenAssociation = async (network: NetworkKey, accountId: string, tokenId: string): Promise<boolean> => {
+  const body = await fetchMirrorNode<TokenRelationshipsPage>(network, `/api/v1/accounts/${accountId}/tokens?token.id=${tokenId}`);
+  return body.tokens.some((token) => token.token_id === tokenId);
+};
+
+/**
+ * Reads an account's automatic association limit (-1 = unlimited) and how many slots are already used
+ */
+export const fetchAutomaticAssociations = async (network: NetworkKey, accountId: string): Promise<{ max: number; used: number }> => {
+  const account = await fetchMirrorNode<{ max_automatic_token_associations?: number }>(network, `/api/v1/accounts/${accountId}?transactions=false`);
+  const max = account.max_automatic_token_associations ?? 0;
+  if (max <= 0) return { max, used: 0 };
+
+  let used = 0;
+  let path: string | null | undefined = `/api/v1/accounts/${accountId}/tokens?limit=100`;
+  // Bounded page walk; an account with more relationships than this is treated as having no free slot
+  for (let page = 0; path && page < 20; page++) {
+    const body: TokenRelationshipsPage = await fetchMirrorNode<TokenRelationshipsPage>(network, path);
+    used += body.tokens.filter((token) => token.automatic_association).length;
+    path = body.links?.next;
+  }
+  return { max, used: path ? max : used };
+};
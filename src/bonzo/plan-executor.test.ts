@@ -0,0 +1,300 @@
+import { afterAll, afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { defaultAbiCoder } from "@ethersproject/abi";
+import { Client, ContractExecuteTransaction, PrivateKey, ReceiptStatusError, Status, type TransactionReceipt } from "@hashgraph/sdk";
+import { AgentMode } from "hedera-agent-kit";
+import {
+  type BundledStep,
+  type ManualStep,
+  type StepPrecondition,
+  createPlanState,
+  executePlan,
+  parsePlanState,
+  requireHealthFactor,
+  resumePlan,
+  serializePlanState,
+} from "./plan-executor.js";
+import { toMirrorNodeTransactionId } from "./mirror-node.js";
+import { ALLOWANCE, BALANCE_OF, GET_USER_ACCOUNT_DATA, WAD, mockContractCalls, mockMirrorNode } from "./test-fixtures.js";
+import { type PreparedTransaction, maxUint256 } from "./utils.js";
+
+const user = "0x0000000000000000000000000000000000001234";
+
+describe("requireHealthFactor", () => {
+  const min = (6n * WAD) / 5n;
+
+  test("requires the minimum less the drift allowance when the step does not lower the health factor", () => {
+    expect(requireHealthFactor(user, min, 2n * WAD, 2n * WAD)).toEqual({
+      type: "healthFactor",
+      user,
+      minHealthFactor: ((min * 9950n) / 10_000n).toString(),
+    });
+    expect(requireHealthFactor(user, min, maxUint256, 2n * WAD)).toMatchObject({ minHealthFactor: ((min * 9950n) / 10_000n).toString() });
+  });
+
+  test("scales the requirement by the planned drop", () => {
+    // The step lowers the health factor from 2.0 to 1.5, so it must start from at least 1.6 to land on 1.2
+    expect(requireHealthFactor(user, min, 2n * WAD, (3n * WAD) / 2n)).toMatchObject({ minHealthFactor: (((8n * WAD) / 5n) * 9950n / 10_000n).toString() });
+  });
+});
+
+const client = Client.forTestnet().setOperator("0.0.1001", PrivateKey.generateED25519());
+afterAll(() => client.close());
+afterEach(() => {
+  mock.restore();
+});
+
+describe("plan state", () => {
+  const manual: ManualStep = {
+    label: "Convert USDC to WHBAR",
+    instruction: "Swap the borrowed USDC for WHBAR",
+    precondition: { type: "balance", token: user, owner: user, amount: "100", symbol: "WHBAR", decimals: 8 },
+  };
+  const state = createPlanState(client, [{ label: "Deposit", tx: new ContractExecuteTransaction().setGas(300_000) }, manual], "loop");
+
+  test("stores transactions as hex and manual steps as instructions", () => {
+    expect(state).toMatchObject({ action: "loop", network: "hedera_testnet" });
+    expect(state.steps[0]?.transaction).toMatch(/^[0-9a-f]+$/);
+    expect(state.steps[1]).toEqual({ label: manual.label, instruction: manual.instruction, precondition: manual.precondition, status: "pending" });
+  });
+
+  test("round-trips through serialization", () => {
+    expect(parsePlanState(client, serializePlanState(state))).toEqual(state);
+  });
+
+  test("rejects altered or unsigned states", () => {
+    const signed = JSON.parse(serializePlanState(state));
+    const altered = JSON.stringify({ ...signed, steps: [{ ...signed.steps[0], status: "success" }, signed.steps[1]] });
+    const { signature: _, ...unsigned } = signed;
+
+    expect(() => parsePlanState(client, altered)).toThrow("planState signature is invalid");
+    expect(() => parsePlanState(client, JSON.stringify(unsigned))).toThrow("planState signature is invalid");
+  });
+
+  test("rejects malformed states and plans for another network", () => {
+    expect(() => parsePlanState(client, "{")).toThrow("not valid JSON");
+    expect(() => parsePlanState(client, JSON.stringify({ version: 99, steps: [] }))).toThrow("Unsupported plan state");
+
+    const mainnet = Client.forMainnet();
+    try {
+      expect(() => parsePlanState(mainnet, serializePlanState(state))).toThrow("built for hedera_testnet");
+    } finally {
+      mainnet.close();
+    }
+  });
+});
+
+const call = (label: string, precondition?: StepPrecondition): PreparedTransaction => ({
+  label,
+  tx: new ContractExecuteTransaction().setContractId("0.0.5000").setGas(300_000),
+  precondition,
+});
+const planStateOf = (result: { raw: unknown }) => parsePlanState(client, (result.raw as { planState: string }).planState);
+const autonomous = { mode: AgentMode.AUTONOMOUS, accountId: "0.0.1001" };
+const returnBytes = { mode: AgentMode.RETURN_BYTES, accountId: "0.0.1001" };
+
+// Stubs execution; `outcomes` decides each call in order: a status for a receipt, or an Error to throw on submission
+const mockExecute = (...outcomes: (Status | Error)[]) => {
+  let calls = 0;
+  return spyOn(ContractExecuteTransaction.prototype, "execute").mockImplementation((async function (this: ContractExecuteTransaction) {
+    const outcome = outcomes[calls++] ?? Status.Success;
+    if (outcome instanceof Error) throw outcome;
+    const transactionId = this.transactionId!;
+    return {
+      getReceipt: async () => {
+        if (outcome !== Status.Success) throw new ReceiptStatusError({ status: outcome, transactionId, transactionReceipt: {} as TransactionReceipt });
+        return { status: outcome };
+      },
+    };
+  }) as never);
+};
+
+// Mirror node that knows the outcome of the given transaction IDs and decodes every revert as Bonzo error 11
+const mockTransactions = (results: Record<string, string> | ((id: string) => string | undefined)) =>
+  mockMirrorNode((path) => {
+    const [, kind, id] = path.match(/^\/api\/v1\/(transactions|contracts\/results)\/(.+)$/) ?? [];
+    if (!id) return undefined;
+    const result = typeof results === "function" ? results(id) : Object.entries(results).find(([transactionId]) => toMirrorNodeTransactionId(transactionId) === id)?.[1];
+    if (!result) return undefined;
+    if (kind === "transactions") return { transactions: [{ transaction_id: id, result }] };
+    return { error_message: `0x08c379a0${defaultAbiCoder.encode(["string"], ["11"]).slice(2)}` };
+  });
+
+describe("runPlan", () => {
+  test("RETURN_BYTES skips satisfied steps and returns every remaining step's bytes in order", async () => {
+    mockContractCalls({ [ALLOWANCE]: () => [1000n] });
+    const approve = call("Approve", { type: "allowance", token: user, owner: user, spender: user, amount: "1000" });
+    const result = await executePlan(client, returnBytes, [approve, call("Deposit"), call("Borrow")], "Deposit");
+    const { transactions } = result.raw as { transactions: BundledStep[] };
+    const state = planStateOf(result);
+
+    expect(result.humanMessage).toContain("sign and submit these 2 transaction(s) in order");
+    expect(transactions.map((t) => [t.step, t.label])).toEqual([
+      [2, "Deposit"],
+      [3, "Borrow"],
+    ]);
+    expect(transactions.map((t) => t.transactionId)).toEqual([state.steps[1]!.transactionId, state.steps[2]!.transactionId]);
+    expect(new Set(transactions.map((t) => t.transactionId)).size).toBe(2);
+    expect(state.steps.map((s) => s.status)).toEqual(["skipped", "prepared", "prepared"]);
+  });
+
+  test("RETURN_BYTES returns a single transaction as plain bytes", async () => {
+    const result = await executePlan(client, returnBytes, [call("Repay")], "Repay");
+    const { bytes } = result.raw as { bytes: Buffer };
+
+    expect(result.humanMessage).toBe(`Transaction prepared. Hex: ${bytes.toString("hex")}`);
+  });
+
+  test("RETURN_BYTES lists manual steps in place and defers their balance check", async () => {
+    // Any balance read would fail and block the plan
+    mockContractCalls({});
+    const manual: ManualStep = {
+      label: "Convert USDC to WHBAR",
+      instruction: "Swap the borrowed USDC for 1 WHBAR.",
+      precondition: { type: "balance", token: user, owner: user, amount: "100000000", symbol: "WHBAR", decimals: 8 },
+    };
+    const result = await executePlan(client, returnBytes, [call("Borrow"), manual, call("Deposit")], "Loop");
+    const { transactions } = result.raw as { transactions: BundledStep[] };
+
+    expect(transactions.map((t) => t.instruction ?? "bytes")).toEqual(["bytes", "Swap the borrowed USDC for 1 WHBAR.", "bytes"]);
+    expect(result.humanMessage).toContain("2. Convert USDC to WHBAR (manual): Swap the borrowed USDC for 1 WHBAR.");
+    expect(planStateOf(result).steps.map((s) => s.status)).toEqual(["prepared", "prepared", "prepared"]);
+  });
+
+  test("AUTONOMOUS executes every step and reports receipts", async () => {
+    const execute = mockExecute();
+    const result = await executePlan(client, autonomous, [call("Approve"), call("Deposit")], "Deposit");
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(result.humanMessage).toContain("Deposit completed.");
+    expect(result.humanMessage).toContain("2. Deposit - Status: SUCCESS");
+  });
+
+  test("marks a step failed only on a failed receipt and decodes the revert", async () => {
+    mockExecute(Status.ContractRevertExecuted);
+    mockTransactions(() => "CONTRACT_REVERT_EXECUTED");
+    const result = await executePlan(client, autonomous, [call("Borrow")], "Borrow");
+
+    expect(result.humanMessage).toContain("Borrow failed at step 1 of 1");
+    expect(result.humanMessage).toContain("Revert reason: Not enough collateral to cover the new borrow (VL_COLLATERAL_CANNOT_COVER_NEW_BORROW, code 11)");
+    expect(planStateOf(result).steps[0]!.status).toBe("failed");
+  });
+
+  test("marks a step unknown when submission fails without a receipt", async () => {
+    mockExecute(new Error("connection lost"));
+    const result = await executePlan(client, autonomous, [call("Borrow"), call("Deposit")], "Loop");
+    const state = planStateOf(result);
+
+    expect(result.humanMessage).toContain("the outcome is unknown (connection lost)");
+    expect(state.steps.map((s) => s.status)).toEqual(["unknown", "pending"]);
+  });
+
+  test("blocks on a manual step until its precondition holds", async () => {
+    mockContractCalls({ [BALANCE_OF]: () => [0n] });
+    const manual: ManualStep = {
+      label: "Convert USDC to WHBAR",
+      instruction: "Swap the borrowed USDC for 1 WHBAR.",
+      precondition: { type: "balance", token: user, owner: user, amount: "100000000", symbol: "WHBAR", decimals: 8 },
+    };
+    const result = await executePlan(client, autonomous, [manual, call("Deposit")], "Loop");
+
+    expect(result.humanMessage).toContain("the WHBAR balance 0 is below the 1 WHBAR needed");
+    expect(result.humanMessage).toContain("Swap the borrowed USDC for 1 WHBAR. Then resume the plan with planState.");
+    expect(planStateOf(result).steps[0]!.status).toBe("blocked");
+  });
+
+  test("blocks a step when the live health factor is below what it requires", async () => {
+    mockContractCalls({ [GET_USER_ACCOUNT_DATA]: () => [0n, 0n, 0n, 0n, 0n, (11n * WAD) / 10n] });
+    const execute = mockExecute();
+    const result = await executePlan(client, autonomous, [call("Borrow", requireHealthFactor(user, (6n * WAD) / 5n, 2n * WAD, 2n * WAD))], "Borrow");
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.humanMessage).toContain("health factor 1.10 is below");
+  });
+});
+
+describe("resumePlan", () => {
+  test("confirms every signed step on the mirror node in order", async () => {
+    const prepared = planStateOf(await executePlan(client, returnBytes, [call("Approve"), call("Deposit")], "Deposit"));
+    const [approveId, depositId] = prepared.steps.map((s) => s.transactionId!);
+
+    mockTransactions({ [approveId!]: "SUCCESS" });
+    const pending = await resumePlan(client, returnBytes, structuredClone(prepared));
+    expect(pending.humanMessage).toContain("Step 2 (Deposit) is not on the mirror node yet");
+
+    mock.restore();
+    mockTransactions({ [approveId!]: "SUCCESS", [depositId!]: "SUCCESS" });
+    const result = await resumePlan(client, returnBytes, prepared);
+
+    expect(result.humanMessage).toContain("Deposit completed.");
+    expect(result.humanMessage).toContain(`2. Deposit - Status: SUCCESS TxId: ${depositId}`);
+  });
+
+  test("reports a failed step of a signed bundle and marks manual steps done by later transactions", async () => {
+    mockContractCalls({});
+    const manual: ManualStep = {
+      label: "Convert",
+      instruction: "Convert.",
+      precondition: { type: "balance", token: user, owner: user, amount: "1", symbol: "WHBAR", decimals: 8 },
+    };
+    const prepared = planStateOf(await executePlan(client, returnBytes, [call("Borrow"), manual, call("Deposit"), call("Borrow again")], "Loop"));
+    const ids = prepared.steps.map((s) => s.transactionId);
+    mockTransactions({ [ids[0]!]: "SUCCESS", [ids[2]!]: "SUCCESS", [ids[3]!]: "CONTRACT_REVERT_EXECUTED" });
+    const result = await resumePlan(client, returnBytes, prepared);
+
+    expect(result.humanMessage).toContain("Loop failed at step 4 (Borrow again): CONTRACT_REVERT_EXECUTED. Revert reason:");
+    expect(planStateOf(result).steps.map((s) => s.status)).toEqual(["success", "success", "success", "failed"]);
+  });
+
+  test("does not run a step of unknown outcome again once the mirror node shows it executed", async () => {
+    const execute = mockExecute(new Error("connection lost"));
+    const unknown = planStateOf(await executePlan(client, autonomous, [call("Borrow"), call("Deposit")], "Loop"));
+    mockTransactions({ [unknown.steps[0]!.transactionId!]: "SUCCESS" });
+    const result = await resumePlan(client, autonomous, unknown);
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(result.humanMessage).toContain("Loop completed.");
+    expect(result.humanMessage).toContain(`1. Borrow - Status: SUCCESS TxId: ${unknown.steps[0]!.transactionId}`);
+  });
+
+  test("waits while a step of unknown outcome could still execute", async () => {
+    const execute = mockExecute(new Error("connection lost"));
+    const unknown = planStateOf(await executePlan(client, autonomous, [call("Borrow")], "Borrow"));
+    mockTransactions({});
+    const result = await resumePlan(client, autonomous, unknown);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(result.humanMessage).toContain("could still execute");
+  });
+
+  test("retries a step whose failure the mirror node confirms", async () => {
+    mockExecute(Status.ContractRevertExecuted);
+    mockTransactions(() => "CONTRACT_REVERT_EXECUTED");
+    const failed = planStateOf(await executePlan(client, autonomous, [call("Borrow")], "Borrow"));
+    mock.restore();
+
+    const retry = mockExecute();
+    mockTransactions({ [failed.steps[0]!.transactionId!]: "CONTRACT_REVERT_EXECUTED" });
+    const result = await resumePlan(client, autonomous, failed);
+
+    expect(retry).toHaveBeenCalledTimes(1);
+    expect(result.humanMessage).toContain("Borrow submitted. Status: SUCCESS");
+  });
+
+  test("re-checks blocked steps", async () => {
+    mockContractCalls({ [BALANCE_OF]: () => [0n] });
+    const manual: ManualStep = {
+      label: "Convert",
+      instruction: "Convert.",
+      precondition: { type: "balance", token: user, owner: user, amount: "1", symbol: "WHBAR", decimals: 8 },
+    };
+    const blocked = planStateOf(await executePlan(client, autonomous, [manual, call("Deposit")], "Loop"));
+    mock.restore();
+
+    mockContractCalls({ [BALANCE_OF]: () => [1n] });
+    mockExecute();
+    const result = await resumePlan(client, autonomous, blocked);
+
+    expect(result.humanMessage).toContain("1. Convert - Done");
+    expect(result.humanMessage).toContain("2. Deposit - Status: SUCCESS");
+  });
+});
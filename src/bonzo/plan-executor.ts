@@ -0,0 +1,439 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { type Client, ReceiptStatusError, TokenId, Transaction, TransactionId } from "@hashgraph/sdk";
+import { AgentMode, type Context } from "hedera-agent-kit";
+import { fetchAllowance, fetchTokenBalance } from "./allowance.js";
+import { BonzoPositionService, formatHealthFactor } from "./bonzo-position-service.js";
+import { fetchTransaction } from "./mirror-node.js";
+import { describeTransactionError, fetchRevertReason } from "./revert-reason.js";
+import { canReceiveToken } from "./token-association.js";
+import { type NetworkKey, type PreparedTransaction, fromWei, getNetworkKey, handleResponse, maxUint256 } from "./utils.js";
+
+export const PLAN_STATE_VERSION = 1;
+
+/**
+ * A step's transaction stays valid for this long after it is frozen (SDK default valid duration), plus ingestion margin
+ */
+const STEP_VALIDITY_MS = 180_000;
+
+/**
+ * Condition checked right before a step runs, stored as data so it survives serialization.
+ * `allowance` and `association` skip steps that are no longer needed; `healthFactor` blocks a step when the live
+ * health factor has drifted below what the plan assumed; `balance` blocks until the owner holds `amount` of the token.
+ */
+export type StepPrecondition =
+  | { type: "allowance"; token: `0x${string}`; owner: `0x${string}`; spender: `0x${string}`; amount: string }
+  | { type: "association"; accountId: string; token: `0x${string}` }
+  | { type: "healthFactor"; user: `0x${string}`; minHealthFactor: string }
+  | { type: "balance"; token: `0x${string}`; owner: `0x${string}`; amount: string; symbol: string; decimals: number };
+
+/**
+ * A step the user performs outside Bonzo (e.g. converting a borrowed asset). The plan pauses on it until the
+ * precondition holds, then marks it done and continues.
+ */
+export interface ManualStep {
+  label: string;
+  instruction: string;
+  precondition: StepPrecondition;
+}
+
+// "failed" is set only from a receipt or mirror node result; "unknown" means the step may or may not have executed
+export type PlanStepStatus = "pending" | "prepared" | "success" | "skipped" | "failed" | "unknown" | "blocked";
+
+export interface PlanStepState {
+  label: string;
+  transaction?: string; // hex of the unsigned, unfrozen transaction; absent for manual steps
+  instruction?: string; // what the user does for a manual step
+  precondition?: StepPrecondition;
+  status: PlanStepStatus;
+  transactionId?: string;
+  preparedAt?: number; // epoch ms at which the step was frozen for signing
+  result?: string; // receipt status
+  note?: string;
+}
+
+/**
+ * Serializable state of an ordered multi-transaction plan. RETURN_BYTES clients get every step's bytes at once and may
+ * pass the state back to confirm them; AUTONOMOUS runs stop at the first failure and can be resumed after fixing the cause.
+ */
+export interface PlanState {
+  version: number;
+  action: string;
+  network: NetworkKey;
+  steps: PlanStepState[];
+}
+
+/**
+ * planState travels through the client (and the model) and holds transaction bytes, so it is signed with this key and
+ * rejected when altered. Without BONZO_PLAN_STATE_SECRET the key is random per process, so a plan cannot be resumed
+ * after a restart and has to be rebuilt with the original tool.
+ */
+const PLAN_STATE_KEY = process.env.BONZO_PLAN_STATE_SECRET || randomBytes(32).toString("hex");
+
+const signPlanState = (unsigned: string): string => createHmac("sha256", PLAN_STATE_KEY).update(unsigned).digest("hex");
+
+/**
+ * Serializes a plan state with its signature, for returning to the client
+ */
+export const serializePlanState = (state: PlanState): string => {
+  const { version, action, network, steps } = state;
+  const unsigned = { version, action, network, steps };
+  return JSON.stringify({ ...unsigned, signature: signPlanState(JSON.stringify(unsigned)) });
+};
+
+/**
+ * Drift from the planned health factor tolerated before a step (0.5%), covering interest accrued since planning
+ */
+const HEALTH_FACTOR_DRIFT_BPS = 50n;
+
+/**
+ * Health factor required before a step that lowers the planned health factor from `plannedBefore` to `plannedAfter`,
+ * so that the step still lands near `minHealthFactor` when the live value differs from the plan
+ */
+export const requireHealthFactor = (
+  user: `0x${string}`,
+  minHealthFactor: bigint,
+  plannedBefore: bigint,
+  plannedAfter: bigint
+): StepPrecondition => {
+  const scaled = plannedBefore !== maxUint256 && plannedAfter > 0n && plannedAfter < plannedBefore;
+  const required = scaled ? (minHealthFactor * plannedBefore) / plannedAfter : minHealthFactor;
+  return { type: "healthFactor", user, minHealthFactor: ((required * (10_000n - HEALTH_FACTOR_DRIFT_BPS)) / 10_000n).toString() };
+};
+
+/**
+ * Serializes prepared steps into a fresh plan. Transactions are stored unfrozen so each one gets its transaction ID
+ * (and validity window) only when it is about to be executed or signed.
+ */
+export const createPlanState = (client: Client, steps: (PreparedTransaction | ManualStep)[], action: string): PlanState => ({
+  version: PLAN_STATE_VERSION,
+  action,
+  network: getNetworkKey(client),
+  steps: steps.map((step) => ({
+    label: step.label,
+    ...("tx" in step ? { transaction: Buffer.from(step.tx.toBytes()).toString("hex") } : { instruction: step.instruction }),
+    precondition: step.precondition,
+    status: "pending",
+  })),
+});
+
+/**
+ * Parses a plan state passed back by a client, rejecting altered or unsigned states, unknown versions and plans built
+ * for another network
+ */
+export const parsePlanState = (client: Client, serialized: string): PlanState => {
+  let parsed: PlanState & { signature?: unknown };
+  try {
+    parsed = JSON.parse(serialized) as PlanState & { signature?: unknown };
+  } catch {
+    throw new Error("planState is not valid JSON");
+  }
+  if (parsed?.version !== PLAN_STATE_VERSION || !Array.isArray(parsed.steps)) {
+    throw new Error(`Unsupported plan state (expected version ${PLAN_STATE_VERSION})`);
+  }
+  const { signature, ...state } = parsed;
+  const expected = Buffer.from(signPlanState(JSON.stringify(state)), "hex");
+  const actual = typeof signature === "string" && /^[0-9a-f]+$/i.test(signature) ? Buffer.from(signature, "hex") : Buffer.alloc(0);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new Error(
+      "planState signature is invalid; pass planState exactly as returned, or rebuild the plan with the original tool " +
+        "(plans do not survive a restart unless BONZO_PLAN_STATE_SECRET is set)"
+    );
+  }
+  const network = getNetworkKey(client);
+  if (state.network !== network) {
+    throw new Error(`The plan was built for ${state.network} but the client is connected to ${network}`);
+  }
+  return state;
+};
+
+const checkPrecondition = async (
+  client: Client,
+  network: NetworkKey,
+  precondition?: StepPrecondition
+): Promise<{ outcome: "run" | "skip" | "block"; reason?: string }> => {
+  if (!precondition) return { outcome: "run" };
+  switch (precondition.type) {
+    case "allowance":
+      try {
+        const allowance = await fetchAllowance(client, precondition.token, precondition.owner, precondition.spender);
+        if (allowance >= BigInt(precondition.amount)) return { outcome: "skip", reason: "the allowance already covers the amount" };
+      } catch {}
+      return { outcome: "run" };
+    case "association":
+      try {
+        if (await canReceiveToken(client, precondition.accountId, TokenId.fromSolidityAddress(precondition.token))) {
+          return { outcome: "skip", reason: "the account can already receive the token" };
+        }
+      } catch {}
+      return { outcome: "run" };
+    case "healthFactor": {
+      const required = BigInt(precondition.minHealthFactor);
+      try {
+        const { healthFactor } = await BonzoPositionService.fetchUserAccountData(client, network, precondition.user);
+        if (healthFactor >= required) return { outcome: "run" };
+        return {
+          outcome: "block",
+          reason: `health factor ${formatHealthFactor(healthFactor)} is below the ${formatHealthFactor(required)} this step requires; re-plan the remaining steps`,
+        };
+      } catch (error) {
+        return { outcome: "block", reason: `the health factor could not be read: ${error instanceof Error ? error.message : String(error)}` };
+      }
+    }
+    case "balance": {
+      const required = BigInt(precondition.amount);
+      try {
+        const balance = await fetchTokenBalance(client, precondition.token, precondition.owner);
+        if (balance >= required) return { outcome: "run" };
+        return {
+          outcome: "block",
+          reason: `the ${precondition.symbol} balance ${fromWei(balance, precondition.decimals)} is below the ${fromWei(required, precondition.decimals)} ${precondition.symbol} needed`,
+        };
+      } catch (error) {
+        return { outcome: "block", reason: `the ${precondition.symbol} balance could not be read: ${error instanceof Error ? error.message : String(error)}` };
+      }
+    }
+  }
+};
+
+const loadTransaction = (hex: string): Transaction => Transaction.fromBytes(Buffer.from(hex, "hex"));
+
+/**
+ * Confirms a submitted step through the mirror node, which keeps results after consensus nodes drop receipts.
+ * A step never seen after its validity window is reset to pending so it is run again. Returns false while the outcome
+ * is still open (not on the mirror node yet, but the transaction could still execute).
+ */
+const confirmSubmittedStep = async (client: Client, state: PlanState, step: PlanStepState, reportedTransactionId?: string): Promise<boolean> => {
+  const transactionId = reportedTransactionId ?? step.transactionId;
+  if (!transactionId) {
+    step.status = "pending";
+    return true;
+  }
+  const tx = await fetchTransaction(state.network, transactionId);
+  if (!tx) {
+    const preparedAt = step.preparedAt ?? TransactionId.fromString(transactionId).validStart?.toDate().getTime() ?? 0;
+    if (Date.now() - preparedAt <= STEP_VALIDITY_MS) return false;
+    step.status = "pending";
+    step.note = `transaction ${transactionId} was never executed and has expired; run again`;
+    return true;
+  }
+  step.transactionId = transactionId;
+  step.result = tx.result;
+  if (tx.result === "SUCCESS") {
+    step.status = "success";
+    step.note = undefined;
+    return true;
+  }
+  step.status = "failed";
+  const revert = await fetchRevertReason(client, transactionId).catch(() => undefined);
+  step.note = revert ? `${tx.result}. Revert reason: ${revert.explanation}` : tx.result;
+  return true;
+};
+
+const describeStep = (step: PlanStepState, index: number): string => {
+  const prefix = `${index + 1}. ${step.label}`;
+  switch (step.status) {
+    case "success":
+      return step.transaction === undefined ? `${prefix} - Done` : `${prefix} - Status: ${step.result ?? "SUCCESS"} TxId: ${step.transactionId}`;
+    case "skipped":
+      return `${prefix} - Skipped: ${step.note}`;
+    case "failed":
+      return `${prefix} - FAILED: ${step.note}${step.transactionId ? ` TxId: ${step.transactionId}` : ""}`;
+    case "unknown":
+      return `${prefix} - Outcome unknown: ${step.note} TxId: ${step.transactionId}`;
+    case "blocked":
+      return `${prefix} - Blocked: ${step.note}`;
+    case "prepared":
+      return step.transaction === undefined ? `${prefix} - Manual: ${step.instruction}` : `${prefix} - Awaiting signature TxId: ${step.transactionId}`;
+    default:
+      return `${prefix} - Pending`;
+  }
+};
+
+const stepSummaries = (state: PlanState) =>
+  state.steps.map(({ label, status, transactionId, result, note }) => ({ label, status, transactionId, result, note }));
+
+/**
+ * One entry of a RETURN_BYTES bundle: the frozen bytes of a transaction step, or the instruction of a manual step
+ */
+export interface BundledStep {
+  step: number;
+  label: string;
+  bytes?: Buffer;
+  transactionId?: string;
+  instruction?: string;
+}
+
+/**
+ * RETURN_BYTES response: every bundled step's bytes in order, with the plan state for an optional resume
+ */
+const bundleResponse = (state: PlanState, bundle: BundledStep[]) => {
+  const transactions = bundle.filter((entry) => entry.bytes !== undefined);
+  // A lone transaction also goes out as `bytes`, the shape single-transaction RETURN_BYTES clients read
+  const bytes = transactions.length === 1 ? transactions[0]!.bytes : undefined;
+  const planState = serializePlanState(state);
+  if (bytes && state.steps.length === 1) {
+    return handleResponse({ bytes, transactions: bundle, planState }, `Transaction prepared. Hex: ${bytes.toString("hex")}`);
+  }
+  const lines = bundle.map(({ step, label, bytes, transactionId, instruction }) =>
+    bytes ? `${step}. ${label} TxId: ${transactionId} Hex: ${bytes.toString("hex")}` : `${step}. ${label} (manual): ${instruction}`
+  );
+  return handleResponse(
+    { bytes, transactions: bundle, planState },
+    `${state.action}: sign and submit these ${transactions.length} transaction(s) in order, within about ${STEP_VALIDITY_MS / 60_000} minutes ` +
+      `(their validity window), completing any manual step where it appears.\n${lines.join("\n")}\n` +
+      `Optionally resume the plan with planState afterwards to confirm each step on the mirror node and rerun any that failed.`
+  );
+};
+
+/**
+ * Runs the pending steps of a plan in order. AUTONOMOUS executes each step and checks its receipt, stopping at the
+ * first failure or blocked precondition. RETURN_BYTES freezes every remaining step and returns their bytes in order;
+ * the client signs and submits them in that order, and may resume with `resumePlan` to confirm them and rerun failures.
+ * Preconditions that block a step can only be checked before the first bundled step, since later ones depend on it.
+ */
+export const runPlan = async (client: Client, context: Context, state: PlanState) => {
+  const total = state.steps.length;
+  const bundle: BundledStep[] = [];
+  for (const [index, step] of state.steps.entries()) {
+    if (step.status === "success" || step.status === "skipped") continue;
+
+    const deferred = bundle.length > 0 && (step.precondition?.type === "healthFactor" || step.precondition?.type === "balance");
+    const check = deferred ? { outcome: "run" as const } : await checkPrecondition(client, state.network, step.precondition);
+    if (check.outcome === "skip") {
+      step.status = "skipped";
+      step.note = check.reason;
+      continue;
+    }
+    if (check.outcome === "block") {
+      step.status = "blocked";
+      step.note = check.reason;
+      const instruction = step.instruction ? `\n${step.instruction} Then resume the plan with planState.` : "";
+      return handleResponse(
+        { transactions: stepSummaries(state), planState: serializePlanState(state) },
+        `${state.action} stopped before step ${index + 1} (${step.label}): ${check.reason}.${instruction}\n${state.steps.map(describeStep).join("\n")}`
+      );
+    }
+    if (step.transaction === undefined) {
+      // A manual step after a bundled transaction is handed over as an instruction, in order
+      if (bundle.length > 0) {
+        step.status = "prepared";
+        step.note = undefined;
+        bundle.push({ step: index + 1, label: step.label, instruction: step.instruction });
+        continue;
+      }
+      step.status = "success";
+      step.note = "done";
+      continue;
+    }
+
+    const tx = loadTransaction(step.transaction);
+    if (context.mode !== AgentMode.AUTONOMOUS) {
+      await tx.freezeWith(client);
+      step.status = "prepared";
+      step.transactionId = tx.transactionId?.toString();
+      step.preparedAt = Date.now();
+      step.note = undefined;
+      bundle.push({ step: index + 1, label: step.label, bytes: Buffer.from(tx.toBytes()), transactionId: step.transactionId });
+      continue;
+    }
+
+    try {
+      // Frozen up front so the transaction ID is known even if submission fails midway
+      await tx.freezeWith(client);
+      step.transactionId = tx.transactionId?.toString();
+      step.preparedAt = Date.now();
+      const resp = await tx.execute(client);
+      const receipt = await resp.getReceipt(client);
+      step.status = "success";
+      step.result = receipt.status.toString();
+      step.note = undefined;
+    } catch (error) {
+      step.note = error instanceof Error ? await describeTransactionError(client, error) : String(error);
+      // Only a receipt proves the step failed; any other error (timeout, lost connection) may follow a successful execution
+      if (error instanceof ReceiptStatusError) {
+        step.status = "failed";
+        step.result = error.status.toString();
+        return handleResponse(
+          { transactions: stepSummaries(state), planState: serializePlanState(state) },
+          `${state.action} failed at step ${index + 1} of ${total} (${step.label}): ${step.note}\n${state.steps.map(describeStep).join("\n")}`
+        );
+      }
+      step.status = "unknown";
+      return handleResponse(
+        { transactions: stepSummaries(state), planState: serializePlanState(state) },
+        `${state.action} stopped at step ${index + 1} of ${total} (${step.label}): the outcome is unknown (${step.note}). ` +
+          `Resume the plan with planState to confirm it on the mirror node before anything is retried.\n${state.steps.map(describeStep).join("\n")}`
+      );
+    }
+  }
+
+  if (bundle.length > 0) return bundleResponse(state, bundle);
+
+  if (total === 1 && state.steps[0]!.status === "success") {
+    const [step] = state.steps;
+    return handleResponse(
+      { transactionId: step!.transactionId, status: step!.result, transactions: stepSummaries(state) },
+      `${state.action} submitted. Status: ${step!.result} TxId: ${step!.transactionId}`
+    );
+  }
+  return handleResponse({ transactions: stepSummaries(state) }, `${state.action} completed.\n${state.steps.map(describeStep).join("\n")}`);
+};
+
+/**
+ * Creates a plan from prepared steps and runs it
+ */
+export const executePlan = async (client: Client, context: Context, steps: (PreparedTransaction | ManualStep)[], action: string) =>
+  runPlan(client, context, createPlanState(client, steps, action));
+
+/**
+ * Continues a plan: steps awaiting signature are confirmed first, in order (the first one optionally under the
+ * transaction ID the client reports). Failed or unknown steps are confirmed on the mirror node before being retried, so
+ * a step that did execute is never run twice; blocked steps are retried and the remaining steps run.
+ */
+export const resumePlan = async (client: Client, context: Context, state: PlanState, reportedTransactionId?: string) => {
+  const prepared = state.steps.flatMap((step, index) => (step.status === "prepared" ? [index] : []));
+  if (prepared.length > 0) {
+    for (const index of prepared) {
+      const step = state.steps[index]!;
+      if (step.transaction === undefined) continue;
+      const settled = await confirmSubmittedStep(client, state, step, index === prepared[0] ? reportedTransactionId : undefined);
+      if (!settled) {
+        return handleResponse(
+          { transactions: stepSummaries(state), planState: serializePlanState(state) },
+          `Step ${index + 1} (${step.label}) is not on the mirror node yet. Submit it, or wait a few seconds, then resume again.`
+        );
+      }
+    }
+    // A bundled manual step was done once a later transaction went through; otherwise it is checked again
+    for (const index of prepared) {
+      const step = state.steps[index]!;
+      if (step.transaction !== undefined) continue;
+      const later = state.steps.slice(index + 1).some((s) => s.transaction !== undefined && s.status === "success");
+      step.status = later ? "success" : "pending";
+      step.note = later ? "done" : undefined;
+    }
+    const failed = prepared.find((index) => state.steps[index]!.status === "failed");
+    if (failed !== undefined) {
+      const step = state.steps[failed]!;
+      return handleResponse(
+        { transactions: stepSummaries(state), planState: serializePlanState(state) },
+        `${state.action} failed at step ${failed + 1} (${step.label}): ${step.note}. Resume again to retry it.\n${state.steps.map(describeStep).join("\n")}`
+      );
+    }
+  } else {
+    for (const [index, step] of state.steps.entries()) {
+      if (step.status === "blocked") step.status = "pending";
+      if (step.status !== "failed" && step.status !== "unknown") continue;
+      const settled = await confirmSubmittedStep(client, state, step);
+      if (!settled) {
+        return handleResponse(
+          { transactions: stepSummaries(state), planState: serializePlanState(state) },
+          `Step ${index + 1} (${step.label}) is not on the mirror node yet and could still execute. Wait a few seconds, then resume again.`
+        );
+      }
+      // A failure confirmed by the mirror node did not execute, so the step is run again
+      if (step.status === "failed") step.status = "pending";
+    }
+  }
+  return runPlan(client, context, state);
+};
@@ -0,0 +1,67 @@
+import { afterAll, afterEach, describe, expect, mock, test } from "bun:test";
+import { Client } from "@hashgraph/sdk";
+import { planRepayFromCollateral } from "./repay-from-collateral.js";
+import {
+  BALANCE_OF,
+  GET_ASSET_PRICE,
+  GET_RESERVE_CONFIGURATION_DATA,
+  GET_USER_ACCOUNT_DATA,
+  GET_USER_RESERVE_DATA,
+  WAD,
+  mockContractCalls,
+} from "./test-fixtures.js";
+import { maxUint256 } from "./utils.js";
+
+const client = Client.forTestnet();
+const user = "0x0000000000000000000000000000000000001234";
+afterAll(() => client.close());
+afterEach(() => {
+  mock.restore();
+});
+
+// 1000 WHBAR supplied at a 75% threshold against 500 WHBAR of variable debt (health factor 1.5)
+const mockPosition = ({ supplied = 100_000_000_000n, debt = 50_000_000_000n } = {}) =>
+  mockContractCalls({
+    [BALANCE_OF]: () => [debt],
+    [GET_USER_RESERVE_DATA]: () => [supplied, 0n, debt, 0n, 0n, 0n, 0n, 0, true],
+    [GET_USER_ACCOUNT_DATA]: () => [1000n * WAD, 500n * WAD, 0n, 7500n, 7000n, (3n * WAD) / 2n],
+    [GET_ASSET_PRICE]: () => [WAD],
+    [GET_RESERVE_CONFIGURATION_DATA]: () => [8n, 7000n, 7500n, 10500n, 1000n, true, true, true, true, false],
+  });
+
+describe("planRepayFromCollateral", () => {
+  test("repays everything with uint256 max after withdrawing the debt plus an accrual margin", async () => {
+    mockPosition();
+    const plan = await planRepayFromCollateral(client, "hedera_testnet", user, "WHBAR", "variable", undefined, 8, true);
+
+    expect(plan).toMatchObject({ repaysAll: true, repayAmount: maxUint256, withdrawAmount: 50_050_000_001n, finalHealthFactor: maxUint256 });
+    // Between the two steps the debt is still there with half the collateral gone
+    expect(plan.intermediate.ok).toBe(false);
+    expect(plan.intermediate.message).toContain("Repay a smaller amount first");
+  });
+
+  test("repays a partial amount", async () => {
+    mockPosition();
+    const plan = await planRepayFromCollateral(client, "hedera_testnet", user, "WHBAR", "variable", 10_000_000_000n, 8);
+
+    expect(plan).toMatchObject({ repaysAll: false, repayAmount: 10_000_000_000n, withdrawAmount: 10_000_000_000n });
+    expect(plan.intermediate).toMatchObject({ ok: true, projectedHealthFactor: (27n * WAD) / 20n });
+    expect(plan.finalHealthFactor).toBe((675n * WAD) / 400n);
+  });
+
+  test("withdraws the whole supply when it cannot cover the debt", async () => {
+    mockPosition({ supplied: 30_000_000_000n });
+    const plan = await planRepayFromCollateral(client, "hedera_testnet", user, "WHBAR", "variable", undefined, 8);
+
+    expect(plan).toMatchObject({ repaysAll: false, repayAmount: 30_000_000_000n, withdrawAmount: 30_000_000_000n });
+  });
+
+  test("refuses without debt or supply", async () => {
+    mockPosition({ debt: 0n });
+    await expect(planRepayFromCollateral(client, "hedera_testnet", user, "WHBAR", "variable", undefined, 8)).rejects.toThrow("No variable WHBAR debt");
+    mock.restore();
+
+    mockPosition({ supplied: 0n });
+    await expect(planRepayFromCollateral(client, "hedera_testnet", user, "WHBAR", "variable", undefined, 8)).rejects.toThrow("No supplied WHBAR");
+  });
+});
@@ -0,0 +1,112 @@
+import type { Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import { BonzoPositionService } from "./bonzo-position-service.js";
+import {
+  type HealthCheckResult,
+  evaluateHealthFactor,
+  fetchAssetPrice,
+  fetchReserveConfiguration,
+  simulateHealthFactor,
+  toBaseCurrency,
+} from "./health-factor.js";
+import { withAccrualBuffer } from "./hbar-gateway.js";
+import { type NetworkKey, type RateMode, getTokenAddresses, maxUint256, queryContract } from "./utils.js";
+
+const DEBT_TOKEN_ABI = ["function balanceOf(address user) view returns (uint256)"];
+
+/**
+ * Amounts and health factors of closing debt with the supplied balance of the same asset
+ */
+export interface RepayFromCollateralPlan {
+  symbol: string;
+  token: `0x${string}`;
+  decimals: number;
+  rateMode: RateMode;
+  debt: bigint;
+  supplied: bigint;
+  withdrawAmount: bigint;
+  repayAmount: bigint; // uint256 max when the whole debt is repaid
+  repaysAll: boolean;
+  intermediate: HealthCheckResult; // after the withdraw, before the repay
+  finalHealthFactor: bigint;
+}
+
+/**
+ * Reads the user's debt including accrued interest from the stable or variable debt token
+ */
+export const fetchDebtBalance = async (
+  client: Client,
+  network: NetworkKey,
+  symbol: string,
+  user: `0x${string}`,
+  rateMode: RateMode
+): Promise<bigint> => {
+  const { stableDebt, variableDebt } = getTokenAddresses(symbol, network);
+  const debtToken = rateMode === "stable" ? stableDebt : variableDebt;
+  const res = await queryContract(client, debtToken, new Interface(DEBT_TOKEN_ABI), "balanceOf", [user]);
+  return BigInt(res[0].toString());
+};
+
+/**
+ * Plans withdraw → repay of the same asset. Repaying everything withdraws the live debt plus an accrual margin and
+ * repays with uint256 max, so interest accrued before execution is covered; the margin left over stays in the wallet.
+ * If the supplied balance cannot cover that, all of it is withdrawn (a partial repay when it is below the debt).
+ * The withdraw runs first, so the intermediate health factor (less collateral, same debt) is the one checked.
+ */
+export const planRepayFromCollateral = async (
+  client: Client,
+  network: NetworkKey,
+  user: `0x${string}`,
+  symbol: string,
+  rateMode: RateMode,
+  requestedAmount?: bigint,
+  decimals?: number,
+  acknowledgeRisk = false
+): Promise<RepayFromCollateralPlan> => {
+  const debt = await fetchDebtBalance(client, network, symbol, user, rateMode);
+  if (debt === 0n) throw new Error(`No ${rateMode} ${symbol} debt to repay`);
+  const reserve = await BonzoPositionService.fetchUserReserveData(client, network, symbol, user, decimals);
+  const supplied = reserve.currentATokenBalance;
+  if (supplied === 0n) throw new Error(`No supplied ${symbol} to repay from`);
+
+  let repaysAll = requestedAmount === undefined || requestedAmount >= debt;
+  let withdrawAmount = repaysAll ? withAccrualBuffer(debt) : requestedAmount!;
+  if (withdrawAmount > supplied) {
+    withdrawAmount = supplied;
+    repaysAll = repaysAll && supplied >= debt;
+  }
+  const repayAmount = repaysAll ? maxUint256 : withdrawAmount;
+
+  const accountData = await BonzoPositionService.fetchUserAccountData(client, network, user);
+  const price = await fetchAssetPrice(client, network, reserve.token);
+  const config = await fetchReserveConfiguration(client, network, reserve.token);
+  const collateralRemovedETH = reserve.usageAsCollateralEnabled ? toBaseCurrency(withdrawAmount, price, reserve.decimals) : 0n;
+  const debtRemovedETH = toBaseCurrency(repaysAll ? debt : withdrawAmount, price, reserve.decimals);
+
+  const intermediateHealthFactor = simulateHealthFactor(accountData, { collateralRemovedETH, collateralLiquidationThreshold: config.liquidationThreshold });
+  const finalHealthFactor = simulateHealthFactor(accountData, {
+    collateralRemovedETH,
+    collateralLiquidationThreshold: config.liquidationThreshold,
+    debtRemovedETH,
+  });
+
+  return {
+    symbol,
+    token: reserve.token,
+    decimals: reserve.decimals,
+    rateMode,
+    debt,
+    supplied,
+    withdrawAmount,
+    repayAmount,
+    repaysAll,
+    intermediate: evaluateHealthFactor(
+      "Repay from collateral",
+      accountData.healthFactor,
+      intermediateHealthFactor,
+      acknowledgeRisk,
+      "Repay a smaller amount first, or repay part of the debt from the wallet"
+    ),
+    finalHealthFactor,
+  };
+};
@@ -0,0 +1,125 @@
+import { afterAll, afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { Client } from "@hashgraph/sdk";
+import { BonzoMarketService } from "./bonzo-market-service.js";
+import { checkReserveCapacity, checkReserveStatus, fetchReserve, getBorrowHeadroom, getSupplyHeadroom } from "./reserve-caps.js";
+import { GET_ASSET_PRICE, GET_RESERVE_CONFIGURATION_DATA, GET_RESERVE_DATA, WAD, makeReserve, mockContractCalls } from "./test-fixtures.js";
+
+// 10M WHBAR supplied against a 10.5M supply cap; 5M borrowed against a 6M borrow cap with 5M liquidity left
+const capped = makeReserve({
+  totalSupply: 1_000_000_000_000_000n,
+  supplyCap: 1_050_000_000_000_000n,
+  totalVariableDebt: 500_000_000_000_000n,
+  borrowCap: 600_000_000_000_000n,
+});
+
+// As read from chain: the reserve configuration carries no caps
+const fromChain = makeReserve({ supplyCap: undefined, borrowCap: undefined });
+
+describe("reserve headroom", () => {
+  test("reports no supply limit without a cap", () => {
+    expect(getSupplyHeadroom(makeReserve())).toEqual({});
+    expect(getSupplyHeadroom(capped)).toEqual({ maxAmount: 50_000_000_000_000n, limitedBy: "supplyCap" });
+  });
+
+  test("limits borrows by the smaller of the borrow cap and liquidity", () => {
+    expect(getBorrowHeadroom(makeReserve())).toEqual({ maxAmount: 500_000_000_000_000n, limitedBy: "liquidity" });
+    expect(getBorrowHeadroom(capped)).toEqual({ maxAmount: 100_000_000_000_000n, limitedBy: "borrowCap" });
+    expect(getBorrowHeadroom(makeReserve({ borrowCap: 1n }))).toEqual({ maxAmount: 0n, limitedBy: "borrowCap" });
+  });
+
+  test("flags unknown caps and still limits borrows by liquidity", () => {
+    expect(getSupplyHeadroom(fromChain)).toEqual({ capUnknown: true });
+    expect(getBorrowHeadroom(fromChain)).toEqual({ maxAmount: 500_000_000_000_000n, limitedBy: "liquidity", capUnknown: true });
+  });
+});
+
+describe("checkReserveCapacity", () => {
+  test("accepts amounts within the headroom", () => {
+    expect(checkReserveCapacity("deposit", capped, 50_000_000_000_000n)).toEqual({ ok: true, amount: 50_000_000_000_000n, clamped: false });
+    expect(checkReserveCapacity("deposit", makeReserve(), 10n ** 30n).ok).toBe(true);
+  });
+
+  test("rejects over-limit amounts with the max currently possible", () => {
+    const result = checkReserveCapacity("deposit", capped, 60_000_000_000_000n);
+
+    expect(result.ok).toBe(false);
+    expect(result.message).toContain("exceeds the WHBAR supply cap");
+    expect(result.message).toContain("Max currently possible: 500000 WHBAR");
+  });
+
+  test("clamps over-limit amounts when requested", () => {
+    const result = checkReserveCapacity("borrow", capped, 200_000_000_000_000n, true);
+
+    expect(result).toMatchObject({ ok: true, amount: 100_000_000_000_000n, clamped: true });
+    expect(result.message).toContain("borrow cap");
+  });
+
+  test("rejects even with clamping when the headroom is exhausted", () => {
+    const result = checkReserveCapacity("borrow", makeReserve({ availableLiquidity: 0n }), 1n, true);
+
+    expect(result.ok).toBe(false);
+    expect(result.message).toContain("available liquidity is exhausted");
+  });
+
+  test("allows amounts with a warning when the cap is unknown", () => {
+    const deposit = checkReserveCapacity("deposit", fromChain, 10n ** 30n);
+    const borrow = checkReserveCapacity("borrow", fromChain, 100_000_000n);
+
+    expect(deposit).toMatchObject({ ok: true, amount: 10n ** 30n, clamped: false });
+    expect(deposit.message).toContain("WHBAR supply cap could not be checked");
+    expect(borrow.message).toContain("WHBAR borrow cap could not be checked");
+  });
+
+  test("keeps the unknown cap warning when clamping to liquidity", () => {
+    const result = checkReserveCapacity("borrow", fromChain, 600_000_000_000_000n, true);
+
+    expect(result).toMatchObject({ ok: true, amount: 500_000_000_000_000n, clamped: true });
+    expect(result.message).toContain("exceeds the available liquidity");
+    expect(result.message).toContain("borrow cap could not be checked");
+  });
+});
+
+describe("checkReserveStatus", () => {
+  test("allows active reserves", () => {
+    expect(checkReserveStatus("deposit", "WHBAR", makeReserve())).toBeUndefined();
+    expect(checkReserveStatus("borrow", "WHBAR", makeReserve())).toBeUndefined();
+  });
+
+  test("refuses missing, inactive and frozen reserves", () => {
+    expect(checkReserveStatus("deposit", "FOO", undefined)).toContain("not a Bonzo reserve");
+    expect(checkReserveStatus("deposit", "WHBAR", makeReserve({ isActive: false }))).toContain("inactive");
+    expect(checkReserveStatus("borrow", "WHBAR", makeReserve({ isFrozen: true }))).toContain("frozen");
+  });
+
+  test("refuses borrows only when borrowing is disabled", () => {
+    const reserve = makeReserve({ borrowingEnabled: false });
+
+    expect(checkReserveStatus("borrow", "WHBAR", reserve)).toContain("borrowing is disabled");
+    expect(checkReserveStatus("deposit", "WHBAR", reserve)).toBeUndefined();
+  });
+});
+
+describe("fetchReserve", () => {
+  const client = Client.forTestnet();
+  afterAll(() => client.close());
+  afterEach(() => {
+    mock.restore();
+    BonzoMarketService.configure("hedera_testnet", { baseUrl: undefined });
+  });
+
+  test("falls back to chain state, with unknown caps, when the API fails", async () => {
+    BonzoMarketService.configure("hedera_testnet", { baseUrl: "https://bonzo.test/market", cacheTtlMs: 0 });
+    spyOn(globalThis, "fetch").mockImplementation((async () => {
+      throw new TypeError("connection refused");
+    }) as unknown as typeof fetch);
+    mockContractCalls({
+      [GET_ASSET_PRICE]: () => [WAD],
+      [GET_RESERVE_CONFIGURATION_DATA]: () => [8n, 7500n, 8000n, 10500n, 1000n, true, true, false, true, true],
+      [GET_RESERVE_DATA]: () => [600n * 10n ** 8n, 0n, 0n, 0n, 0n, 0n, 0n, 0n, 0n, 0],
+    });
+    const reserve = await fetchReserve(client, "hedera_testnet", "whbar");
+
+    expect(reserve).toMatchObject({ symbol: "WHBAR", isFrozen: true, supplyCap: undefined, borrowCap: undefined });
+    expect(await fetchReserve(client, "hedera_testnet", "NOPE")).toBeUndefined();
+  });
+});
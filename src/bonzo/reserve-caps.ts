@@ -0,0 +1,136 @@
+import type { Client } from "@hashgraph/sdk";
+import { type BonzoReserve, BonzoMarketService } from "./bonzo-market-service.js";
+import { fetchReservesFromChain } from "./bonzo-onchain-reserves.js";
+import { type NetworkKey, fromWei } from "./utils.js";
+
+export type CapLimit = "supplyCap" | "borrowCap" | "liquidity";
+
+/**
+ * Largest amount (smallest units) that can currently be supplied or borrowed, and what limits it.
+ * `maxAmount` is undefined when nothing limits the action. `capUnknown` is set when the reserve came from chain state,
+ * which has no caps, so `maxAmount` ignores the cap.
+ */
+export interface ReserveHeadroom {
+  maxAmount?: bigint;
+  limitedBy?: CapLimit;
+  capUnknown?: boolean;
+}
+
+/**
+ * Outcome of a cap check: the amount to use (clamped when requested) or a message explaining the limit.
+ * Allowed amounts carry a warning message when the cap could not be checked.
+ */
+export interface CapCheckResult {
+  ok: boolean;
+  amount: bigint;
+  clamped: boolean;
+  message?: string;
+}
+
+const LIMIT_LABELS: Record<CapLimit, string> = {
+  supplyCap: "supply cap",
+  borrowCap: "borrow cap",
+  liquidity: "available liquidity",
+};
+
+const positive = (value: bigint): bigint => (value > 0n ? value : 0n);
+
+/**
+ * Supply headroom: supplyCap - totalSupply (a cap of 0 means no cap)
+ */
+export const getSupplyHeadroom = (reserve: BonzoReserve): ReserveHeadroom => {
+  if (reserve.supplyCap === undefined) return { capUnknown: true };
+  if (reserve.supplyCap === 0n) return {};
+  return { maxAmount: positive(reserve.supplyCap - reserve.totalSupply), limitedBy: "supplyCap" };
+};
+
+/**
+ * Borrow headroom: the smaller of borrowCap - totalDebt (a cap of 0 means no cap) and the available liquidity
+ */
+export const getBorrowHeadroom = (reserve: BonzoReserve): ReserveHeadroom => {
+  const liquidity = positive(reserve.availableLiquidity);
+  if (reserve.borrowCap === undefined) return { maxAmount: liquidity, limitedBy: "liquidity", capUnknown: true };
+  if (reserve.borrowCap === 0n) return { maxAmount: liquidity, limitedBy: "liquidity" };
+
+  const capRoom = positive(reserve.borrowCap - reserve.totalStableDebt - reserve.totalVariableDebt);
+  return capRoom < liquidity ? { maxAmount: capRoom, limitedBy: "borrowCap" } : { maxAmount: liquidity, limitedBy: "liquidity" };
+};
+
+/**
+ * Returns the unfiltered reserve list, falling back to chain state (with unknown caps) when the API is unavailable
+ */
+export const fetchReservesWithFallback = async (client: Client, network: NetworkKey): Promise<BonzoReserve[]> => {
+  try {
+    return await BonzoMarketService.forNetwork(network).fetchAllReserves();
+  } catch {
+    return fetchReservesFromChain(client, network);
+  }
+};
+
+/**
+ * Finds a reserve by symbol in the unfiltered reserve list, falling back to chain state when the API is unavailable
+ */
+export const fetchReserve = async (client: Client, network: NetworkKey, symbol: string): Promise<BonzoReserve | undefined> => {
+  const reserves = await fetchReservesWithFallback(client, network);
+  return reserves.find((r) => r.symbol.toUpperCase() === symbol.toUpperCase());
+};
+
+/**
+ * Refusal message when the reserve is missing, inactive, frozen or (for borrows) has borrowing disabled; undefined when
+ * the action is allowed
+ */
+export const checkReserveStatus = (action: "deposit" | "borrow", symbol: string, reserve: BonzoReserve | undefined): string | undefined => {
+  if (!reserve) return `❌ Cannot ${action} ${symbol}: it is not a Bonzo reserve on this network.`;
+  if (!reserve.isActive) return `❌ Cannot ${action} ${symbol}: the reserve is inactive.`;
+  if (reserve.isFrozen) return `❌ Cannot ${action} ${symbol}: the reserve is frozen.`;
+  if (action === "borrow" && !reserve.borrowingEnabled) return `❌ Cannot borrow ${symbol}: borrowing is disabled for this reserve.`;
+  return undefined;
+};
+
+/**
+ * Checks a deposit/borrow amount against the reserve headroom. Over-limit amounts are rejected with the max currently
+ * possible, or reduced to it when `clampToMax` is set. Headroom comes from market data and may lag the chain slightly;
+ * when the cap is unknown the amount is allowed with a warning, since the cap is still enforced on chain.
+ */
+export const checkReserveCapacity = (
+  action: "deposit" | "borrow",
+  reserve: BonzoReserve,
+  amount: bigint,
+  clampToMax = false
+): CapCheckResult => {
+  const { maxAmount, limitedBy, capUnknown } = action === "deposit" ? getSupplyHeadroom(reserve) : getBorrowHeadroom(reserve);
+  const capWarning = capUnknown
+    ? `⚠️ The ${reserve.symbol} ${action === "deposit" ? "supply" : "borrow"} cap could not be checked (market data unavailable); ` +
+      `the transaction reverts if it exceeds the cap.`
+    : undefined;
+  if (maxAmount === undefined || limitedBy === undefined || amount <= maxAmount) {
+    return { ok: true, amount, clamped: false, message: capWarning };
+  }
+
+  const format = (value: bigint) => `${fromWei(value, reserve.decimals)} ${reserve.symbol}`;
+  const limit = LIMIT_LABELS[limitedBy];
+  if (maxAmount === 0n) {
+    return {
+      ok: false,
+      amount,
+      clamped: false,
+      message: `❌ Cannot ${action} ${reserve.symbol}: the reserve ${limit} is exhausted. Max currently possible: 0 ${reserve.symbol}.`,
+    };
+  }
+  if (clampToMax) {
+    return {
+      ok: true,
+      amount: maxAmount,
+      clamped: true,
+      message: [`⚠️ Requested ${format(amount)} exceeds the ${limit}; amount reduced to ${format(maxAmount)}.`, capWarning].filter(Boolean).join("\n"),
+    };
+  }
+  return {
+    ok: false,
+    amount,
+    clamped: false,
+    message:
+      `❌ ${action === "deposit" ? "Deposit" : "Borrow"} of ${format(amount)} exceeds the ${reserve.symbol} ${limit}. ` +
+      `Max currently possible: ${format(maxAmount)}. Retry with that amount or set optional.clampToMax.`,
+  };
+};
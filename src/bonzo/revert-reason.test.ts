@@ -0,0 +1,76 @@
+import { afterAll, afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { defaultAbiCoder } from "@ethersproject/abi";
+import { Client, ReceiptStatusError, Status, TransactionId, TransactionRecordQuery } from "@hashgraph/sdk";
+import { describeTransactionError, fetchRevertReason } from "./revert-reason.js";
+import { toMirrorNodeTransactionId } from "./mirror-node.js";
+import { mockMirrorNode } from "./test-fixtures.js";
+
+const errorString = (reason: string) => `0x08c379a0${defaultAbiCoder.encode(["string"], [reason]).slice(2)}`;
+const transactionId = "0.0.1001@1700000000.000000001";
+const resultPath = "/api/v1/contracts/results/0.0.1001-1700000000-000000001";
+
+const client = Client.forTestnet();
+afterAll(() => client.close());
+afterEach(() => {
+  mock.restore();
+});
+
+describe("toMirrorNodeTransactionId", () => {
+  test("converts SDK transaction IDs and passes other IDs through", () => {
+    expect(toMirrorNodeTransactionId(transactionId)).toBe("0.0.1001-1700000000-000000001");
+    expect(toMirrorNodeTransactionId("0.0.1001@1700000000.5?scheduled")).toBe("0.0.1001-1700000000-000000005");
+    expect(toMirrorNodeTransactionId("0.0.1001-1700000000-000000001")).toBe("0.0.1001-1700000000-000000001");
+  });
+});
+
+describe("fetchRevertReason", () => {
+  test("decodes the mirror node error_message, retrying until the result is ingested", async () => {
+    let calls = 0;
+    mockMirrorNode((path) => (path === resultPath && ++calls > 1 ? { error_message: errorString("11") } : undefined));
+    const revert = await fetchRevertReason(client, transactionId);
+
+    expect(revert?.name).toBe("VL_COLLATERAL_CANNOT_COVER_NEW_BORROW");
+    expect(calls).toBe(2);
+  });
+
+  test("falls back to the transaction record when the mirror node fails", async () => {
+    spyOn(globalThis, "fetch").mockResolvedValue(Response.json({}, { status: 500 }));
+    const record = spyOn(TransactionRecordQuery.prototype, "execute").mockResolvedValue({
+      contractFunctionResult: { errorMessage: errorString("3") },
+    } as never);
+
+    expect((await fetchRevertReason(client, transactionId))?.name).toBe("VL_RESERVE_FROZEN");
+    expect(record).toHaveBeenCalledTimes(1);
+  });
+
+  test("returns undefined when neither source has a reason", async () => {
+    mockMirrorNode({ [resultPath]: { error_message: null } });
+    spyOn(TransactionRecordQuery.prototype, "execute").mockRejectedValue(new Error("RECORD_NOT_FOUND"));
+
+    expect(await fetchRevertReason(client, transactionId)).toBeUndefined();
+  });
+});
+
+describe("describeTransactionError", () => {
+  const receiptError = new ReceiptStatusError({
+    status: Status.ContractRevertExecuted,
+    transactionId: TransactionId.fromString(transactionId),
+    transactionReceipt: {} as never,
+  });
+
+  test("appends the decoded reason to failed receipts", async () => {
+    mockMirrorNode({ [resultPath]: { error_message: errorString("15") } });
+
+    expect(await describeTransactionError(client, receiptError)).toBe(
+      `${receiptError.message}. Revert reason: No debt of the selected rate mode to repay (VL_NO_DEBT_OF_SELECTED_TYPE, code 15)`
+    );
+  });
+
+  test("keeps the original message for other errors and unknown reasons", async () => {
+    mockMirrorNode({ [resultPath]: { error_message: "" } });
+    spyOn(TransactionRecordQuery.prototype, "execute").mockRejectedValue(new Error("RECORD_NOT_FOUND"));
+
+    expect(await describeTransactionError(client, new Error("INSUFFICIENT_PAYER_BALANCE"))).toBe("INSUFFICIENT_PAYER_BALANCE");
+    expect(await describeTransactionError(client, receiptError)).toBe(receiptError.message);
+  });
+});
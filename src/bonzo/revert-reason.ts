@@ -0,0 +1,50 @@
+import { type Client, ReceiptStatusError, TransactionId, TransactionRecordQuery } from "@hashgraph/sdk";
+import { type DecodedRevert, decodeRevertReason } from "./aave-errors.js";
+import { MirrorNodeError, fetchContractResult } from "./mirror-node.js";
+import { getNetworkKey } from "./utils.js";
+
+const MIRROR_NODE_ATTEMPTS = 4;
+const MIRROR_NODE_RETRY_DELAY_MS = 1_500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetches and decodes the revert reason of a failed contract transaction. The mirror node result is tried first
+ * (retried while the transaction is not yet ingested), then the transaction record from the consensus node.
+ */
+export const fetchRevertReason = async (client: Client, transactionId: string): Promise<DecodedRevert | undefined> => {
+  const network = getNetworkKey(client);
+  for (let attempt = 1; attempt <= MIRROR_NODE_ATTEMPTS; attempt++) {
+    try {
+      const result = await fetchContractResult(network, transactionId);
+      const revert = decodeRevertReason(result.error_message);
+      if (revert) return revert;
+      break;
+    } catch (error) {
+      // 404 means the mirror node has not ingested the transaction yet; other errors go to the record fallback
+      if (!(error instanceof MirrorNodeError) || error.status !== 404 || attempt === MIRROR_NODE_ATTEMPTS) break;
+      await sleep(MIRROR_NODE_RETRY_DELAY_MS);
+    }
+  }
+
+  try {
+    const record = await new TransactionRecordQuery().setTransactionId(TransactionId.fromString(transactionId)).setValidateReceiptStatus(false).execute(client);
+    return decodeRevertReason(record.contractFunctionResult?.errorMessage);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Error message for a tool's catch block: failed receipts get the decoded revert reason appended.
+ * Never throws; falls back to the original message when no reason can be found.
+ */
+export const describeTransactionError = async (client: Client, error: Error): Promise<string> => {
+  if (!(error instanceof ReceiptStatusError)) return error.message;
+  try {
+    const revert = await fetchRevertReason(client, error.transactionId.toString());
+    return revert ? `${error.message}. Revert reason: ${revert.explanation}` : error.message;
+  } catch {
+    return error.message;
+  }
+};
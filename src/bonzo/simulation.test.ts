@@ -0,0 +1,90 @@
+import { afterAll, afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { defaultAbiCoder } from "@ethersproject/abi";
+import { AccountInfoQuery, Client, ContractCallQuery, PrivateKey, TokenAssociateTransaction } from "@hashgraph/sdk";
+import { dryRunTransactions, simulateTransactions } from "./simulation.js";
+import { type PreparedTransaction, buildContractCall } from "./utils.js";
+
+const errorString = (reason: string) => `0x08c379a0${defaultAbiCoder.encode(["string"], [reason]).slice(2)}`;
+const pool = "0x00000000000000000000000000000000000a1b2c";
+
+// Call data only selects the mirror node response below
+const approve: PreparedTransaction = { label: "Approve USDC for LendingPool", tx: buildContractCall(pool, "0xa0000001", 6_000_000) };
+const deposit: PreparedTransaction = { label: "Deposit USDC", tx: buildContractCall(pool, "0xa0000002", 1_000_000) };
+const depositHbar: PreparedTransaction = { label: "Deposit HBAR", tx: buildContractCall(pool, "0xa0000003", 1_000_000, 500_000_000n) };
+const associate: PreparedTransaction = { label: "Associate USDC", tx: new TokenAssociateTransaction() };
+
+const client = Client.forTestnet().setOperator("0.0.1001", PrivateKey.generateED25519());
+afterAll(() => client.close());
+beforeEach(() => {
+  spyOn(AccountInfoQuery.prototype, "execute").mockRejectedValue(new Error("no alias"));
+});
+afterEach(() => {
+  mock.restore();
+});
+
+// Mirror node `contracts/call` answering by call data with a gas estimate or a 400 revert; other data gets a 503
+const mockContractsCall = (responses: Record<string, { gas: number } | { revertData: string }>) => {
+  const requests: { from: string; data: string; value: number; estimate: boolean }[] = [];
+  spyOn(globalThis, "fetch").mockImplementation((async (_input: string | URL | Request, init?: RequestInit) => {
+    const request = JSON.parse(String(init?.body));
+    requests.push(request);
+    const response = responses[request.data];
+    if (!response) return Response.json({}, { status: 503 });
+    return "gas" in response
+      ? Response.json({ result: `0x${response.gas.toString(16)}` })
+      : Response.json({ _status: { messages: [{ message: "CONTRACT_REVERT_EXECUTED", data: response.revertData }] } }, { status: 400 });
+  }) as unknown as typeof fetch);
+  return requests;
+};
+
+describe("simulateTransactions", () => {
+  test("estimates gas through the mirror node and skips non-contract steps", async () => {
+    const requests = mockContractsCall({ "0xa0000001": { gas: 45_000 }, "0xa0000002": { gas: 1_200_000 } });
+    const results = await simulateTransactions(client, [associate, approve, deposit]);
+
+    expect(results[0]).toEqual({ label: "Associate USDC", simulated: false, ok: true, note: "Not a contract call; not simulated" });
+    expect(results[1]).toMatchObject({ simulated: true, ok: true, gasEstimate: 45_000, gasLimit: 6_000_000, note: undefined });
+    expect(results[2]).toMatchObject({ ok: true, gasEstimate: 1_200_000, note: "estimated gas exceeds the gas limit of 1000000" });
+    expect(requests[0]).toMatchObject({ from: "0x00000000000000000000000000000000000003e9", value: 0, estimate: true });
+  });
+
+  test("decodes Aave error codes from mirror node reverts and notes dependence on earlier steps", async () => {
+    mockContractsCall({ "0xa0000001": { gas: 45_000 }, "0xa0000002": { revertData: errorString("11") } });
+    const [, result] = await simulateTransactions(client, [approve, deposit]);
+
+    expect(result).toMatchObject({ simulated: true, ok: false, note: "may succeed once the previous steps are executed" });
+    expect(result!.revert?.name).toBe("VL_COLLATERAL_CANNOT_COVER_NEW_BORROW");
+  });
+
+  test("falls back to a ContractCallQuery when the mirror node is unavailable, except for payable calls", async () => {
+    mockContractsCall({});
+    const query = spyOn(ContractCallQuery.prototype, "execute").mockRejectedValue(
+      Object.assign(new Error("CONTRACT_REVERT_EXECUTED"), { contractFunctionResult: { errorMessage: errorString("3") } })
+    );
+    const [hbar, usdc] = await simulateTransactions(client, [depositHbar, deposit]);
+
+    expect(hbar).toMatchObject({ simulated: false, ok: "unknown", gasLimit: 1_000_000 });
+    expect(usdc).toMatchObject({ simulated: true, ok: false });
+    expect(usdc!.revert?.name).toBe("VL_RESERVE_FROZEN");
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("dryRunTransactions", () => {
+  test("reports that the plan reverts when any step reverts", async () => {
+    mockContractsCall({ "0xa0000001": { gas: 45_000 }, "0xa0000002": { revertData: errorString("1") } });
+    const { raw, humanMessage } = await dryRunTransactions(client, [approve, deposit], "Deposit");
+
+    expect(raw).toMatchObject({ dryRun: true, wouldSucceed: false });
+    expect(humanMessage).toStartWith("Deposit dry run (nothing submitted): a step is expected to revert.");
+    expect(humanMessage).toContain("1. Approve USDC for LendingPool - ok, estimated gas 45000 (limit 6000000)");
+    expect(humanMessage).toContain("2. Deposit USDC - REVERTS:");
+  });
+
+  test("leaves the outcome unknown when a step could not be simulated", async () => {
+    mockContractsCall({ "0xa0000001": { gas: 45_000 } });
+    const { raw } = await dryRunTransactions(client, [approve, depositHbar], "Deposit");
+
+    expect(raw).toMatchObject({ wouldSucceed: "unknown" });
+  });
+});
@@ -0,0 +1,135 @@
+import { type Client, ContractCallQuery, ContractExecuteTransaction } from "@hashgraph/sdk";
+import { type DecodedRevert, decodeRevertReason } from "./aave-errors.js";
+import { MirrorNodeError, fetchMirrorNode } from "./mirror-node.js";
+import { type NetworkKey, type PreparedTransaction, getEvmAliasAddress, getNetworkKey, handleResponse } from "./utils.js";
+
+/**
+ * Outcome of simulating one prepared transaction
+ */
+export interface SimulatedStep {
+  label: string;
+  simulated: boolean;
+  ok: boolean | "unknown"; // "unknown" when a contract call could not be simulated
+  gasEstimate?: number;
+  gasLimit?: number;
+  revert?: DecodedRevert;
+  note?: string;
+}
+
+interface MirrorNodeCallError {
+  _status?: { messages?: { message?: string; detail?: string; data?: string }[] };
+}
+
+/**
+ * Estimates gas through the mirror node `contracts/call` endpoint (estimate=true), which also reports reverts with their data
+ */
+const simulateViaMirrorNode = async (
+  network: NetworkKey,
+  from: `0x${string}`,
+  to: `0x${string}`,
+  data: string,
+  gas: number,
+  valueTinybars: number
+): Promise<{ gasEstimate?: number; revert?: DecodedRevert }> => {
+  try {
+    const body = await fetchMirrorNode<{ result: string }>(network, "/api/v1/contracts/call", {
+      method: "POST",
+      body: { block: "latest", from, to, data, gas, value: valueTinybars, estimate: true },
+    });
+    return { gasEstimate: Number(BigInt(body.result)) };
+  } catch (error) {
+    // 4xx responses carry the revert; anything else means the mirror node could not simulate the call
+    if (!(error instanceof MirrorNodeError) || !error.status || error.status >= 500) throw error;
+    const message = (error.body as MirrorNodeCallError | undefined)?._status?.messages?.[0];
+    const revert = decodeRevertReason(message?.data) ?? decodeRevertReason(message?.detail);
+    return { revert: revert ?? { reason: message?.message ?? error.message, explanation: message?.message ?? error.message } };
+  }
+};
+
+/**
+ * Executes the call data as a ContractCallQuery from the signer; used when the mirror node is unavailable
+ */
+const simulateViaCallQuery = async (client: Client, tx: ContractExecuteTransaction): Promise<{ gasEstimate?: number; revert?: DecodedRevert }> => {
+  const operatorId = client.operatorAccountId;
+  const query = new ContractCallQuery()
+    .setContractId(tx.contractId!)
+    .setGas(tx.gas?.toNumber() ?? 0)
+    .setFunctionParameters(tx.functionParameters ?? new Uint8Array());
+  if (operatorId) query.setSenderAccountId(operatorId);
+  try {
+    const res = await query.execute(client);
+    return { gasEstimate: res.gasUsed.toNumber() };
+  } catch (error) {
+    const result = (error as { contractFunctionResult?: { errorMessage?: string | null } }).contractFunctionResult;
+    const revert = decodeRevertReason(result?.errorMessage);
+    if (revert) return { revert };
+    const reason = error instanceof Error ? error.message : String(error);
+    return { revert: { reason, explanation: reason } };
+  }
+};
+
+/**
+ * Simulates each contract call against current state without submitting anything. Steps run independently, so a step
+ * that relies on an earlier one (approval, association, credit delegation) may revert until that step is executed.
+ */
+export const simulateTransactions = async (client: Client, steps: PreparedTransaction[]): Promise<SimulatedStep[]> => {
+  const network = getNetworkKey(client);
+  const operatorId = client.operatorAccountId?.toString();
+  const from = operatorId ? await getEvmAliasAddress(client, operatorId) : undefined;
+
+  const results: SimulatedStep[] = [];
+  for (const [index, step] of steps.entries()) {
+    const { tx, label } = step;
+    if (!(tx instanceof ContractExecuteTransaction) || !tx.contractId) {
+      results.push({ label, simulated: false, ok: true, note: "Not a contract call; not simulated" });
+      continue;
+    }
+
+    const gasLimit = tx.gas?.toNumber() ?? 0;
+    const data = `0x${Buffer.from(tx.functionParameters ?? new Uint8Array()).toString("hex")}`;
+    const valueTinybars = Number(tx.payableAmount?.toTinybars().toString() ?? "0");
+    const to = `0x${tx.contractId.toSolidityAddress()}` as `0x${string}`;
+
+    let outcome: { gasEstimate?: number; revert?: DecodedRevert };
+    try {
+      if (!from) throw new MirrorNodeError("Operator account is not set");
+      outcome = await simulateViaMirrorNode(network, from, to, data, gasLimit, valueTinybars);
+    } catch {
+      if (valueTinybars > 0) {
+        results.push({ label, simulated: false, ok: "unknown", gasLimit, note: "Mirror node unavailable; payable calls cannot be simulated locally" });
+        continue;
+      }
+      outcome = await simulateViaCallQuery(client, tx);
+    }
+
+    const notes: string[] = [];
+    if (outcome.revert && index > 0) notes.push("may succeed once the previous steps are executed");
+    if (outcome.gasEstimate !== undefined && outcome.gasEstimate > gasLimit) notes.push(`estimated gas exceeds the gas limit of ${gasLimit}`);
+    results.push({
+      label,
+      simulated: true,
+      ok: outcome.revert === undefined,
+      gasEstimate: outcome.gasEstimate,
+      gasLimit,
+      revert: outcome.revert,
+      note: notes.length > 0 ? notes.join("; ") : undefined,
+    });
+  }
+  return results;
+};
+
+/**
+ * Dry-run response for a write tool: simulates the steps and reports reverts and gas instead of executing or returning bytes
+ */
+export const dryRunTransactions = async (client: Client, steps: PreparedTransaction[], action: string) => {
+  const simulations = await simulateTransactions(client, steps);
+  const lines = simulations.map((s, i) => {
+    const outcome = !s.simulated ? (s.ok === "unknown" ? "NOT SIMULATED" : "skipped") : s.ok ? `ok, estimated gas ${s.gasEstimate ?? "n/a"} (limit ${s.gasLimit})` : `REVERTS: ${s.revert?.explanation}`;
+    return `${i + 1}. ${s.label} - ${outcome}${s.note ? ` (${s.note})` : ""}`;
+  });
+  // A revert anywhere decides the outcome; otherwise a step that could not be simulated leaves it unknown
+  const wouldSucceed = simulations.some((s) => s.ok === false) ? false : simulations.some((s) => s.ok === "unknown") ? "unknown" : true;
+  const headline =
+    wouldSucceed === true ? "all steps passed simulation" : wouldSucceed === false ? "a step is expected to revert" : "a step could not be simulated; the outcome is unknown";
+  return handleResponse({ dryRun: true, wouldSucceed, simulations }, `${action} dry run (nothing submitted): ${headline}.\n${lines.join("\n")}`);
+};
@@ -0,0 +1,97 @@
+import { afterAll, afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { Interface } from "@ethersproject/abi";
+import { Client, ContractCallQuery } from "@hashgraph/sdk";
+import { buildRebalanceStep, fetchStableRebalanceStatus, formatRayPercent } from "./stable-rebalance.js";
+import { GET_RESERVE_DATA, decodeStep } from "./test-fixtures.js";
+import { getContractAddress, getLendingPoolAddress, getTokenAddresses } from "./utils.js";
+
+const RAY = 10n ** 27n;
+const REBALANCE = "function rebalanceStableBorrowRate(address asset, address user)";
+const POOL_GET_RESERVE_DATA =
+  "function getReserveData(address asset) view returns (tuple(tuple(uint256 data) configuration, uint128 liquidityIndex, uint128 variableBorrowIndex, uint128 currentLiquidityRate, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint8 id))";
+
+const user = "0x0000000000000000000000000000000000001234";
+const strategy = "0x00000000000000000000000000000000000b0b0b";
+const usdc = getTokenAddresses("USDC", "hedera_testnet");
+const zero = "0x0000000000000000000000000000000000000000";
+
+const client = Client.forTestnet();
+afterAll(() => client.close());
+afterEach(() => {
+  mock.restore();
+});
+
+interface MarketState {
+  stableDebt: bigint;
+  availableLiquidity: bigint;
+  totalVariableDebt: bigint;
+  liquidityRate: bigint;
+}
+
+// The data provider and the LendingPool both expose getReserveData, so calls are answered per contract
+const mockStableMarket = ({ stableDebt, availableLiquidity, totalVariableDebt, liquidityRate }: MarketState) => {
+  const contracts: Record<string, { iface: Interface; results: Record<string, unknown[]> }> = {
+    [usdc.stableDebt.toLowerCase()]: {
+      iface: new Interface(["function getUserStableRate(address user) view returns (uint256)", "function balanceOf(address user) view returns (uint256)"]),
+      results: { getUserStableRate: [(RAY * 3n) / 100n], balanceOf: [stableDebt] },
+    },
+    [getContractAddress("AaveProtocolDataProvider", "hedera_testnet").toLowerCase()]: {
+      iface: new Interface([GET_RESERVE_DATA]),
+      results: { getReserveData: [availableLiquidity, 0n, totalVariableDebt, liquidityRate, (RAY * 8n) / 100n, (RAY * 10n) / 100n, 0n, RAY, RAY, 0] },
+    },
+    [getLendingPoolAddress("hedera_testnet").toLowerCase()]: {
+      iface: new Interface([POOL_GET_RESERVE_DATA]),
+      results: { getReserveData: [[[0n], RAY, RAY, liquidityRate, 0n, 0n, 0, zero, usdc.stableDebt, zero, strategy, 1]] },
+    },
+    [strategy]: { iface: new Interface(["function getMaxVariableBorrowRate() view returns (uint256)"]), results: { getMaxVariableBorrowRate: [RAY] } },
+  };
+  spyOn(ContractCallQuery.prototype, "execute").mockImplementation((async function (this: ContractCallQuery) {
+    const { iface, results } = contracts[`0x${this.contractId?.toSolidityAddress()}`]!;
+    const fragment = iface.getFunction(`0x${Buffer.from(this.functionParameters!).toString("hex").slice(0, 8)}`);
+    return { bytes: Buffer.from(iface.encodeFunctionResult(fragment, results[fragment.name]).slice(2), "hex") };
+  }) as never);
+};
+
+describe("formatRayPercent", () => {
+  test("formats ray rates as percentages", () => {
+    expect(formatRayPercent((RAY * 95n) / 100n)).toBe("95.00%");
+    expect(formatRayPercent((RAY * 1234n) / 1_000_000n)).toBe("0.12%");
+  });
+});
+
+describe("fetchStableRebalanceStatus", () => {
+  test("is eligible above 95% utilization with a supply rate at most 40% of the max variable rate", async () => {
+    // 960 of 1000 USDC borrowed, 2% supply rate against a 100% max variable borrow rate
+    mockStableMarket({ stableDebt: 100_000_000n, availableLiquidity: 40_000_000n, totalVariableDebt: 960_000_000n, liquidityRate: (RAY * 2n) / 100n });
+    const status = await fetchStableRebalanceStatus(client, "hedera_testnet", "USDC", user, 6);
+
+    expect(status).toMatchObject({ eligible: true, reasons: [], stableDebt: 100_000_000n, usageRatio: (RAY * 96n) / 100n, maxLiquidityRate: (RAY * 2n) / 5n });
+    expect(status.userStableAPY).toBeCloseTo(3.05, 2);
+    expect(status.marketStableAPY).toBeGreaterThan(status.marketVariableAPY);
+  });
+
+  test("lists every unmet condition", async () => {
+    mockStableMarket({ stableDebt: 0n, availableLiquidity: 500_000_000n, totalVariableDebt: 500_000_000n, liquidityRate: RAY / 2n });
+    const status = await fetchStableRebalanceStatus(client, "hedera_testnet", "USDC", user, 6);
+
+    expect(status.eligible).toBe(false);
+    expect(status.reasons).toEqual([
+      "the user has no stable rate debt in this reserve",
+      "utilization 50.00% is below the 95% threshold",
+      "supply rate 50.00% is above 40% of the max variable borrow rate (40.00%)",
+    ]);
+  });
+});
+
+describe("buildRebalanceStep", () => {
+  test("encodes rebalanceStableBorrowRate(asset, user) on the LendingPool", async () => {
+    mockStableMarket({ stableDebt: 100_000_000n, availableLiquidity: 40_000_000n, totalVariableDebt: 960_000_000n, liquidityRate: 0n });
+    const step = buildRebalanceStep("hedera_testnet", await fetchStableRebalanceStatus(client, "hedera_testnet", "USDC", user, 6));
+    const { contract, args } = decodeStep(step, REBALANCE);
+
+    expect(step.label).toBe(`Rebalance USDC stable rate of ${user}`);
+    expect(contract).toBe(getLendingPoolAddress("hedera_testnet").toLowerCase());
+    expect(args.asset.toLowerCase()).toBe(usdc.token.toLowerCase());
+    expect(args.user.toLowerCase()).toBe(user);
+  });
+});
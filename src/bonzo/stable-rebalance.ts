@@ -0,0 +1,148 @@
+import type { Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import { rayRateToAPY } from "./bonzo-onchain-reserves.js";
+import {
+  type NetworkKey,
+  type PreparedTransaction,
+  buildContractCall,
+  fetchErc20Decimals,
+  getContractAddress,
+  getLendingPoolAddress,
+  getTokenAddresses,
+  queryContract,
+} from "./utils.js";
+
+const RAY = 10n ** 27n;
+
+/**
+ * ValidationLogic.REBALANCE_UP_USAGE_RATIO_THRESHOLD: rebalancing requires at least 95% utilization (ray)
+ */
+export const REBALANCE_UP_USAGE_RATIO_THRESHOLD = (RAY * 95n) / 100n;
+
+/**
+ * ValidationLogic.REBALANCE_UP_LIQUIDITY_RATE_THRESHOLD: the liquidity rate must be at most 40% of the max variable borrow rate
+ */
+export const REBALANCE_UP_LIQUIDITY_RATE_THRESHOLD_BPS = 4_000n;
+
+const STABLE_DEBT_TOKEN_ABI = [
+  "function getUserStableRate(address user) view returns (uint256)",
+  "function balanceOf(address user) view returns (uint256)",
+];
+
+const DATA_PROVIDER_ABI = [
+  "function getReserveData(address asset) view returns (uint256 availableLiquidity, uint256 totalStableDebt, uint256 totalVariableDebt, uint256 liquidityRate, uint256 variableBorrowRate, uint256 stableBorrowRate, uint256 averageStableBorrowRate, uint256 liquidityIndex, uint256 variableBorrowIndex, uint40 lastUpdateTimestamp)",
+];
+
+const LENDING_POOL_ABI = [
+  "function getReserveData(address asset) view returns (tuple(tuple(uint256 data) configuration, uint128 liquidityIndex, uint128 variableBorrowIndex, uint128 currentLiquidityRate, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint8 id))",
+  "function rebalanceStableBorrowRate(address asset, address user)",
+];
+
+const RATE_STRATEGY_ABI = ["function getMaxVariableBorrowRate() view returns (uint256)"];
+
+/**
+ * A borrower's stable rate position in one reserve, the market rates it is compared against, and whether
+ * LendingPool.rebalanceStableBorrowRate would currently succeed
+ */
+export interface StableRebalanceStatus {
+  user: `0x${string}`;
+  symbol: string;
+  token: `0x${string}`;
+  decimals: number;
+  stableDebt: bigint;
+  userStableRate: bigint; // ray
+  marketStableRate: bigint; // ray
+  marketVariableRate: bigint; // ray
+  userStableAPY: number;
+  marketStableAPY: number;
+  marketVariableAPY: number;
+  usageRatio: bigint; // ray
+  liquidityRate: bigint; // ray
+  maxLiquidityRate: bigint; // ray, 40% of the strategy's max variable borrow rate
+  eligible: boolean;
+  reasons: string[];
+}
+
+/**
+ * Formats a ray value (1e27 = 100%) as a percentage with two decimals
+ */
+export const formatRayPercent = (value: bigint): string => `${(Number((value * 10_000n) / RAY) / 100).toFixed(2)}%`;
+
+const toBigInt = (value: { toString(): string }): bigint => BigInt(value.toString());
+
+/**
+ * Reads the user's stable rate and balance from the StableDebtToken and evaluates the Aave v2 rebalance conditions
+ * (ValidationLogic.validateRebalanceStableBorrowRate) against current reserve state
+ */
+export const fetchStableRebalanceStatus = async (
+  client: Client,
+  network: NetworkKey,
+  symbol: string,
+  user: `0x${string}`,
+  decimals?: number
+): Promise<StableRebalanceStatus> => {
+  const { token, stableDebt: stableDebtToken } = getTokenAddresses(symbol, network);
+  const stableIface = new Interface(STABLE_DEBT_TOKEN_ABI);
+  const userStableRate = toBigInt((await queryContract(client, stableDebtToken, stableIface, "getUserStableRate", [user]))[0]);
+  const stableDebt = toBigInt((await queryContract(client, stableDebtToken, stableIface, "balanceOf", [user]))[0]);
+
+  const reserveData = await queryContract(
+    client,
+    getContractAddress("AaveProtocolDataProvider", network),
+    new Interface(DATA_PROVIDER_ABI),
+    "getReserveData",
+    [token]
+  );
+  const availableLiquidity = toBigInt(reserveData.availableLiquidity);
+  const totalDebt = toBigInt(reserveData.totalStableDebt) + toBigInt(reserveData.totalVariableDebt);
+  const liquidityRate = toBigInt(reserveData.liquidityRate);
+  const marketVariableRate = toBigInt(reserveData.variableBorrowRate);
+  const marketStableRate = toBigInt(reserveData.stableBorrowRate);
+
+  const poolData = await queryContract(client, getLendingPoolAddress(network), new Interface(LENDING_POOL_ABI), "getReserveData", [token]);
+  const strategy = poolData[0].interestRateStrategyAddress as `0x${string}`;
+  const maxVariableBorrowRate = toBigInt((await queryContract(client, strategy, new Interface(RATE_STRATEGY_ABI), "getMaxVariableBorrowRate"))[0]);
+
+  const usageRatio = totalDebt === 0n ? 0n : (totalDebt * RAY) / (availableLiquidity + totalDebt);
+  const maxLiquidityRate = (maxVariableBorrowRate * REBALANCE_UP_LIQUIDITY_RATE_THRESHOLD_BPS) / 10_000n;
+
+  const reasons: string[] = [];
+  if (stableDebt === 0n) reasons.push("the user has no stable rate debt in this reserve");
+  if (usageRatio < REBALANCE_UP_USAGE_RATIO_THRESHOLD) {
+    reasons.push(`utilization ${formatRayPercent(usageRatio)} is below the 95% threshold`);
+  }
+  if (liquidityRate > maxLiquidityRate) {
+    reasons.push(`supply rate ${formatRayPercent(liquidityRate)} is above 40% of the max variable borrow rate (${formatRayPercent(maxLiquidityRate)})`);
+  }
+
+  return {
+    user,
+    symbol,
+    token,
+    decimals: decimals ?? (await fetchErc20Decimals(client, token)),
+    stableDebt,
+    userStableRate,
+    marketStableRate,
+    marketVariableRate,
+    userStableAPY: rayRateToAPY(userStableRate),
+    marketStableAPY: rayRateToAPY(marketStableRate),
+    marketVariableAPY: rayRateToAPY(marketVariableRate),
+    usageRatio,
+    liquidityRate,
+    maxLiquidityRate,
+    eligible: reasons.length === 0,
+    reasons,
+  };
+};
+
+/**
+ * Builds LendingPool.rebalanceStableBorrowRate, which resets the user's stable rate to the current market stable rate.
+ * Anyone may call it once the rebalance conditions are met.
+ */
+export const buildRebalanceStep = (network: NetworkKey, status: StableRebalanceStatus): PreparedTransaction => {
+  const data = new Interface(LENDING_POOL_ABI).encodeFunctionData("rebalanceStableBorrowRate", [status.token, status.user]);
+  return {
+    label: `Rebalance ${status.symbol} stable rate of ${status.user}`,
+    tx: buildContractCall(getLendingPoolAddress(network), data, 1_000_000),
+  };
+};
@@ -0,0 +1,144 @@
+import { spyOn } from "bun:test";
+import { Interface, type Result } from "@ethersproject/abi";
+import { ContractCallQuery, type ContractExecuteTransaction } from "@hashgraph/sdk";
+import type { BonzoReserve } from "./bonzo-market-service.js";
+import type { BonzoUserAccountData } from "./bonzo-position-service.js";
+import type { PreparedTransaction } from "./utils.js";
+
+/**
+ * Shared test data: reserves and account data with realistic units
+ */
+
+export const WAD = 10n ** 18n;
+
+/**
+ * Normalized reserve; defaults describe WHBAR at 1 HBAR / $0.20 with no caps
+ */
+export const makeReserve = (overrides: Partial<BonzoReserve> = {}): BonzoReserve => ({
+  id: 1,
+  symbol: "WHBAR",
+  name: "Wrapped HBAR",
+  decimals: 8,
+  htsAddress: "0.0.1456986",
+  evmAddress: "0x0000000000000000000000000000000000163b5a",
+  supplyAPY: 3,
+  variableBorrowAPY: 5,
+  stableBorrowAPY: 8,
+  ltvBps: 7000,
+  liquidationThresholdBps: 7500,
+  liquidationBonusBps: 10500,
+  reserveFactorBps: 1000,
+  availableLiquidityUSD: 1_000_000,
+  totalSupplyUSD: 2_000_000,
+  totalBorrowUSD: 1_000_000,
+  utilizationRate: 50,
+  availableLiquidity: 500_000_000_000_000n,
+  totalSupply: 1_000_000_000_000_000n,
+  totalStableDebt: 0n,
+  totalVariableDebt: 500_000_000_000_000n,
+  supplyCap: 0n,
+  borrowCap: 0n,
+  availableLiquidityUSDWad: 1_000_000n * WAD,
+  totalSupplyUSDWad: 2_000_000n * WAD,
+  totalBorrowUSDWad: 1_000_000n * WAD,
+  isActive: true,
+  isFrozen: false,
+  borrowingEnabled: true,
+  stableBorrowingEnabled: true,
+  priceUSD: 0.2,
+  priceUSDWad: WAD / 5n,
+  priceWeibars: WAD,
+  ...overrides,
+});
+
+/**
+ * USDC at 5 HBAR / $1.00
+ */
+export const makeUsdcReserve = (overrides: Partial<BonzoReserve> = {}): BonzoReserve =>
+  makeReserve({
+    id: 2,
+    symbol: "USDC",
+    name: "USD Coin",
+    decimals: 6,
+    htsAddress: "0.0.456858",
+    evmAddress: "0x000000000000000000000000000000000006f89a",
+    supplyAPY: 6,
+    variableBorrowAPY: 4,
+    ltvBps: 8000,
+    liquidationThresholdBps: 8500,
+    availableLiquidity: 1_000_000_000_000n,
+    totalSupply: 2_000_000_000_000n,
+    totalVariableDebt: 1_000_000_000_000n,
+    priceUSD: 1,
+    priceUSDWad: WAD,
+    priceWeibars: 5n * WAD,
+    ...overrides,
+  });
+
+export const makeAccountData = (overrides: Partial<BonzoUserAccountData> = {}): BonzoUserAccountData => ({
+  totalCollateralETH: 0n,
+  totalDebtETH: 0n,
+  availableBorrowsETH: 0n,
+  currentLiquidationThreshold: 0n,
+  ltv: 0n,
+  healthFactor: 2n ** 256n - 1n,
+  ...overrides,
+});
+
+/**
+ * Read-only contract functions stubbed through mockContractCalls
+ */
+export const ALLOWANCE = "function allowance(address owner, address spender) view returns (uint256)";
+export const BALANCE_OF = "function balanceOf(address account) view returns (uint256)";
+export const GET_ASSET_PRICE = "function getAssetPrice(address asset) view returns (uint256)";
+export const GET_USER_ACCOUNT_DATA =
+  "function getUserAccountData(address user) view returns (uint256 totalCollateralETH, uint256 totalDebtETH, uint256 availableBorrowsETH, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)";
+export const GET_USER_RESERVE_DATA =
+  "function getUserReserveData(address asset, address user) view returns (uint256 currentATokenBalance, uint256 currentStableDebt, uint256 currentVariableDebt, uint256 principalStableDebt, uint256 scaledVariableDebt, uint256 stableBorrowRate, uint256 liquidityRate, uint40 stableRateLastUpdated, bool usageAsCollateralEnabled)";
+export const GET_RESERVE_CONFIGURATION_DATA =
+  "function getReserveConfigurationData(address asset) view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)";
+export const GET_RESERVE_DATA =
+  "function getReserveData(address asset) view returns (uint256 availableLiquidity, uint256 totalStableDebt, uint256 totalVariableDebt, uint256 liquidityRate, uint256 variableBorrowRate, uint256 stableBorrowRate, uint256 averageStableBorrowRate, uint256 liquidityIndex, uint256 variableBorrowIndex, uint40 lastUpdateTimestamp)";
+
+/**
+ * Stubs fetch with mirror node responses keyed by path (e.g. /api/v1/transactions/...); unknown paths return 404
+ */
+export const mockMirrorNode = (routes: Record<string, unknown> | ((path: string) => unknown)) =>
+  spyOn(globalThis, "fetch").mockImplementation((async (input: string | URL | Request) => {
+    const path = new URL(String(input)).pathname + new URL(String(input)).search;
+    const body = typeof routes === "function" ? routes(path) : routes[path];
+    return body !== undefined ? Response.json(body) : Response.json({ _status: { messages: [{ message: "Not found" }] } }, { status: 404 });
+  }) as unknown as typeof fetch);
+
+/**
+ * Stubs ContractCallQuery so read-only calls resolve from `handlers`, keyed by human-readable ABI signature
+ * (e.g. "function balanceOf(address) view returns (uint256)"); any other call rejects
+ */
+export const mockContractCalls = (handlers: Record<string, (args: Result, contract: `0x${string}`) => unknown[]>) => {
+  const routes = Object.entries(handlers).map(([signature, handler]) => {
+    const iface = new Interface([signature]);
+    return { iface, fragment: Object.values(iface.functions)[0]!, handler };
+  });
+  return spyOn(ContractCallQuery.prototype, "execute").mockImplementation((async function (this: ContractCallQuery) {
+    const data = `0x${Buffer.from(this.functionParameters ?? []).toString("hex")}`;
+    const contract = `0x${this.contractId?.toSolidityAddress()}` as const;
+    const route = routes.find(({ iface, fragment }) => data.startsWith(iface.getSighash(fragment)));
+    if (!route) throw new Error(`Unexpected contract call ${data.slice(0, 10)} to ${contract}`);
+    const result = route.iface.encodeFunctionResult(route.fragment, route.handler(route.iface.decodeFunctionData(route.fragment, data), contract));
+    return { bytes: Buffer.from(result.slice(2), "hex") };
+  }) as never);
+};
+
+/**
+ * Decodes a prepared ContractExecuteTransaction step against a human-readable ABI signature
+ */
+export const decodeStep = (step: PreparedTransaction, signature: string) => {
+  const tx = step.tx as ContractExecuteTransaction;
+  const iface = new Interface([signature]);
+  return {
+    contract: `0x${tx.contractId?.toSolidityAddress()}`,
+    gas: tx.gas?.toNumber(),
+    payableTinybars: tx.payableAmount?.toTinybars().toString(),
+    args: iface.decodeFunctionData(Object.values(iface.functions)[0]!, tx.functionParameters!),
+  };
+};
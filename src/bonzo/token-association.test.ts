@@ -0,0 +1,76 @@
+import { afterAll, afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { Client, PrivateKey, TokenAssociateTransaction, TokenId } from "@hashgraph/sdk";
+import { buildAssociationIfNeeded, canReceiveToken, isHtsTokenAddress } from "./token-association.js";
+import { mockMirrorNode } from "./test-fixtures.js";
+
+const usdc = "0x0000000000000000000000000000000000001549";
+const client = Client.forTestnet().setOperator("0.0.1001", PrivateKey.generateED25519());
+afterAll(() => client.close());
+afterEach(() => {
+  mock.restore();
+});
+
+// Mirror node view of an account: explicit relationships and automatic association slots
+const mockAccount = (accountId: string, tokens: { token_id: string; automatic_association: boolean }[], maxAutomatic: number) =>
+  mockMirrorNode((path) => {
+    if (path === `/api/v1/accounts/${accountId}?transactions=false`) return { max_automatic_token_associations: maxAutomatic };
+    if (path === `/api/v1/accounts/${accountId}/tokens?limit=100`) return { tokens, links: { next: null } };
+    const [, tokenId] = path.match(new RegExp(`^/api/v1/accounts/${accountId}/tokens\\?token\\.id=(.+)$`)) ?? [];
+    if (tokenId) return { tokens: tokens.filter((t) => t.token_id === tokenId) };
+    return undefined;
+  });
+
+describe("isHtsTokenAddress", () => {
+  test("accepts long-zero addresses only", () => {
+    expect(isHtsTokenAddress(usdc)).toBe(true);
+    expect(isHtsTokenAddress("0xb1f616b8134f602c3bb465fb5b5e6565ccad37ed")).toBe(false);
+  });
+});
+
+describe("canReceiveToken", () => {
+  const tokenId = TokenId.fromSolidityAddress(usdc);
+
+  test("accepts associated accounts and accounts with free automatic slots", async () => {
+    mockAccount("0.0.1001", [{ token_id: "0.0.5449", automatic_association: false }], 0);
+    expect(await canReceiveToken(client, "0.0.1001", tokenId)).toBe(true);
+    mock.restore();
+
+    mockAccount("0.0.1002", [{ token_id: "0.0.1", automatic_association: true }], 2);
+    expect(await canReceiveToken(client, "0.0.1002", tokenId)).toBe(true);
+    mock.restore();
+
+    mockAccount("0.0.1003", [], -1);
+    expect(await canReceiveToken(client, "0.0.1003", tokenId)).toBe(true);
+  });
+
+  test("rejects accounts without an association or a free slot", async () => {
+    mockAccount("0.0.1001", [{ token_id: "0.0.1", automatic_association: true }], 1);
+    expect(await canReceiveToken(client, "0.0.1001", tokenId)).toBe(false);
+  });
+});
+
+describe("buildAssociationIfNeeded", () => {
+  test("returns an association step for the operator's own account", async () => {
+    mockAccount("0.0.1001", [], 0);
+    const step = await buildAssociationIfNeeded(client, "0.0.1001", usdc, "USDC");
+
+    expect(step?.label).toBe("Associate USDC with 0.0.1001");
+    expect((step?.tx as TokenAssociateTransaction).tokenIds?.map(String)).toEqual(["0.0.5449"]);
+    expect(step?.precondition).toEqual({ type: "association", accountId: "0.0.1001", token: usdc });
+  });
+
+  test("skips non-HTS tokens and accounts that cannot be read", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    mockMirrorNode({});
+
+    expect(await buildAssociationIfNeeded(client, "0.0.1001", "0xb1f616b8134f602c3bb465fb5b5e6565ccad37ed", "WHBARE")).toBeUndefined();
+    expect(await buildAssociationIfNeeded(client, "0.0.1001", usdc, "USDC")).toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+  });
+
+  test("refuses to associate another account", async () => {
+    mockAccount("0.0.2002", [], 0);
+
+    await expect(buildAssociationIfNeeded(client, "0.0.2002", usdc, "USDC")).rejects.toThrow("the account owner must associate the token first");
+  });
+});
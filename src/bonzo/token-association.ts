@@ -0,0 +1,59 @@
+import { AccountId, type Client, TokenAssociateTransaction, TokenId } from "@hashgraph/sdk";
+import { fetchAutomaticAssociations, fetchTokenAssociation } from "./mirror-node.js";
+import { type PreparedTransaction, defaultGasAndFee, evmToHederaAccountId, getNetworkKey } from "./utils.js";
+
+/**
+ * HTS tokens are exposed at long-zero EVM addresses (0x000…<entity num>); plain EVM ERC20 contracts such as
+ * Bonzo aTokens are not HTS tokens and never need an association.
+ */
+export const isHtsTokenAddress = (evmAddress: string): boolean => /^0x0{24}[0-9a-fA-F]{16}$/.test(evmAddress);
+
+/**
+ * Whether an account can receive an HTS token: an explicit relationship, unlimited automatic associations (-1),
+ * or a free automatic association slot. Read from the mirror node, since consensus nodes no longer return
+ * token relationships in AccountInfoQuery.
+ */
+export const canReceiveToken = async (client: Client, accountId: string, tokenId: TokenId): Promise<boolean> => {
+  const network = getNetworkKey(client);
+  if (await fetchTokenAssociation(network, accountId, tokenId.toString())) return true;
+
+  const { max, used } = await fetchAutomaticAssociations(network, accountId);
+  return max === -1 || used < max;
+};
+
+/**
+ * Returns a TokenAssociateTransaction step when `accountId` must be associated with the token before receiving it.
+ * Non-HTS tokens and accounts whose info cannot be read are skipped. Only the signing account can associate itself,
+ * so a missing association on another account is reported as an error. The step is skipped at run time if the
+ * association has appeared meanwhile.
+ */
+export const buildAssociationIfNeeded = async (
+  client: Client,
+  accountId: string,
+  tokenEvm: `0x${string}`,
+  symbol: string
+): Promise<PreparedTransaction | undefined> => {
+  if (!isHtsTokenAddress(tokenEvm)) return undefined;
+
+  const tokenId = TokenId.fromSolidityAddress(tokenEvm);
+  let receivable: boolean;
+  try {
+    receivable = await canReceiveToken(client, accountId, tokenId);
+  } catch (error) {
+    console.warn("[BonzoAssociation] Association check failed:", error instanceof Error ? error.message : error);
+    return undefined;
+  }
+  if (receivable) return undefined;
+
+  if (client.operatorAccountId?.toString() !== accountId) {
+    throw new Error(
+      `Account ${accountId} is not associated with ${symbol} (${evmToHederaAccountId(tokenEvm)}); the account owner must associate the token first`
+    );
+  }
+
+  const tx = new TokenAssociateTransaction()
+    .setAccountId(AccountId.fromString(accountId))
+    .setTokenIds([tokenId])
+    .setMaxTransactionFee(defaultGasAndFee("light").fee);
+  return { label: `Associate ${symbol} with ${accountId}`, tx, precondition: { type: "association", accountId, token: tokenEvm } };
+};
@@ -0,0 +1,171 @@
+import { afterAll, afterEach, describe, expect, mock, test } from "bun:test";
+import { Client } from "@hashgraph/sdk";
+import { type UnwindPosition, fetchUnwindPosition, planUnwind } from "./unwind.js";
+import {
+  BALANCE_OF,
+  GET_ASSET_PRICE,
+  GET_RESERVE_CONFIGURATION_DATA,
+  GET_USER_ACCOUNT_DATA,
+  GET_USER_RESERVE_DATA,
+  WAD,
+  makeAccountData,
+  mockContractCalls,
+} from "./test-fixtures.js";
+import { getTokenAddresses, maxUint256 } from "./utils.js";
+
+const minHealthFactor = (6n * WAD) / 5n;
+// 1000 WHBAR supplied at a 75% threshold against 500 WHBAR of debt: health factor 1.5
+const position: UnwindPosition = {
+  collateralSymbol: "WHBAR",
+  collateralToken: "0x0000000000000000000000000000000000163b5a",
+  collateralDecimals: 8,
+  collateralPrice: WAD,
+  collateralThreshold: 7500n,
+  supplied: 100_000_000_000n,
+  debtSymbol: "WHBAR",
+  debtToken: "0x0000000000000000000000000000000000163b5a",
+  debtDecimals: 8,
+  debtPrice: WAD,
+  rateMode: "variable",
+  debt: 50_000_000_000n,
+  accountData: makeAccountData({ totalCollateralETH: 1000n * WAD, currentLiquidationThreshold: 7500n, ltv: 7000n, totalDebtETH: 500n * WAD }),
+};
+
+describe("planUnwind", () => {
+  test("closes the debt while keeping the health factor at or above the minimum", () => {
+    const plan = planUnwind({ position, minHealthFactor, maxSteps: 10 });
+
+    expect(plan.startHealthFactor).toBe((3n * WAD) / 2n);
+    expect(plan.closes).toBe(true);
+    expect(plan.limitedBy).toBe("closed");
+    expect(plan.sameAsset).toBe(true);
+    for (const step of plan.steps) {
+      expect(step.healthFactorAfterWithdraw).toBeGreaterThanOrEqual(minHealthFactor);
+      expect(step.healthFactorAfterRepay).toBeGreaterThanOrEqual(step.healthFactorAfterWithdraw);
+    }
+    // The first withdraw takes the account exactly to the minimum: 1000 × 75% - 1.2 × 500 = 150 weighted, i.e. 200 WHBAR
+    expect(plan.steps[0]!.withdrawAmount).toBe(20_000_000_000n);
+    expect(plan.steps.at(-1)!.repayAmount).toBe(maxUint256);
+    expect(plan.steps.at(-1)!.remainingDebt).toBe(0n);
+    expect(plan.finalHealthFactor).toBe(maxUint256);
+    expect(plan.withdrawRemaining).toBe(true);
+  });
+
+  test("stops once the target health factor is reached", () => {
+    const targetHealthFactor = 2n * WAD;
+    const plan = planUnwind({ position, minHealthFactor, targetHealthFactor, maxSteps: 10 });
+
+    expect(plan.limitedBy).toBe("target health factor");
+    expect(plan.closes).toBe(false);
+    expect(plan.withdrawRemaining).toBe(false);
+    expect(plan.finalHealthFactor).toBeGreaterThanOrEqual(targetHealthFactor);
+    expect(plan.steps.at(-1)!.repayAmount).not.toBe(maxUint256);
+  });
+
+  test("converts between assets at oracle prices", () => {
+    // 100 USDC of debt at 5 HBAR each
+    const plan = planUnwind({
+      position: { ...position, debtSymbol: "USDC", debtToken: "0x000000000000000000000000000000000006f89a", debtDecimals: 6, debtPrice: 5n * WAD, debt: 100_000_000n },
+      minHealthFactor,
+      maxSteps: 10,
+    });
+    const [first] = plan.steps;
+
+    expect(plan.sameAsset).toBe(false);
+    expect(first!.withdrawAmount).toBe(20_000_000_000n);
+    expect(first!.repayAmount).toBe(40_000_000n);
+    expect(first!.remainingDebt).toBe(60_000_000n);
+    expect(plan.closes).toBe(true);
+  });
+
+  test("does not withdraw when the health factor is already at the minimum", () => {
+    const plan = planUnwind({ position, minHealthFactor: (3n * WAD) / 2n, maxSteps: 10 });
+
+    expect(plan.steps).toHaveLength(0);
+    expect(plan.limitedBy).toBe("health factor");
+  });
+
+  test("withdraws freely when the supply is not collateral", () => {
+    const plan = planUnwind({
+      position: { ...position, collateralThreshold: 0n, accountData: { ...position.accountData, totalCollateralETH: 0n } },
+      minHealthFactor,
+      maxSteps: 10,
+    });
+
+    expect(plan.steps).toHaveLength(1);
+    expect(plan.closes).toBe(true);
+  });
+
+  test("stops after maxSteps", () => {
+    const plan = planUnwind({ position, minHealthFactor, maxSteps: 1 });
+
+    expect(plan.steps).toHaveLength(1);
+    expect(plan.limitedBy).toBe("max steps");
+    expect(plan.closes).toBe(false);
+  });
+
+  test("stops when the collateral runs out", () => {
+    const plan = planUnwind({
+      position: { ...position, collateralThreshold: 0n, supplied: 10_000_000_000n, accountData: { ...position.accountData, totalCollateralETH: 0n } },
+      minHealthFactor,
+      maxSteps: 10,
+    });
+
+    expect(plan.limitedBy).toBe("collateral");
+    expect(plan.steps.at(-1)!.remainingDebt).toBe(40_000_000_000n);
+  });
+});
+
+describe("fetchUnwindPosition", () => {
+  const client = Client.forTestnet();
+  const user = "0x0000000000000000000000000000000000001234";
+  const usdc = getTokenAddresses("USDC", "hedera_testnet").token.toLowerCase();
+  afterAll(() => client.close());
+  afterEach(() => {
+    mock.restore();
+  });
+
+  // WHBAR supplied against variable USDC debt; `usageAsCollateralEnabled` applies to the WHBAR supply
+  const mockPosition = ({ supplied = 100_000_000_000n, debt = 100_000_000n, usageAsCollateralEnabled = true } = {}) =>
+    mockContractCalls({
+      [BALANCE_OF]: () => [debt],
+      [GET_USER_RESERVE_DATA]: ([asset]) =>
+        asset.toLowerCase() === usdc ? [0n, 0n, debt, 0n, 0n, 0n, 0n, 0, false] : [supplied, 0n, 0n, 0n, 0n, 0n, 0n, 0, usageAsCollateralEnabled],
+      [GET_USER_ACCOUNT_DATA]: () => [1000n * WAD, 500n * WAD, 0n, 7500n, 7000n, (3n * WAD) / 2n],
+      [GET_ASSET_PRICE]: ([asset]) => [asset.toLowerCase() === usdc ? 5n * WAD : WAD],
+      [GET_RESERVE_CONFIGURATION_DATA]: () => [8n, 7000n, 7500n, 10500n, 1000n, true, true, true, true, false],
+    });
+
+  test("reads both legs of the position", async () => {
+    mockPosition();
+    const fetched = await fetchUnwindPosition(client, "hedera_testnet", user, "WHBAR", "USDC", "variable", 8, 6);
+
+    expect(fetched).toMatchObject({
+      collateralSymbol: "WHBAR",
+      collateralPrice: WAD,
+      collateralThreshold: 7500n,
+      supplied: 100_000_000_000n,
+      debtSymbol: "USDC",
+      debtDecimals: 6,
+      debtPrice: 5n * WAD,
+      debt: 100_000_000n,
+    });
+    expect(fetched.debtToken.toLowerCase()).toBe(usdc);
+    expect(fetched.accountData.healthFactor).toBe((3n * WAD) / 2n);
+  });
+
+  test("treats a supply that is not collateral as threshold 0", async () => {
+    mockPosition({ usageAsCollateralEnabled: false });
+
+    expect((await fetchUnwindPosition(client, "hedera_testnet", user, "WHBAR", "USDC", "variable", 8, 6)).collateralThreshold).toBe(0n);
+  });
+
+  test("refuses without debt or supply", async () => {
+    mockPosition({ debt: 0n });
+    await expect(fetchUnwindPosition(client, "hedera_testnet", user, "WHBAR", "USDC", "variable", 8, 6)).rejects.toThrow("No variable USDC debt");
+    mock.restore();
+
+    mockPosition({ supplied: 0n });
+    await expect(fetchUnwindPosition(client, "hedera_testnet", user, "WHBAR", "USDC", "variable", 8, 6)).rejects.toThrow("No supplied WHBAR");
+  });
+});
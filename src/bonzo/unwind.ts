@@ -0,0 +1,191 @@
+import type { Client } from "@hashgraph/sdk";
+import { BonzoPositionService, type BonzoUserAccountData } from "./bonzo-position-service.js";
+import { fetchAssetPrice, fetchReserveConfiguration, toBaseCurrency } from "./health-factor.js";
+import { withAccrualBuffer } from "./hbar-gateway.js";
+import { fetchDebtBalance } from "./repay-from-collateral.js";
+import { type NetworkKey, type RateMode, maxUint256 } from "./utils.js";
+
+const WAD = 10n ** 18n;
+const BPS = 10_000n;
+
+export type UnwindLimit = "closed" | "target health factor" | "health factor" | "collateral" | "max steps";
+
+/**
+ * Live state of a collateral/debt pair to unwind, plus the account it belongs to
+ */
+export interface UnwindPosition {
+  collateralSymbol: string;
+  collateralToken: `0x${string}`;
+  collateralDecimals: number;
+  collateralPrice: bigint;
+  collateralThreshold: bigint; // basis points; 0 when the supply is not used as collateral
+  supplied: bigint;
+  debtSymbol: string;
+  debtToken: `0x${string}`;
+  debtDecimals: number;
+  debtPrice: bigint;
+  rateMode: RateMode;
+  debt: bigint;
+  accountData: BonzoUserAccountData;
+}
+
+/**
+ * One withdraw → repay round. The repay amount is uint256 max when the round closes the debt.
+ */
+export interface UnwindStep {
+  step: number;
+  withdrawAmount: bigint; // smallest units of the collateral asset
+  repayAmount: bigint; // smallest units of the debt asset
+  healthFactorAfterWithdraw: bigint;
+  healthFactorAfterRepay: bigint;
+  remainingDebt: bigint; // smallest units of the debt asset
+}
+
+export interface UnwindPlan {
+  steps: UnwindStep[];
+  sameAsset: boolean;
+  limitedBy: UnwindLimit;
+  closes: boolean;
+  withdrawRemaining: boolean; // a final withdraw of the whole remaining supply once no debt is left on the account
+  startHealthFactor: bigint;
+  finalHealthFactor: bigint;
+}
+
+export interface UnwindPlanInputs {
+  position: UnwindPosition;
+  minHealthFactor: bigint;
+  targetHealthFactor?: bigint;
+  maxSteps: number;
+}
+
+const fromBase = (value: bigint, price: bigint, decimals: number): bigint => (price > 0n ? (value * 10n ** BigInt(decimals)) / price : 0n);
+
+/**
+ * Reads the supplied collateral, the debt including accrued interest, prices and thresholds needed to plan an unwind
+ */
+export const fetchUnwindPosition = async (
+  client: Client,
+  network: NetworkKey,
+  user: `0x${string}`,
+  collateralSymbol: string,
+  debtSymbol: string,
+  rateMode: RateMode,
+  collateralDecimals?: number,
+  debtDecimals?: number
+): Promise<UnwindPosition> => {
+  const debt = await fetchDebtBalance(client, network, debtSymbol, user, rateMode);
+  if (debt === 0n) throw new Error(`No ${rateMode} ${debtSymbol} debt to unwind`);
+  const collateral = await BonzoPositionService.fetchUserReserveData(client, network, collateralSymbol, user, collateralDecimals);
+  if (collateral.currentATokenBalance === 0n) throw new Error(`No supplied ${collateralSymbol} to unwind from`);
+  const debtReserve = await BonzoPositionService.fetchUserReserveData(client, network, debtSymbol, user, debtDecimals);
+
+  const config = await fetchReserveConfiguration(client, network, collateral.token);
+  return {
+    collateralSymbol,
+    collateralToken: collateral.token,
+    collateralDecimals: collateral.decimals,
+    collateralPrice: await fetchAssetPrice(client, network, collateral.token),
+    collateralThreshold: collateral.usageAsCollateralEnabled ? config.liquidationThreshold : 0n,
+    supplied: collateral.currentATokenBalance,
+    debtSymbol,
+    debtToken: debtReserve.token,
+    debtDecimals: debtReserve.decimals,
+    debtPrice: await fetchAssetPrice(client, network, debtReserve.token),
+    rateMode,
+    debt,
+    accountData: await BonzoPositionService.fetchUserAccountData(client, network, user),
+  };
+};
+
+/**
+ * Plans withdraw → repay rounds that close the debt, or stop once `targetHealthFactor` is reached. Each withdraw is the
+ * smallest of: what keeps the health factor at or above `minHealthFactor` with the debt still outstanding, what the next
+ * repay needs, and the remaining supply. Closing the debt withdraws it plus an accrual margin and repays with uint256 max.
+ * Different assets are converted at oracle prices.
+ */
+export const planUnwind = (inputs: UnwindPlanInputs): UnwindPlan => {
+  const { position, minHealthFactor, targetHealthFactor, maxSteps } = inputs;
+  const { collateralPrice, collateralDecimals, collateralThreshold, debtPrice, debtDecimals, accountData } = position;
+  const sameAsset = position.collateralSymbol.toUpperCase() === position.debtSymbol.toUpperCase();
+
+  let weightedThreshold = accountData.totalCollateralETH * accountData.currentLiquidationThreshold;
+  let totalDebt = accountData.totalDebtETH;
+  let supplied = position.supplied;
+  let debt = position.debt;
+
+  const healthFactor = () => (totalDebt <= 0n ? maxUint256 : (weightedThreshold * WAD) / BPS / totalDebt);
+  const toCollateral = (debtAmount: bigint) => fromBase(toBaseCurrency(debtAmount, debtPrice, debtDecimals), collateralPrice, collateralDecimals) + 1n;
+  const startHealthFactor = healthFactor();
+  // Debt in other reserves blocks withdrawing the whole remaining supply; tolerate base-currency rounding dust
+  const otherDebt = accountData.totalDebtETH - toBaseCurrency(position.debt, debtPrice, debtDecimals);
+
+  const steps: UnwindStep[] = [];
+  let limitedBy: UnwindLimit = "max steps";
+  for (let step = 1; step <= maxSteps + 1; step++) {
+    if (debt === 0n) {
+      limitedBy = "closed";
+      break;
+    }
+    if (targetHealthFactor !== undefined && healthFactor() >= targetHealthFactor) {
+      limitedBy = "target health factor";
+      break;
+    }
+    if (step > maxSteps) break;
+    if (supplied === 0n) {
+      limitedBy = "collateral";
+      break;
+    }
+
+    // Base-currency repay that lifts the health factor to the target: (W - r·t) / (D - r) = target
+    let needed = toCollateral(withAccrualBuffer(debt));
+    if (targetHealthFactor !== undefined) {
+      const targetBps = (targetHealthFactor * BPS) / WAD;
+      const repayETH = ((targetHealthFactor * totalDebt * BPS) / WAD - weightedThreshold + (targetBps - collateralThreshold - 1n)) / (targetBps - collateralThreshold);
+      const partial = toCollateral(fromBase(repayETH, debtPrice, debtDecimals) + 1n);
+      if (partial < needed) needed = partial;
+    }
+
+    let allowed = supplied;
+    if (collateralThreshold > 0n) {
+      const headroom = weightedThreshold - (minHealthFactor * totalDebt * BPS) / WAD;
+      allowed = headroom > 0n ? fromBase(headroom / collateralThreshold, collateralPrice, collateralDecimals) : 0n;
+    }
+
+    const withdrawAmount = [needed, allowed, supplied].reduce((min, value) => (value < min ? value : min));
+    if (withdrawAmount === 0n) {
+      limitedBy = "health factor";
+      break;
+    }
+
+    const withdrawETH = toBaseCurrency(withdrawAmount, collateralPrice, collateralDecimals);
+    weightedThreshold -= withdrawETH * collateralThreshold;
+    supplied -= withdrawAmount;
+    const healthFactorAfterWithdraw = healthFactor();
+
+    const repayable = sameAsset ? withdrawAmount : fromBase(withdrawETH, debtPrice, debtDecimals);
+    const closes = repayable >= debt;
+    const repaid = closes ? debt : repayable;
+    totalDebt -= toBaseCurrency(repaid, debtPrice, debtDecimals);
+    debt -= repaid;
+
+    steps.push({
+      step,
+      withdrawAmount,
+      repayAmount: closes ? maxUint256 : repaid,
+      healthFactorAfterWithdraw,
+      healthFactorAfterRepay: healthFactor(),
+      remainingDebt: debt,
+    });
+  }
+
+  const closes = debt === 0n;
+  return {
+    steps,
+    sameAsset,
+    limitedBy,
+    closes,
+    withdrawRemaining: closes && targetHealthFactor === undefined && otherDebt <= WAD / 1_000_000n && supplied > 0n,
+    startHealthFactor,
+    finalHealthFactor: healthFactor(),
+  };
+};
@@ -1,7 +1,9 @@
-import { AccountId, Client, ContractExecuteTransaction, ContractId, Hbar, ContractCallQuery, AccountInfoQuery } from "@hashgraph/sdk";
+import { AccountId, Client, ContractExecuteTransaction, ContractId, Hbar, ContractCallQuery, AccountInfoQuery, type Transaction } from "@hashgraph/sdk";
+import { Interface, type Result } from "@ethersproject/abi";
 import BigNumber from "bignumber.js";
 import { readFileSync } from "fs";
 import path from "path";
+import type { StepPrecondition } from "./plan-executor.js";
 
 export type NetworkKey = "hedera_mainnet" | "hedera_testnet";
 
@@ -18,6 +20,13 @@ export const toWei = (amount: string | number, decimals: number): bigint => {
   return BigInt(wei.integerValue(BigNumber.ROUND_DOWN).toFixed(0));
 };
 
+/**
+ * Converts an integer amount in smallest units back to a human-readable decimal string
+ */
+export const fromWei = (amount: bigint | string, decimals: number): string => {
+  return new BigNumber(amount.toString()).shiftedBy(-decimals).toFixed();
+};
+
 export const maxUint256 = BigInt("0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff");
 
 export const handleResponse = <T>(raw: T, humanMessage: string) => {
@@ -84,10 +93,35 @@ export const formatAddress = (evmAddress: string): string => {
   return `${hederaAccountId} (${evmAddress})`;
 };
 
-export const buildTxBytes = async (tx: ContractExecuteTransaction, client: Client): Promise<Buffer> => {
-  const frozen = await tx.freezeWith(client);
-  const bytes = frozen.toBytes();
-  return Buffer.from(bytes);
+/**
+ * A transaction with a short human-readable label, used for multi-step flows
+ */
+export type PreparedTransaction = {
+  label: string;
+  tx: Transaction;
+  precondition?: StepPrecondition;
+};
+
+/**
+ * Builds a ContractExecuteTransaction for ABI-encoded call data, optionally attaching HBAR (tinybars) as msg.value.
+ * The max transaction fee defaults to the heavy profile.
+ */
+export const buildContractCall = (
+  target: `0x${string}`,
+  data: string,
+  gas: number,
+  payableTinybars?: bigint,
+  maxTransactionFee: Hbar = defaultGasAndFee("heavy").fee
+): ContractExecuteTransaction => {
+  const tx = new ContractExecuteTransaction()
+    .setContractId(contractIdFromEvm(target))
+    .setGas(gas)
+    .setFunctionParameters(Buffer.from(data.slice(2), "hex"))
+    .setMaxTransactionFee(maxTransactionFee);
+  if (payableTinybars !== undefined) {
+    tx.setPayableAmount(Hbar.fromTinybars(payableTinybars.toString()));
+  }
+  return tx;
 };
 
 // Contracts JSON helpers
@@ -122,23 +156,31 @@ export const getTokenAddresses = (symbol: string, network: NetworkKey) => {
   };
 };
 
-export const getLendingPoolAddress = (network: NetworkKey): `0x${string}` => {
+/**
+ * Resolves a core protocol contract (e.g. "AaveProtocolDataProvider") from the contracts JSON
+ */
+export const getContractAddress = (name: string, network: NetworkKey): `0x${string}` => {
   const contracts = loadContracts();
-  const addr = (contracts?.["LendingPool"]?.[network]?.address || "") as string;
-  if (!addr) throw new Error(`LendingPool address not found for network ${network}`);
+  const addr = (contracts?.[name]?.[network]?.address || "") as string;
+  if (!addr) throw new Error(`${name} address not found for network ${network}`);
   return addr as `0x${string}`;
 };
 
+export const getLendingPoolAddress = (network: NetworkKey): `0x${string}` => {
+  return getContractAddress("LendingPool", network);
+};
+
 export const defaultGasAndFee = (kind: "light" | "heavy") => {
   const envLight = Number(process.env.BONZO_GAS_LIGHT || "");
   const envHeavy = Number(process.env.BONZO_GAS_HEAVY || "");
   const envFee = Number(process.env.BONZO_MAX_FEE_HBAR || "");
 
   const gas =
-    Number.isFinite(envLight) && kind === "light"
-      ? Math.max(0, Math.trunc(envLight))
-      : Number.isFinite(envHeavy) && kind === "heavy"
-      ? Math.max(0, Math.trunc(envHeavy))
+    // Unset variables read as 0, so only positive overrides replace the defaults
+    envLight > 0 && kind === "light"
+      ? Math.trunc(envLight)
+      : envHeavy > 0 && kind === "heavy"
+      ? Math.trunc(envHeavy)
       : kind === "light"
       ? 6_000_000 // Increased to 6M for ERC20 operations on Hedera
       : 10_000_000; // Increased to 10M for complex operations
@@ -181,6 +223,26 @@ export const fetchErc20Decimals = async (client: Client, tokenEvm: `0x${string}`
   }
 };
 
+/**
+ * Executes a read-only contract call via ContractCallQuery and decodes the result
+ */
+export const queryContract = async (
+  client: Client,
+  contractEvm: `0x${string}`,
+  iface: Interface,
+  functionName: string,
+  args: unknown[] = [],
+  gas = 200_000
+): Promise<Result> => {
+  const data = iface.encodeFunctionData(functionName, args);
+  const query = new ContractCallQuery()
+    .setContractId(contractIdFromEvm(contractEvm))
+    .setGas(gas)
+    .setFunctionParameters(Buffer.from(data.slice(2), "hex"));
+  const res = await query.execute(client);
+  return iface.decodeFunctionResult(functionName, Buffer.from(res.bytes));
+};
+
 /**
  * Mainnet LendingPool address constant
  */
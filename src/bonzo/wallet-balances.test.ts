@@ -0,0 +1,65 @@
+import { afterAll, afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { AccountBalanceQuery, AccountInfoQuery, Client, Hbar } from "@hashgraph/sdk";
+import { BonzoMarketService } from "./bonzo-market-service.js";
+import { GET_RESERVE_CONFIGURATION_DATA, makeReserve, makeUsdcReserve, mockContractCalls } from "./test-fixtures.js";
+import { getTokenAddresses } from "./utils.js";
+import { fetchWalletBalances } from "./wallet-balances.js";
+
+const GET_USER_WALLET_BALANCES = "function getUserWalletBalances(address provider, address user) view returns (address[] tokens, uint256[] balances)";
+const DECIMALS = "function decimals() view returns (uint8)";
+const MOCK_ETH = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+const whbar = getTokenAddresses("WHBAR", "hedera_testnet").token;
+const usdc = getTokenAddresses("USDC", "hedera_testnet").token;
+
+const client = Client.forTestnet();
+afterAll(() => client.close());
+afterEach(() => {
+  mock.restore();
+  BonzoMarketService.configure("hedera_testnet", { baseUrl: undefined });
+});
+
+// 0.0.1001 without an EVM alias, holding 10 HBAR, `wrapped` WHBAR and `usdcBalance` USDC
+const mockWallet = (wrapped: bigint, usdcBalance: bigint, config: Record<string, bigint[]> = {}) => {
+  spyOn(AccountInfoQuery.prototype, "execute").mockRejectedValue(new Error("no alias"));
+  spyOn(AccountBalanceQuery.prototype, "execute").mockResolvedValue({ hbars: Hbar.fromTinybars(1_000_000_000) } as never);
+  return mockContractCalls({
+    [GET_USER_WALLET_BALANCES]: () => [
+      [whbar, usdc, MOCK_ETH],
+      [wrapped, usdcBalance, 5n],
+    ],
+    [DECIMALS]: (_args, contract) => [contract === usdc ? 6 : 8],
+    [GET_RESERVE_CONFIGURATION_DATA]: ([asset]) => {
+      const [isActive, isFrozen] = config[asset.toLowerCase()] ?? [1n, 0n];
+      return [8n, 7000n, 7500n, 10500n, 1000n, true, true, false, isActive === 1n, isFrozen === 1n];
+    },
+  });
+};
+
+describe("fetchWalletBalances", () => {
+  test("annotates wallet balances with supply APY and USD value from market data", async () => {
+    mockWallet(50_000_000n, 2_500_000n);
+    spyOn(BonzoMarketService.prototype, "fetchAllReserves").mockResolvedValue([makeReserve(), makeUsdcReserve({ isFrozen: true })]);
+    BonzoMarketService.configure("hedera_testnet", { baseUrl: "https://bonzo.test/market" });
+    const balances = await fetchWalletBalances(client, "hedera_testnet", "0.0.1001");
+
+    expect(balances.map((b) => b.symbol)).toEqual(["WHBAR", "USDC", "HBAR"]);
+    expect(balances[0]).toMatchObject({ decimals: 8, balance: 50_000_000n, supplyable: true, supplyAPY: 3 });
+    expect(balances[0]!.token?.toLowerCase()).toBe(whbar);
+    expect(balances[0]!.usdValue).toBeCloseTo(0.1);
+    expect(balances[1]).toMatchObject({ decimals: 6, balance: 2_500_000n, supplyable: false, usdValue: 2.5 });
+    expect(balances[2]).toMatchObject({ decimals: 8, balance: 1_000_000_000n, supplyable: true, supplyAPY: 3 });
+    expect(balances[2]!.usdValue).toBeCloseTo(2);
+  });
+
+  test("reads decimals and supplyability from chain when market data is unavailable", async () => {
+    const calls = mockWallet(0n, 2_500_000n, { [usdc.toLowerCase()]: [1n, 1n] });
+    const balances = await fetchWalletBalances(client, "hedera_testnet", "0.0.1001");
+
+    expect(balances[0]).toMatchObject({ symbol: "WHBAR", decimals: 8, balance: 0n, supplyable: false, usdValue: undefined });
+    expect(balances[1]).toMatchObject({ symbol: "USDC", decimals: 6, supplyable: false });
+    expect(balances[2]).toMatchObject({ symbol: "HBAR", supplyable: true, supplyAPY: undefined });
+    // Only the non-zero balance needs the reserve configuration
+    expect(calls).toHaveBeenCalledTimes(4);
+  });
+});
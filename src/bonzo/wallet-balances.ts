@@ -0,0 +1,95 @@
+import { AccountBalanceQuery, AccountId, type Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import { type BonzoReserve, BonzoMarketService } from "./bonzo-market-service.js";
+import { fetchReserveConfiguration } from "./health-factor.js";
+import { HBAR_DECIMALS, HBAR_SYMBOL, WRAPPED_HBAR_SYMBOL } from "./hbar-gateway.js";
+import {
+  type NetworkKey,
+  fetchErc20Decimals,
+  fromWei,
+  getAvailableSymbols,
+  getContractAddress,
+  getEvmAliasAddress,
+  getTokenAddresses,
+  queryContract,
+} from "./utils.js";
+
+/**
+ * Wallet (not supplied) balance of a reserve token, annotated with what it would earn on Bonzo
+ */
+export interface WalletBalance {
+  symbol: string;
+  token?: `0x${string}`;
+  decimals: number;
+  balance: bigint;
+  supplyable: boolean;
+  supplyAPY?: number; // percent
+  usdValue?: number;
+}
+
+const WALLET_BALANCE_PROVIDER_ABI = [
+  "function getUserWalletBalances(address provider, address user) view returns (address[] tokens, uint256[] balances)",
+];
+
+const usdValueOf = (balance: bigint, decimals: number, reserve?: BonzoReserve): number | undefined => {
+  if (!reserve) return undefined;
+  return Number(fromWei((balance * reserve.priceUSDWad) / 10n ** BigInt(decimals), 18));
+};
+
+/**
+ * Reads wallet balances for every reserve token in one WalletBalanceProvider.getUserWalletBalances call, plus native HBAR
+ * via AccountBalanceQuery. Each balance is annotated from market data (supply APY, USD value); when market data is
+ * unavailable, supplyability falls back to the on-chain reserve configuration.
+ */
+export const fetchWalletBalances = async (client: Client, network: NetworkKey, accountId: string): Promise<WalletBalance[]> => {
+  const user = await getEvmAliasAddress(client, accountId);
+  const provider = getContractAddress("LendingPoolAddressesProvider", network);
+  const walletBalanceProvider = getContractAddress("WalletBalanceProvider", network);
+
+  const res = await queryContract(client, walletBalanceProvider, new Interface(WALLET_BALANCE_PROVIDER_ABI), "getUserWalletBalances", [provider, user], 2_000_000);
+  const tokens = res[0] as string[];
+  const balances = (res[1] as { toString(): string }[]).map((b) => BigInt(b.toString()));
+
+  let reserves: BonzoReserve[] | undefined;
+  try {
+    reserves = await BonzoMarketService.forNetwork(network).fetchAllReserves();
+  } catch {}
+  const reserveBySymbol = new Map((reserves ?? []).map((r) => [r.symbol.toUpperCase(), r]));
+
+  const symbolByToken = new Map(getAvailableSymbols(network).map((symbol) => [getTokenAddresses(symbol, network).token.toLowerCase(), symbol]));
+
+  const result: WalletBalance[] = [];
+  for (const [index, tokenAddress] of tokens.entries()) {
+    // Unknown entries include the provider's mock ETH address; native HBAR is read separately below
+    const symbol = symbolByToken.get(tokenAddress.toLowerCase());
+    if (!symbol) continue;
+
+    const token = tokenAddress as `0x${string}`;
+    const balance = balances[index] ?? 0n;
+    const reserve = reserveBySymbol.get(symbol.toUpperCase());
+    const decimals = reserve?.decimals ?? (await fetchErc20Decimals(client, token));
+
+    let supplyable = reserve !== undefined && reserve.isActive && !reserve.isFrozen;
+    if (!reserves && balance > 0n) {
+      const config = await fetchReserveConfiguration(client, network, token);
+      supplyable = config.isActive && !config.isFrozen;
+    }
+
+    result.push({ symbol, token, decimals, balance, supplyable, supplyAPY: reserve?.supplyAPY, usdValue: usdValueOf(balance, decimals, reserve) });
+  }
+
+  // Native HBAR is supplied as WHBAR through the WETHGateway
+  const hbar = await new AccountBalanceQuery().setAccountId(AccountId.fromString(accountId)).execute(client);
+  const hbarBalance = BigInt(hbar.hbars.toTinybars().toString());
+  const wrapped = reserveBySymbol.get(WRAPPED_HBAR_SYMBOL);
+  result.push({
+    symbol: HBAR_SYMBOL,
+    decimals: HBAR_DECIMALS,
+    balance: hbarBalance,
+    supplyable: (wrapped !== undefined && wrapped.isActive && !wrapped.isFrozen) || (!reserves && getAvailableSymbols(network).includes(WRAPPED_HBAR_SYMBOL)),
+    supplyAPY: wrapped?.supplyAPY,
+    usdValue: usdValueOf(hbarBalance, HBAR_DECIMALS, wrapped),
+  });
+
+  return result;
+};
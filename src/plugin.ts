@@ -5,12 +5,25 @@ import deposit, { BONZO_DEPOSIT_TOOL } from "./tools/deposit.ts";
 import withdraw, { BONZO_WITHDRAW_TOOL } from "./tools/withdraw.ts";
 import borrow, { BONZO_BORROW_TOOL } from "./tools/borrow.ts";
 import repay, { BONZO_REPAY_TOOL } from "./tools/repay.ts";
+import userPosition, { BONZO_USER_POSITION_TOOL } from "./tools/user-position.ts";
+import strategy, { BONZO_STRATEGY_TOOL } from "./tools/strategy.ts";
+import walletBalance, { BONZO_WALLET_BALANCE_TOOL } from "./tools/wallet-balance.ts";
+import swapRateMode, { BONZO_SWAP_RATE_MODE_TOOL } from "./tools/swap-rate-mode.ts";
+import setCollateral, { BONZO_SET_COLLATERAL_TOOL } from "./tools/set-collateral.ts";
+import liquidation, { BONZO_LIQUIDATION_TOOL } from "./tools/liquidation.ts";
+import liquidationScan, { BONZO_LIQUIDATION_SCAN_TOOL } from "./tools/liquidation-scan.ts";
+import flashLoan, { BONZO_FLASH_LOAN_TOOL } from "./tools/flash-loan.ts";
+import rebalanceStableRate, { BONZO_REBALANCE_STABLE_RATE_TOOL } from "./tools/rebalance-stable-rate.ts";
+import repayFromCollateral, { BONZO_REPAY_FROM_COLLATERAL_TOOL } from "./tools/repay-from-collateral.ts";
+import loop, { BONZO_LOOP_TOOL } from "./tools/loop.ts";
+import unwind, { BONZO_UNWIND_TOOL } from "./tools/unwind.ts";
+import resumePlan, { BONZO_RESUME_PLAN_TOOL } from "./tools/resume-plan.ts";
 
 // Export the plugin
 export const bonzoPlugin: Plugin = {
   name: "bonzo-plugin",
   version: "1.0.0",
-  description: "Bonzo Finance plugin: market data, approve, deposit, withdraw, borrow, repay",
+  description: "Bonzo Finance plugin: market data, approve, deposit, withdraw, borrow, repay, user position, strategy, wallet balance, swap rate mode, set collateral, liquidation, liquidation scan, flash loan, stable rate rebalance, repay from collateral, leverage loop, unwind, plan resume",
   tools: (context: Context) => [
     bonzoMarketDataTool(context),
     approveErc20(context),
@@ -18,6 +31,19 @@ export const bonzoPlugin: Plugin = {
     withdraw(context),
     borrow(context),
     repay(context),
+    userPosition(context),
+    strategy(context),
+    walletBalance(context),
+    swapRateMode(context),
+    setCollateral(context),
+    liquidation(context),
+    liquidationScan(context),
+    flashLoan(context),
+    rebalanceStableRate(context),
+    repayFromCollateral(context),
+    loop(context),
+    unwind(context),
+    resumePlan(context),
   ],
 };
 
@@ -29,6 +55,29 @@ export const bonzoPluginToolNames = {
   BONZO_WITHDRAW_TOOL,
   BONZO_BORROW_TOOL,
   BONZO_REPAY_TOOL,
+  BONZO_USER_POSITION_TOOL,
+  BONZO_STRATEGY_TOOL,
+  BONZO_WALLET_BALANCE_TOOL,
+  BONZO_SWAP_RATE_MODE_TOOL,
+  BONZO_SET_COLLATERAL_TOOL,
+  BONZO_LIQUIDATION_TOOL,
+  BONZO_LIQUIDATION_SCAN_TOOL,
+  BONZO_FLASH_LOAN_TOOL,
+  BONZO_REBALANCE_STABLE_RATE_TOOL,
+  BONZO_REPAY_FROM_COLLATERAL_TOOL,
+  BONZO_LOOP_TOOL,
+  BONZO_UNWIND_TOOL,
+  BONZO_RESUME_PLAN_TOOL,
 } as const;
 
+// Export the market data service so hosts can configure custom data sources
+export {
+  BonzoMarketService,
+  InMemoryMarketCacheStore,
+  type BonzoMarketServiceConfig,
+  type BonzoMarketCacheStore,
+  type BonzoMarketCacheEntry,
+  type BonzoMarketValidationMode,
+} from "./bonzo/bonzo-market-service.ts";
+
 export default { bonzoPlugin, bonzoPluginToolNames };
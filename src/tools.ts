@@ -1,15 +1,18 @@
 import type { Tool, Context } from "hedera-agent-kit";
 import { z } from "zod";
-import { BonzoMarketService } from "./bonzo/bonzo-market-service.js";
+import { type BonzoReserve, BonzoMarketService, BonzoServiceError } from "./bonzo/bonzo-market-service.js";
+import { crossCheckReserves, fetchReservesFromChain } from "./bonzo/bonzo-onchain-reserves.js";
 import { Interface } from "@ethersproject/abi";
 import { ContractExecuteTransaction, Hbar, ContractId } from "@hashgraph/sdk";
 import BigNumber from "bignumber.js";
-import { getLendingPoolAddress, formatAddress } from "./bonzo/utils.js";
+import { type NetworkKey, getLendingPoolAddress, getNetworkKey, formatAddress } from "./bonzo/utils.js";
 
 /**
  * Zod schema for Bonzo Market Data Tool parameters
  */
-export const bonzoMarketDataParameters = z.object({}) as any;
+export const bonzoMarketDataParameters = z.object({
+  crossCheck: z.boolean().optional().describe("Also load reserves from chain and report fields that differ from the API"),
+}) as any;
 
 export type BonzoMarketDataParams = z.infer<typeof bonzoMarketDataParameters>;
 
@@ -31,12 +34,18 @@ The tool provides:
 - Current variable borrow APY for each token  
 - Token liquidity information
 - Market utilization rates
-- Mainnet LendingPool contract address (shown as Hedera Account ID (EVM Address) format: 0.0.xxxxx (0x...))
+- LendingPool contract address for the connected network (shown as Hedera Account ID (EVM Address) format: 0.0.xxxxx (0x...))
 - Token addresses (shown as Hedera Account ID (EVM Address) format: 0.0.xxxxx (0x...))
 
-IMPORTANT: When asked about the Bonzo lending pool address on mainnet, you MUST use this tool to get the accurate address. The API returns mainnet data, and this tool includes the mainnet LendingPool address from the contracts configuration.
+Market data is read from the Bonzo data source matching the network the client is connected to (mainnet or testnet).
+
+IMPORTANT: When asked about the Bonzo lending pool address, you MUST use this tool to get the accurate address for the connected network from the contracts configuration.
 
 No parameters required - simply call this tool to get the latest Bonzo market data.
+If the Bonzo API is unreachable, reserves are reconstructed from on-chain state (AaveProtocolDataProvider / AaveOracle).
+
+Optional parameters:
+- crossCheck (boolean): Also load reserves from chain and report rates, prices or flags that differ from the API
 
 Example usage: 
 - "Tell me the current tokens supported by Bonzo and the supply/borrow APYs"
@@ -48,7 +57,7 @@ Example usage:
 /**
  * Formats market data into a readable summary
  */
-const formatMarketData = (reserves: any[]): string => {
+const formatMarketData = (reserves: any[], network: NetworkKey): string => {
   if (!reserves || reserves.length === 0) {
     return "No market data available from Bonzo Finance.";
   }
@@ -56,8 +65,8 @@ const formatMarketData = (reserves: any[]): string => {
   const timestamp = new Date().toISOString();
   let summary = `Bonzo Finance Market Data (as of ${timestamp})\n\n`;
 
-  // Get mainnet lending pool address (API returns mainnet data)
-  const mainnetLendingPoolAddress = getLendingPoolAddress("hedera_mainnet");
+  const networkLabel = network === "hedera_mainnet" ? "MAINNET" : "TESTNET";
+  const lendingPoolAddress = getLendingPoolAddress(network);
 
   // Sort by supply APY descending for better readability
   const sortedReserves = [...reserves].sort((a, b) => b.supplyAPY - a.supplyAPY);
@@ -85,21 +94,65 @@ const formatMarketData = (reserves: any[]): string => {
   summary += `Highest Supply APY: ${Math.max(...reserves.map((r) => r.supplyAPY)).toFixed(2)}%\n`;
   summary += `Lowest Borrow APY: ${Math.min(...reserves.map((r) => r.variableBorrowAPY)).toFixed(2)}%\n\n`;
   summary += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
-  summary += `🏦 MAINNET LENDING POOL ADDRESS\n`;
+  summary += `🏦 ${networkLabel} LENDING POOL ADDRESS\n`;
   summary += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
-  summary += `Address: ${formatAddress(mainnetLendingPoolAddress)}\n`;
-  summary += `\nNote: This is the mainnet address. The API returns mainnet data (chain_id: 295).`;
+  summary += `Address: ${formatAddress(lendingPoolAddress)}\n`;
+  summary += `\nNote: Market data and addresses are for ${network}.`;
+
+  return summary;
+};
 
+/**
+ * Formats differences between API and on-chain reserves
+ */
+const formatDiscrepancies = (discrepancies: ReturnType<typeof crossCheckReserves>): string => {
+  if (discrepancies.length === 0) {
+    return "\n\n✅ Cross-check: API data matches on-chain state.";
+  }
+  let summary = `\n\n⚠️ Cross-check: ${discrepancies.length} field(s) differ from on-chain state:\n`;
+  discrepancies.forEach((d) => {
+    summary += `   ${d.symbol}.${String(d.field)}: API ${d.api} vs chain ${d.chain}\n`;
+  });
   return summary;
 };
 
+/**
+ * Loads active reserves from chain, sorted like the API supply reserves
+ */
+const fetchSupplyReservesFromChain = async (client: any, network: NetworkKey): Promise<BonzoReserve[]> => {
+  const reserves = await fetchReservesFromChain(client, network);
+  return reserves.filter((r) => r.isActive && !r.isFrozen).sort((a, b) => b.supplyAPY - a.supplyAPY);
+};
+
 /**
  * Executes the Bonzo market data fetch
  */
 const executeBonzoMarketData = async (client: any, context: Context, params: BonzoMarketDataParams): Promise<string> => {
   try {
-    const reserves = await BonzoMarketService.fetchSupplyReserves();
-    return formatMarketData(reserves);
+    const network = getNetworkKey(client);
+
+    let reserves: BonzoReserve[];
+    try {
+      reserves = await BonzoMarketService.forNetwork(network).fetchSupplyReserves();
+    } catch (error) {
+      if (!(error instanceof BonzoServiceError) || (error.code !== "NETWORK_ERROR" && error.code !== "CONFIG_ERROR")) {
+        throw error;
+      }
+      console.warn("[BonzoMarketDataTool] Bonzo API unavailable, loading reserves from chain:", error.message);
+      const chainReserves = await fetchSupplyReservesFromChain(client, network);
+      const reason = error.code === "CONFIG_ERROR" ? "No Bonzo API is configured for this network" : "The Bonzo API is unreachable";
+      return (
+        formatMarketData(chainReserves, network) +
+        `\n\n⚠️ ${reason}; this data was reconstructed from on-chain state. USD values are derived from the USDC oracle price.`
+      );
+    }
+
+    let summary = formatMarketData(reserves, network);
+    if (params?.crossCheck) {
+      const chainReserves = await fetchReservesFromChain(client, network);
+      summary += formatDiscrepancies(crossCheckReserves(reserves, chainReserves));
+    }
+    return summary;
   } catch (error) {
     console.error("[BonzoMarketDataTool] Error fetching market data:", error);
 
@@ -168,7 +221,7 @@ const executeBonzoSupplyToken = async (
 ): Promise<string> => {
   try {
     // Fetch reserves to get token details
-    const reserves = await BonzoMarketService.fetchSupplyReserves();
+    const reserves = await BonzoMarketService.forClient(client).fetchSupplyReserves();
     const reserve = reserves.find((r) => r.symbol.toUpperCase() === params.tokenSymbol.toUpperCase());
 
     if (!reserve) {
@@ -1,24 +1,26 @@
 import type { Client } from "@hashgraph/sdk";
 import { ContractExecuteTransaction, Hbar } from "@hashgraph/sdk";
 import { Interface } from "@ethersproject/abi";
-import { AgentMode, type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
 import type { z } from "zod";
 import {
-  buildTxBytes,
   contractIdFromEvm,
   defaultGasAndFee,
   getLendingPoolAddress,
   getNetworkKey,
   getTokenAddresses,
-  handleResponse,
   maxUint256,
   toWei,
   fetchErc20Decimals,
   getAvailableSymbols,
   validateNetworkMismatch,
 } from "../bonzo/utils.js";
+import { executePlan } from "../bonzo/plan-executor.js";
 import { BonzoMarketService } from "../bonzo/bonzo-market-service.js";
 import { approveErc20Parameters } from "../bonzo/bonzo.zod.js";
+import { isNativeHbar } from "../bonzo/hbar-gateway.js";
+import { dryRunTransactions } from "../bonzo/simulation.js";
+import { describeTransactionError } from "../bonzo/revert-reason.js";
 
 const approveErc20Prompt = (context: Context = {}) => {
   const contextSnippet = PromptGenerator.getContextSnippet(context);
@@ -33,6 +35,7 @@ Parameters:
 - required.amount (number|string): Amount in human units (ignored if optional.useMax=true)
 - optional.spender (address): Override spender (defaults to LendingPool)
 - optional.useMax (boolean): If true, approves max uint256
+- optional.dryRun (boolean): Simulate instead of executing or returning bytes; reports revert reasons and estimated gas
 ${usageInstructions}
 `;
 };
@@ -41,6 +44,9 @@ const approveErc20Execute = async (client: Client, context: Context, params: z.i
   try {
     const { required, optional } = params;
     const { tokenSymbol, amount } = required;
+    if (isNativeHbar(tokenSymbol)) {
+      return "Native HBAR does not need an approval; the deposit, withdraw, borrow and repay tools handle HBAR through the WETHGateway.";
+    }
     const network = getNetworkKey(client);
     const { token } = getTokenAddresses(tokenSymbol.toUpperCase(), network);
     const spender = (optional?.spender as `0x${string}`) || getLendingPoolAddress(network);
@@ -56,7 +62,7 @@ const approveErc20Execute = async (client: Client, context: Context, params: z.i
     // Get decimals from market API for conversion
     let decimals: number | undefined;
     try {
-      const reserves = await BonzoMarketService.fetchReserves();
+      const reserves = await BonzoMarketService.forNetwork(network).fetchAllReserves();
       const reserve = reserves.find((r) => r.symbol.toUpperCase() === tokenSymbol.toUpperCase());
       decimals = reserve?.decimals;
     } catch {}
@@ -83,23 +89,18 @@ const approveErc20Execute = async (client: Client, context: Context, params: z.i
       .setFunctionParameters(Buffer.from(data.slice(2), "hex"))
       .setMaxTransactionFee(fee);
 
-    if (context.mode === AgentMode.AUTONOMOUS) {
-      const resp = await tx.execute(client);
-      const receipt = await resp.getReceipt(client);
-      return handleResponse(
-        { transactionId: resp.transactionId.toString(), status: receipt.status.toString() },
-        `Approve submitted. Status: ${receipt.status.toString()} TxId: ${resp.transactionId.toString()}`
-      );
+    const approveStep = { label: `Approve ${tokenSymbol.toUpperCase()}`, tx };
+    if (optional?.dryRun) {
+      return dryRunTransactions(client, [approveStep], "Approve");
     }
-
-    const bytes = await buildTxBytes(tx, client);
-    return handleResponse({ bytes }, `Transaction prepared. Hex: ${bytes.toString("hex")}`);
+    return executePlan(client, context, [approveStep], "Approve");
   } catch (error) {
     console.error("[ApproveERC20] Error:", error);
     if (error instanceof Error) {
       const network = getNetworkKey(client);
       const available = getAvailableSymbols(network).join(", ");
-      return `Approve failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+      const message = await describeTransactionError(client, error);
+      return `Approve failed: ${message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
     }
     return "Approve failed";
   }
@@ -1,25 +1,24 @@
 import type { Client } from "@hashgraph/sdk";
-import { ContractExecuteTransaction, Hbar } from "@hashgraph/sdk";
-import { Interface } from "@ethersproject/abi";
-import { AgentMode, type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
 import type { z } from "zod";
 import {
-  RATE_MODE_MAP,
-  buildTxBytes,
-  contractIdFromEvm,
-  defaultGasAndFee,
   getLendingPoolAddress,
   getNetworkKey,
   getTokenAddresses,
-  handleResponse,
   getEvmAliasAddress,
   toWei,
-  fetchErc20Decimals,
   getAvailableSymbols,
   validateNetworkMismatch,
 } from "../bonzo/utils.js";
-import { BonzoMarketService } from "../bonzo/bonzo-market-service.js";
+import { executePlan } from "../bonzo/plan-executor.js";
+import { buildBorrowStep } from "../bonzo/lending-pool.js";
+import { checkReserveCapacity, checkReserveStatus, fetchReserve } from "../bonzo/reserve-caps.js";
+import { preflightBorrow } from "../bonzo/health-factor.js";
 import { borrowParameters } from "../bonzo/bonzo.zod.js";
+import { dryRunTransactions } from "../bonzo/simulation.js";
+import { describeTransactionError } from "../bonzo/revert-reason.js";
+import { buildAssociationIfNeeded } from "../bonzo/token-association.js";
+import { HBAR_DECIMALS, WRAPPED_HBAR_SYMBOL, buildBorrowHbarSteps, isNativeHbar } from "../bonzo/hbar-gateway.js";
 
 const borrowPrompt = (context: Context = {}) => {
   const contextSnippet = PromptGenerator.getContextSnippet(context);
@@ -28,36 +27,94 @@ const borrowPrompt = (context: Context = {}) => {
 ${contextSnippet}
 
 This tool borrows tokens from Bonzo (Aave v2) via the LendingPool contract.
+Use tokenSymbol "HBAR" to borrow WHBAR and receive native HBAR through the WETHGateway (a credit delegation to the gateway is included; onBehalfOf must be the operator).
 
 Parameters:
 - required.tokenSymbol (string)
 - required.amount (number|string)
 - required.rateMode ("stable"|"variable")
 - optional.onBehalfOf (Account ID)
+- optional.clampToMax (boolean): If the amount exceeds the reserve's borrow cap or available liquidity, use the max currently possible instead of rejecting
 - optional.referralCode (number)
+- optional.acknowledgeRisk (boolean): Proceed even if the projected health factor is below the configured minimum (never below 1.0)
+- optional.dryRun (boolean): Simulate instead of executing or returning bytes; reports revert reasons and estimated gas
 ${usageInstructions}
 `;
 };
 
+/**
+ * Borrows WHBAR as native HBAR through the WETHGateway (approveDelegation, then borrowETH)
+ */
+const borrowHbar = async (client: Client, context: Context, params: z.infer<ReturnType<typeof borrowParameters>>) => {
+  const { required, optional } = params;
+  const network = getNetworkKey(client);
+  const operatorId = client.operatorAccountId?.toString();
+  if (!operatorId) return "Operator account is not set";
+  if (optional?.onBehalfOf && optional.onBehalfOf !== operatorId) {
+    return "HBAR borrows through the WETHGateway are always made for the signing account; omit optional.onBehalfOf";
+  }
+  const borrower = await getEvmAliasAddress(client, operatorId);
+
+  const networkMismatch = validateNetworkMismatch(client, getLendingPoolAddress(network));
+  if (networkMismatch) {
+    return networkMismatch;
+  }
+
+  const reserve = await fetchReserve(client, network, WRAPPED_HBAR_SYMBOL);
+  const refusal = checkReserveStatus("borrow", WRAPPED_HBAR_SYMBOL, reserve);
+  if (refusal || !reserve) {
+    return refusal;
+  }
+  const requestedTinybars = toWei(required.amount, HBAR_DECIMALS);
+  const capCheck = checkReserveCapacity("borrow", reserve, requestedTinybars, optional?.clampToMax);
+  if (!capCheck.ok) {
+    return capCheck.message;
+  }
+
+  const amountTinybars = capCheck.amount;
+  const { token } = getTokenAddresses(WRAPPED_HBAR_SYMBOL, network);
+  const healthCheck = await preflightBorrow(client, network, borrower, token, amountTinybars, HBAR_DECIMALS, optional?.acknowledgeRisk);
+  if (!healthCheck.ok) {
+    return healthCheck.message;
+  }
+
+  const steps = buildBorrowHbarSteps(network, amountTinybars, required.rateMode, optional?.referralCode ?? 0);
+  const result = optional?.dryRun
+    ? await dryRunTransactions(client, steps, "HBAR borrow")
+    : await executePlan(client, context, steps, "HBAR borrow");
+  return capCheck.message ? { ...result, humanMessage: `${capCheck.message}\n${result.humanMessage}` } : result;
+};
+
 const borrowExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof borrowParameters>>) => {
   try {
     const { required, optional } = params;
     const { tokenSymbol, amount, rateMode } = required;
     const referralCode = optional?.referralCode ?? 0;
     const network = getNetworkKey(client);
+
+    // Native HBAR is borrowed as WHBAR and unwrapped through the WETHGateway
+    if (isNativeHbar(tokenSymbol)) {
+      return await borrowHbar(client, context, params);
+    }
+
     const { token } = getTokenAddresses(tokenSymbol.toUpperCase(), network);
 
-    let decimals: number | undefined;
-    try {
-      const reserves = await BonzoMarketService.fetchReserves();
-      const reserve = reserves.find((r) => r.symbol.toUpperCase() === tokenSymbol.toUpperCase());
-      decimals = reserve?.decimals;
-    } catch {}
-    if (decimals === undefined) {
-      decimals = await fetchErc20Decimals(client, token);
+    // The unfiltered list, so missing, frozen or low-liquidity reserves are refused rather than skipped
+    const reserve = await fetchReserve(client, network, tokenSymbol);
+    const refusal = checkReserveStatus("borrow", tokenSymbol.toUpperCase(), reserve);
+    if (refusal || !reserve) {
+      return refusal;
     }
+    const decimals = reserve.decimals;
 
-    const amountWei = toWei(amount, decimals);
+    // Reject (or clamp) amounts beyond the reserve's borrow cap / available liquidity instead of letting the contract revert
+    const requestedWei = toWei(amount, decimals);
+    const capCheck = checkReserveCapacity("borrow", reserve, requestedWei, optional?.clampToMax);
+    if (!capCheck.ok) {
+      return capCheck.message;
+    }
+    const amountWei = capCheck.amount;
+    const capNote = capCheck.message ? `${capCheck.message}\n` : "";
     const onBehalfOfId = optional?.onBehalfOf || client.operatorAccountId?.toString();
     if (!onBehalfOfId) return "Operator account is not set; provide optional.onBehalfOf";
     // Use alias-aware resolver so msg.sender and onBehalfOf align for Bonzo checks
@@ -70,40 +127,30 @@ const borrowExecute = async (client: Client, context: Context, params: z.infer<R
     if (networkMismatch) {
       return networkMismatch;
     }
-    const iface = new Interface(["function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)"]);
-    const rate = RATE_MODE_MAP[rateMode];
-    const data = iface.encodeFunctionData("borrow", [token, amountWei, rate, referralCode, onBehalfOf]);
-
-    // Gas/fee configuration with per-tool env overrides
-    const base = defaultGasAndFee("heavy");
-    const gasOverride = 2_000_000;
-    const feeOverride = 5_000_000;
-    const gas = Number.isFinite(gasOverride) && gasOverride > 0 ? Math.trunc(gasOverride) : base.gas;
-    const fee = Number.isFinite(feeOverride) && feeOverride > 0 ? new Hbar(feeOverride) : base.fee;
-
-    const tx = new ContractExecuteTransaction()
-      .setContractId(contractIdFromEvm(lendingPool))
-      .setGas(gas)
-      .setFunctionParameters(Buffer.from(data.slice(2), "hex"))
-      .setMaxTransactionFee(fee);
-
-    if (context.mode === AgentMode.AUTONOMOUS) {
-      const resp = await tx.execute(client);
-      const receipt = await resp.getReceipt(client);
-      return handleResponse(
-        { transactionId: resp.transactionId.toString(), status: receipt.status.toString() },
-        `Borrow submitted. Status: ${receipt.status.toString()} TxId: ${resp.transactionId.toString()}`
-      );
+
+    // Refuse borrows that would push the health factor below the configured floor
+    const healthCheck = await preflightBorrow(client, network, onBehalfOf, token, amountWei, decimals, optional?.acknowledgeRisk);
+    if (!healthCheck.ok) {
+      return healthCheck.message;
     }
 
-    const bytes = await buildTxBytes(tx, client);
-    return handleResponse({ bytes }, `Transaction prepared. Hex: ${bytes.toString("hex")}`);
+    // Borrowed funds go to the signer (msg.sender), which must be associated with the HTS underlying
+    const operatorId = client.operatorAccountId?.toString();
+    const association = operatorId ? await buildAssociationIfNeeded(client, operatorId, token, tokenSymbol.toUpperCase()) : undefined;
+    const borrowStep = buildBorrowStep(network, tokenSymbol.toUpperCase(), token, amountWei, rateMode, onBehalfOf, referralCode);
+    if (optional?.dryRun) {
+      const result = await dryRunTransactions(client, association ? [association, borrowStep] : [borrowStep], "Borrow");
+      return capNote ? { ...result, humanMessage: `${capNote}${result.humanMessage}` } : result;
+    }
+    const result = await executePlan(client, context, association ? [association, borrowStep] : [borrowStep], "Borrow");
+    return capNote ? { ...result, humanMessage: `${capNote}${result.humanMessage}` } : result;
   } catch (error) {
     console.error("[BonzoBorrow] Error:", error);
     if (error instanceof Error) {
       const network = getNetworkKey(client);
       const available = getAvailableSymbols(network).join(", ");
-      return `Borrow failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+      const message = await describeTransactionError(client, error);
+      return `Borrow failed: ${message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
     }
     return "Borrow failed";
   }
@@ -1,24 +1,25 @@
 import type { Client } from "@hashgraph/sdk";
-import { ContractExecuteTransaction, Hbar } from "@hashgraph/sdk";
-import { Interface } from "@ethersproject/abi";
-import { AgentMode, type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
 import type { z } from "zod";
 import {
-  buildTxBytes,
-  contractIdFromEvm,
-  defaultGasAndFee,
   getLendingPoolAddress,
   getNetworkKey,
   getTokenAddresses,
-  handleResponse,
   getEvmAliasAddress,
   toWei,
-  fetchErc20Decimals,
   getAvailableSymbols,
   validateNetworkMismatch,
+  type PreparedTransaction,
 } from "../bonzo/utils.js";
-import { BonzoMarketService } from "../bonzo/bonzo-market-service.js";
+import { executePlan } from "../bonzo/plan-executor.js";
+import { buildDepositStep } from "../bonzo/lending-pool.js";
+import { checkReserveCapacity, checkReserveStatus, fetchReserve } from "../bonzo/reserve-caps.js";
+import { buildApprovalIfNeeded } from "../bonzo/allowance.js";
+import { buildAssociationIfNeeded } from "../bonzo/token-association.js";
 import { depositParameters } from "../bonzo/bonzo.zod.js";
+import { dryRunTransactions } from "../bonzo/simulation.js";
+import { describeTransactionError } from "../bonzo/revert-reason.js";
+import { HBAR_DECIMALS, WRAPPED_HBAR_SYMBOL, buildDepositHbarSteps, isNativeHbar } from "../bonzo/hbar-gateway.js";
 
 const depositPrompt = (context: Context = {}) => {
   const contextSnippet = PromptGenerator.getContextSnippet(context);
@@ -27,35 +28,83 @@ const depositPrompt = (context: Context = {}) => {
 ${contextSnippet}
 
 This tool supplies a token to Bonzo (Aave v2) via the LendingPool contract.
+Use tokenSymbol "HBAR" to supply native HBAR; it is wrapped and supplied as WHBAR through the WETHGateway (no approval needed).
+If the signer's allowance to the LendingPool does not cover the amount, an approve transaction is bundled before the deposit.
 
 Parameters:
 - required.tokenSymbol (string)
 - required.amount (number|string)
 - optional.onBehalfOf (Account ID)
+- optional.clampToMax (boolean): If the amount exceeds the reserve's supply cap, use the max currently possible instead of rejecting
 - optional.referralCode (number, default 0)
+- optional.dryRun (boolean): Simulate instead of executing or returning bytes; reports revert reasons and estimated gas
 ${usageInstructions}
 `;
 };
 
+/**
+ * Supplies native HBAR through the WETHGateway (depositETH with payable amount)
+ */
+const depositHbar = async (client: Client, context: Context, params: z.infer<ReturnType<typeof depositParameters>>) => {
+  const { required, optional } = params;
+  const network = getNetworkKey(client);
+  const onBehalfOfId = optional?.onBehalfOf || client.operatorAccountId?.toString();
+  if (!onBehalfOfId) return "Operator account is not set; provide optional.onBehalfOf";
+  const onBehalfOf = await getEvmAliasAddress(client, onBehalfOfId);
+
+  const networkMismatch = validateNetworkMismatch(client, getLendingPoolAddress(network));
+  if (networkMismatch) {
+    return networkMismatch;
+  }
+
+  const reserve = await fetchReserve(client, network, WRAPPED_HBAR_SYMBOL);
+  const refusal = checkReserveStatus("deposit", WRAPPED_HBAR_SYMBOL, reserve);
+  if (refusal || !reserve) {
+    return refusal;
+  }
+  const requestedTinybars = toWei(required.amount, HBAR_DECIMALS);
+  const capCheck = checkReserveCapacity("deposit", reserve, requestedTinybars, optional?.clampToMax);
+  if (!capCheck.ok) {
+    return capCheck.message;
+  }
+
+  const steps = buildDepositHbarSteps(network, capCheck.amount, onBehalfOf, optional?.referralCode ?? 0);
+  const result = optional?.dryRun
+    ? await dryRunTransactions(client, steps, "HBAR deposit")
+    : await executePlan(client, context, steps, "HBAR deposit");
+  return capCheck.message ? { ...result, humanMessage: `${capCheck.message}\n${result.humanMessage}` } : result;
+};
+
 const depositExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof depositParameters>>) => {
   try {
     const { required, optional } = params;
     const { tokenSymbol, amount } = required;
     const referralCode = optional?.referralCode ?? 0;
     const network = getNetworkKey(client);
-    const { token } = getTokenAddresses(tokenSymbol.toUpperCase(), network);
-
-    let decimals: number | undefined;
-    try {
-      const reserves = await BonzoMarketService.fetchReserves();
-      const reserve = reserves.find((r) => r.symbol.toUpperCase() === tokenSymbol.toUpperCase());
-      decimals = reserve?.decimals;
-    } catch {}
-    if (decimals === undefined) {
-      decimals = await fetchErc20Decimals(client, token);
+
+    // Native HBAR is wrapped and supplied through the WETHGateway
+    if (isNativeHbar(tokenSymbol)) {
+      return await depositHbar(client, context, params);
     }
 
-    const amountWei = toWei(amount, decimals);
+    const { token, aToken } = getTokenAddresses(tokenSymbol.toUpperCase(), network);
+
+    // The unfiltered list, so missing, frozen or low-liquidity reserves are refused rather than skipped
+    const reserve = await fetchReserve(client, network, tokenSymbol);
+    const refusal = checkReserveStatus("deposit", tokenSymbol.toUpperCase(), reserve);
+    if (refusal || !reserve) {
+      return refusal;
+    }
+    const decimals = reserve.decimals;
+
+    // Reject (or clamp) amounts beyond the reserve's supply cap instead of letting the contract revert
+    const requestedWei = toWei(amount, decimals);
+    const capCheck = checkReserveCapacity("deposit", reserve, requestedWei, optional?.clampToMax);
+    if (!capCheck.ok) {
+      return capCheck.message;
+    }
+    const amountWei = capCheck.amount;
+    const capNote = capCheck.message ? `${capCheck.message}\n` : "";
     const onBehalfOfId = optional?.onBehalfOf || client.operatorAccountId?.toString();
     if (!onBehalfOfId) return "Operator account is not set; provide optional.onBehalfOf";
     const onBehalfOf = await getEvmAliasAddress(client, onBehalfOfId);
@@ -67,39 +116,27 @@ const depositExecute = async (client: Client, context: Context, params: z.infer<
     if (networkMismatch) {
       return networkMismatch;
     }
-    const iface = new Interface(["function deposit(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)"]);
-    const data = iface.encodeFunctionData("deposit", [token, amountWei, onBehalfOf, referralCode]);
-
-    // Gas/fee configuration with per-tool env overrides
-    const base = defaultGasAndFee("heavy");
-    const gasOverride = 1_000_000;
-    const feeOverride = 3_000_000;
-    const gas = Number.isFinite(gasOverride) && gasOverride > 0 ? Math.trunc(gasOverride) : base.gas;
-    const fee = Number.isFinite(feeOverride) && feeOverride > 0 ? new Hbar(feeOverride) : base.fee;
-
-    const tx = new ContractExecuteTransaction()
-      .setContractId(contractIdFromEvm(lendingPool))
-      .setGas(gas)
-      .setFunctionParameters(Buffer.from(data.slice(2), "hex"))
-      .setMaxTransactionFee(fee);
-
-    if (context.mode === AgentMode.AUTONOMOUS) {
-      const resp = await tx.execute(client);
-      const receipt = await resp.getReceipt(client);
-      return handleResponse(
-        { transactionId: resp.transactionId.toString(), status: receipt.status.toString() },
-        `Deposit submitted. Status: ${receipt.status.toString()} TxId: ${resp.transactionId.toString()}`
-      );
+    // Bundle an approval when the signer's allowance does not cover the deposit
+    const operatorId = client.operatorAccountId?.toString();
+    const owner = operatorId === onBehalfOfId ? onBehalfOf : operatorId ? await getEvmAliasAddress(client, operatorId) : undefined;
+    const approval = owner ? await buildApprovalIfNeeded(client, token, tokenSymbol.toUpperCase(), owner, lendingPool, amountWei) : undefined;
+    // The first deposit mints aTokens to onBehalfOf, which needs an association only if the aToken is an HTS token
+    const association = await buildAssociationIfNeeded(client, onBehalfOfId, aToken, `a${tokenSymbol.toUpperCase()}`);
+    const preSteps = [association, approval].filter((step): step is PreparedTransaction => step !== undefined);
+    const depositStep = buildDepositStep(network, tokenSymbol.toUpperCase(), token, amountWei, onBehalfOf, referralCode);
+    if (optional?.dryRun) {
+      const result = await dryRunTransactions(client, [...preSteps, depositStep], "Deposit");
+      return capNote ? { ...result, humanMessage: `${capNote}${result.humanMessage}` } : result;
     }
-
-    const bytes = await buildTxBytes(tx, client);
-    return handleResponse({ bytes }, `Transaction prepared. Hex: ${bytes.toString("hex")}`);
+    const result = await executePlan(client, context, [...preSteps, depositStep], "Deposit");
+    return capNote ? { ...result, humanMessage: `${capNote}${result.humanMessage}` } : result;
   } catch (error) {
     console.error("[BonzoDeposit] Error:", error);
     if (error instanceof Error) {
       const network = getNetworkKey(client);
       const available = getAvailableSymbols(network).join(", ");
-      return `Deposit failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+      const message = await describeTransactionError(client, error);
+      return `Deposit failed: ${message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
     }
     return "Deposit failed";
   }
@@ -0,0 +1,150 @@
+import type { Client } from "@hashgraph/sdk";
+import { ContractId } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import {
+  defaultGasAndFee,
+  fromWei,
+  getAvailableSymbols,
+  getEvmAliasAddress,
+  getLendingPoolAddress,
+  getNetworkKey,
+  getTokenAddresses,
+  toWei,
+  validateNetworkMismatch,
+} from "../bonzo/utils.js";
+import { executePlan } from "../bonzo/plan-executor.js";
+import { checkReserveCapacity, fetchReservesWithFallback } from "../bonzo/reserve-caps.js";
+import { type FlashLoanAsset, buildFlashLoanStep, fetchFlashLoanPremium, flashLoanPremium } from "../bonzo/flash-loan.js";
+import { flashLoanParameters } from "../bonzo/bonzo.zod.js";
+import { WRAPPED_HBAR_SYMBOL, isNativeHbar } from "../bonzo/hbar-gateway.js";
+
+const flashLoanPrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool builds a Bonzo (Aave v2) LendingPool.flashLoan call against a user-supplied receiver contract that implements executeOperation.
+It checks each asset's available liquidity (and the borrow cap for assets kept as debt) from market data, computes the flash loan premium (FLASHLOAN_PREMIUM_TOTAL, 0.09% by default)
+per asset, and executes or returns bytes depending on the agent mode. Use "HBAR" for WHBAR (delivered as the ERC20).
+
+Parameters:
+- required.receiver (Contract ID or EVM address): Receiver contract
+- required.assets (array): { tokenSymbol, amount, mode? } where mode is "none" (repay + premium in the same tx, default), "stable" or "variable" (keep as debt)
+- optional.onBehalfOf (Account ID): Account that takes on debt for stable/variable modes (defaults to operator)
+- optional.params (hex string): Bytes passed to executeOperation (default 0x)
+- optional.referralCode (number)
+- optional.gas (number): Gas limit; the receiver's logic runs inside this call
+${usageInstructions}
+
+Example usage: "Flash loan 10000 USDC to my receiver 0.0.98765"
+`;
+};
+
+/**
+ * Resolves the receiver given as a contract ID or EVM address
+ */
+const resolveReceiver = (receiver: string): `0x${string}` => {
+  if (/^0x[0-9a-fA-F]{40}$/.test(receiver)) return receiver as `0x${string}`;
+  return `0x${ContractId.fromString(receiver).toSolidityAddress()}`;
+};
+
+const flashLoanExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof flashLoanParameters>>) => {
+  try {
+    const { required, optional } = params;
+    const network = getNetworkKey(client);
+
+    const lendingPool = getLendingPoolAddress(network);
+    const networkMismatch = validateNetworkMismatch(client, lendingPool);
+    if (networkMismatch) {
+      return networkMismatch;
+    }
+
+    // The unfiltered list, falling back to chain state (with unknown caps) when the API is unavailable
+    const reserves = await fetchReservesWithFallback(client, network);
+    const assets: FlashLoanAsset[] = [];
+    const capWarnings: string[] = [];
+    for (const requested of required.assets) {
+      const symbol = isNativeHbar(requested.tokenSymbol) ? WRAPPED_HBAR_SYMBOL : requested.tokenSymbol.toUpperCase();
+      const reserve = reserves.find((r) => r.symbol.toUpperCase() === symbol);
+      if (!reserve || !reserve.isActive) {
+        return `${symbol} is not an active Bonzo reserve on ${network}; flash loans are only available for active reserves`;
+      }
+
+      const mode = requested.mode ?? "none";
+      // Frozen reserves still lend flash loans, but cannot open the debt that a non-"none" mode leaves behind
+      if (mode !== "none" && reserve.isFrozen) {
+        return `${symbol} is frozen on ${network}; use mode "none" to repay within the flash loan`;
+      }
+      const amount = toWei(requested.amount, reserve.decimals);
+      if (amount > reserve.availableLiquidity) {
+        return `Flash loan of ${fromWei(amount, reserve.decimals)} ${symbol} exceeds available liquidity. Max currently possible: ${fromWei(
+          reserve.availableLiquidity,
+          reserve.decimals
+        )} ${symbol}.`;
+      }
+      if (mode !== "none" && !(mode === "stable" ? reserve.stableBorrowingEnabled : reserve.borrowingEnabled)) {
+        return `${mode} borrowing is disabled for ${symbol}; use mode "none" to repay within the flash loan`;
+      }
+      // Debt modes open a borrow at the end of the flash loan, so the borrow cap applies as well
+      if (mode !== "none") {
+        const capCheck = checkReserveCapacity("borrow", reserve, amount);
+        if (!capCheck.ok) return capCheck.message;
+        if (capCheck.message) capWarnings.push(capCheck.message);
+      }
+      assets.push({ symbol, token: getTokenAddresses(symbol, network).token, amount, mode });
+    }
+
+    const onBehalfOfId = optional?.onBehalfOf || client.operatorAccountId?.toString();
+    if (!onBehalfOfId) return "Operator account is not set; provide optional.onBehalfOf";
+    const onBehalfOf = await getEvmAliasAddress(client, onBehalfOfId);
+    const receiver = resolveReceiver(required.receiver);
+
+    const premiumBps = await fetchFlashLoanPremium(client, network);
+    const step = buildFlashLoanStep(
+      network,
+      receiver,
+      assets,
+      onBehalfOf,
+      optional?.params ?? "0x",
+      optional?.referralCode ?? 0,
+      optional?.gas ?? defaultGasAndFee("heavy").gas
+    );
+
+    const decimalsBySymbol = new Map(reserves.map((r) => [r.symbol.toUpperCase(), r.decimals]));
+    const lines = assets.map((a) => {
+      const decimals = decimalsBySymbol.get(a.symbol) ?? 0;
+      return a.mode === "none"
+        ? `- ${fromWei(a.amount, decimals)} ${a.symbol}: receiver repays ${fromWei(a.amount + flashLoanPremium(a, premiumBps), decimals)} (premium ${fromWei(
+            flashLoanPremium(a, premiumBps),
+            decimals
+          )})`
+        : `- ${fromWei(a.amount, decimals)} ${a.symbol}: kept as ${a.mode} debt of ${onBehalfOfId}`;
+    });
+    const summary = [`Flash loan to ${receiver} (premium ${(Number(premiumBps) / 100).toFixed(2)}%)`, ...lines, ...capWarnings].join("\n");
+
+    const result = await executePlan(client, context, [step], "Flash loan");
+    return { ...result, humanMessage: `${summary}\n${result.humanMessage}` };
+  } catch (error) {
+    console.error("[BonzoFlashLoan] Error:", error);
+    if (error instanceof Error) {
+      const network = getNetworkKey(client);
+      const available = getAvailableSymbols(network).join(", ");
+      return `Flash loan failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+    }
+    return "Flash loan failed";
+  }
+};
+
+export const BONZO_FLASH_LOAN_TOOL = "bonzo_flash_loan_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_FLASH_LOAN_TOOL,
+  name: "Bonzo Flash Loan",
+  description: flashLoanPrompt(context),
+  parameters: flashLoanParameters(context),
+  execute: flashLoanExecute,
+});
+
+export default tool;
@@ -0,0 +1,104 @@
+import type { Client } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import { fromWei, getLendingPoolAddress, getNetworkKey, handleResponse } from "../bonzo/utils.js";
+import { formatHealthFactor } from "../bonzo/bonzo-position-service.js";
+import { type LiquidationScanResult, scanLiquidations } from "../bonzo/liquidation-scanner.js";
+import { fetchRecentContractCallers } from "../bonzo/mirror-node.js";
+import { liquidationScanParameters } from "../bonzo/bonzo.zod.js";
+
+const liquidationScanPrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This read-only tool scans a list of accounts for Bonzo (Aave v2) positions with a health factor under a threshold and ranks them by the
+collateral bonus (USD) a liquidator would earn on the most profitable collateral/debt pair. Accounts come from an explicit list
+and/or recent LendingPool callers on the mirror node. Use bonzo_liquidation_tool to act on a result.
+
+Parameters:
+- optional.accounts (string[]): Account IDs (0.0.x) or EVM addresses (0x + 40 hex characters)
+- optional.fromMirrorNode (boolean): Also scan recent LendingPool callers (default false)
+- optional.maxAccounts (number): Cap on accounts scanned (default 200)
+- optional.healthFactorThreshold (number): Report positions below this health factor (default 1.0)
+- optional.concurrency (number): Accounts read in parallel (default 5)
+${usageInstructions}
+
+Example usage: "Scan recent Bonzo borrowers for liquidations" / "Check these accounts for health factor below 1.05: 0.0.1, 0.0.2"
+`;
+};
+
+/**
+ * Converts a scan result to a JSON-safe shape (bigints as strings)
+ */
+const serializeScan = (result: LiquidationScanResult) => ({
+  scanned: result.scanned,
+  candidates: result.candidates.map((c) => ({
+    account: c.account,
+    user: c.user,
+    healthFactor: formatHealthFactor(c.healthFactor),
+    liquidatable: c.liquidatable,
+    collateralSymbol: c.collateralSymbol,
+    debtSymbol: c.debtSymbol,
+    debtToCoverRaw: c.quote.debtToCover.toString(),
+    collateralToReceiveRaw: c.quote.collateralToReceive.toString(),
+    bonusHBAR: fromWei(c.quote.bonusETH, 18),
+    bonusUSD: c.bonusUSD,
+  })),
+  errors: result.errors,
+});
+
+const formatScan = (scan: ReturnType<typeof serializeScan>, threshold: number): string => {
+  let summary = `Scanned ${scan.scanned} accounts: ${scan.candidates.length} below health factor ${threshold}`;
+  if (scan.errors.length > 0) summary += `, ${scan.errors.length} could not be read`;
+  summary += "\n";
+
+  scan.candidates.slice(0, 10).forEach((c, i) => {
+    summary += `${i + 1}. ${c.account} HF ${c.healthFactor}${c.liquidatable ? " (liquidatable)" : ""} - repay ${c.debtSymbol}, seize ${
+      c.collateralSymbol
+    }, bonus ~$${c.bonusUSD.toFixed(2)}\n`;
+  });
+  if (scan.candidates.length > 10) summary += `… ${scan.candidates.length - 10} more in the raw result\n`;
+  return summary.trimEnd();
+};
+
+const liquidationScanExecute = async (client: Client, _context: Context, params: z.infer<ReturnType<typeof liquidationScanParameters>>) => {
+  try {
+    const { optional } = params;
+    const network = getNetworkKey(client);
+    const maxAccounts = optional?.maxAccounts ?? 200;
+    const threshold = optional?.healthFactorThreshold ?? 1;
+
+    const accounts = [...(optional?.accounts ?? [])];
+    if (optional?.fromMirrorNode) {
+      accounts.push(...(await fetchRecentContractCallers(network, getLendingPoolAddress(network), maxAccounts)));
+    }
+    const unique = Array.from(new Set(accounts.map((a) => a.trim()).filter(Boolean))).slice(0, maxAccounts);
+    if (unique.length === 0) {
+      return "No accounts to scan; provide optional.accounts or optional.fromMirrorNode";
+    }
+
+    const result = await scanLiquidations(client, network, unique, { healthFactorThreshold: threshold, concurrency: optional?.concurrency });
+    const serialized = serializeScan(result);
+    return handleResponse(serialized, formatScan(serialized, threshold));
+  } catch (error) {
+    console.error("[BonzoLiquidationScan] Error:", error);
+    if (error instanceof Error) {
+      return `Liquidation scan failed: ${error.message}`;
+    }
+    return "Liquidation scan failed";
+  }
+};
+
+export const BONZO_LIQUIDATION_SCAN_TOOL = "bonzo_liquidation_scan_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_LIQUIDATION_SCAN_TOOL,
+  name: "Bonzo Liquidation Scan",
+  description: liquidationScanPrompt(context),
+  parameters: liquidationScanParameters(context),
+  execute: liquidationScanExecute,
+});
+
+export default tool;
@@ -0,0 +1,126 @@
+import type { Client } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import {
+  fromWei,
+  getAvailableSymbols,
+  getEvmAliasAddress,
+  getLendingPoolAddress,
+  getNetworkKey,
+  getTokenAddresses,
+  toWei,
+  fetchErc20Decimals,
+  validateNetworkMismatch,
+  type PreparedTransaction,
+} from "../bonzo/utils.js";
+import { executePlan } from "../bonzo/plan-executor.js";
+import { formatHealthFactor } from "../bonzo/bonzo-position-service.js";
+import { LIQUIDATION_CLOSE_FACTOR_BPS, buildLiquidationStep, fetchLiquidationOpportunity, resolveUserAddress } from "../bonzo/liquidation.js";
+import { buildApprovalIfNeeded } from "../bonzo/allowance.js";
+import { buildAssociationIfNeeded } from "../bonzo/token-association.js";
+import { liquidationParameters } from "../bonzo/bonzo.zod.js";
+import { WRAPPED_HBAR_SYMBOL, isNativeHbar } from "../bonzo/hbar-gateway.js";
+
+const liquidationPrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool liquidates an unhealthy Bonzo (Aave v2) position via LendingPool.liquidationCall. It checks that the borrower's health factor is
+below 1.0, computes the max debt coverable under the ${Number(LIQUIDATION_CLOSE_FACTOR_BPS) / 100}% close factor and the collateral (including the
+liquidation bonus) received, and builds the transaction. The signer pays the debt asset: an approval is bundled when the allowance is insufficient.
+Use "HBAR" for WHBAR; the liquidator pays and receives WHBAR (not native HBAR).
+
+Parameters:
+- required.user (Account ID or EVM address): Borrower to liquidate
+- required.collateralTokenSymbol (string): Collateral to seize
+- required.debtTokenSymbol (string): Debt to repay
+- optional.debtToCover (number|string): Debt to repay in human-readable units (default: max allowed)
+- optional.receiveAToken (boolean): Receive aTokens instead of the underlying (default false)
+${usageInstructions}
+
+Example usage: "Liquidate 0.0.12345's USDC debt against their HBARX collateral"
+`;
+};
+
+const liquidationExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof liquidationParameters>>) => {
+  try {
+    const { required, optional } = params;
+    const toReserveSymbol = (symbol: string) => (isNativeHbar(symbol) ? WRAPPED_HBAR_SYMBOL : symbol.toUpperCase());
+    const collateralSymbol = toReserveSymbol(required.collateralTokenSymbol);
+    const debtSymbol = toReserveSymbol(required.debtTokenSymbol);
+    const receiveAToken = optional?.receiveAToken ?? false;
+    const network = getNetworkKey(client);
+
+    const operatorId = client.operatorAccountId?.toString();
+    if (!operatorId) return "Operator account is not set";
+    const liquidator = await getEvmAliasAddress(client, operatorId);
+
+    const lendingPool = getLendingPoolAddress(network);
+    const networkMismatch = validateNetworkMismatch(client, lendingPool);
+    if (networkMismatch) {
+      return networkMismatch;
+    }
+
+    const { token: debtToken } = getTokenAddresses(debtSymbol, network);
+    const requested =
+      optional?.debtToCover !== undefined ? toWei(optional.debtToCover, await fetchErc20Decimals(client, debtToken)) : undefined;
+
+    const user = await resolveUserAddress(client, required.user);
+    const opportunity = await fetchLiquidationOpportunity(client, network, user, collateralSymbol, debtSymbol, requested);
+    const { quote, collateral, debt } = opportunity;
+    if (quote.debtToCover === 0n) {
+      return `Nothing to liquidate: ${user} has no ${collateralSymbol} collateral value to cover ${debtSymbol} debt`;
+    }
+
+    // The liquidator pays the debt asset and receives the collateral underlying (unless receiveAToken)
+    const steps: PreparedTransaction[] = [];
+    const approval = await buildApprovalIfNeeded(client, debt.token, debtSymbol, liquidator, lendingPool, quote.debtToCover);
+    if (approval) steps.push(approval);
+    if (!receiveAToken) {
+      const association = await buildAssociationIfNeeded(client, operatorId, collateral.token, collateralSymbol);
+      if (association) steps.push(association);
+    }
+    steps.push(buildLiquidationStep(network, opportunity, receiveAToken));
+
+    const clampNote =
+      quote.limitedBy === "close factor"
+        ? `⚠️ Requested ${fromWei(quote.requestedDebtToCover!, debt.decimals)} ${debtSymbol} exceeds the 50% close factor; debt to cover reduced to the max.\n`
+        : quote.limitedBy === "collateral"
+        ? `⚠️ ${user}'s ${collateralSymbol} collateral cannot pay more debt plus the bonus; debt to cover reduced to ${fromWei(quote.debtToCover, debt.decimals)} ${debtSymbol}.\n`
+        : "";
+    const summary =
+      clampNote +
+      `Liquidating ${user} (health factor ${formatHealthFactor(opportunity.accountData.healthFactor)})\n` +
+      `Debt to cover: ${fromWei(quote.debtToCover, debt.decimals)} ${debtSymbol} (max ${fromWei(quote.maxDebtToCover, debt.decimals)} of ${fromWei(
+        debt.balance,
+        debt.decimals
+      )})\n` +
+      `Collateral received: ${fromWei(quote.collateralToReceive, collateral.decimals)} ${receiveAToken ? "a" : ""}${collateralSymbol} ` +
+      `(bonus ${fromWei(quote.bonusCollateral, collateral.decimals)}, ~${Number(fromWei(quote.bonusETH, 18)).toFixed(4)} HBAR)`;
+
+    const result = await executePlan(client, context, steps, "Liquidation");
+    return { ...result, humanMessage: `${summary}\n${result.humanMessage}` };
+  } catch (error) {
+    console.error("[BonzoLiquidation] Error:", error);
+    if (error instanceof Error) {
+      const network = getNetworkKey(client);
+      const available = getAvailableSymbols(network).join(", ");
+      return `Liquidation failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+    }
+    return "Liquidation failed";
+  }
+};
+
+export const BONZO_LIQUIDATION_TOOL = "bonzo_liquidation_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_LIQUIDATION_TOOL,
+  name: "Bonzo Liquidation",
+  description: liquidationPrompt(context),
+  parameters: liquidationParameters(context),
+  execute: liquidationExecute,
+});
+
+export default tool;
@@ -0,0 +1,194 @@
+import type { Client } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import {
+  type PreparedTransaction,
+  fromWei,
+  getAvailableSymbols,
+  getEvmAliasAddress,
+  getLendingPoolAddress,
+  getNetworkKey,
+  getTokenAddresses,
+  handleResponse,
+  toWei,
+  validateNetworkMismatch,
+} from "../bonzo/utils.js";
+import { type ManualStep, executePlan, requireHealthFactor } from "../bonzo/plan-executor.js";
+import { BonzoPositionService, formatHealthFactor } from "../bonzo/bonzo-position-service.js";
+import { getMinHealthFactor } from "../bonzo/health-factor.js";
+import { checkReserveCapacity, fetchReservesWithFallback } from "../bonzo/reserve-caps.js";
+import { type LoopPlan, planLoop } from "../bonzo/looping.js";
+import { buildBorrowStep, buildDepositStep } from "../bonzo/lending-pool.js";
+import { buildApprovalIfNeeded } from "../bonzo/allowance.js";
+import { buildAssociationIfNeeded } from "../bonzo/token-association.js";
+import { loopParameters } from "../bonzo/bonzo.zod.js";
+import { WRAPPED_HBAR_SYMBOL, isNativeHbar } from "../bonzo/hbar-gateway.js";
+
+const loopPrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool plans leveraged looping on Bonzo (Aave v2): supply → borrow → supply the borrowed funds again, repeated.
+Each borrow is sized with the supply reserve's LTV, the minimum health factor (checked before re-supplying), the target leverage,
+and the reserves' liquidity and caps from market data. It reports leverage, health factor and projected net APY after every loop.
+The full ordered transaction plan is executed or returned as bytes. Different tokens need a conversion between each borrow
+and the next deposit (e.g. unwrapping WHBAR and staking the HBAR for HBARX), which Bonzo cannot do: the plan includes a
+conversion step after each borrow, sized at oracle prices, where it pauses until the wallet holds the next deposit; convert,
+then resume with the Bonzo resume plan tool. Use "HBAR" for WHBAR (handled as the ERC20).
+
+Parameters:
+- required.supplyTokenSymbol (string)
+- required.borrowTokenSymbol (string)
+- required.amount (number|string): Initial deposit of the supply token
+- required.targetLeverage (number): Total supplied / initial deposit
+- optional.minHealthFactor (number): Lowest health factor allowed at any step (default BONZO_MIN_HEALTH_FACTOR)
+- optional.maxLoops (number, 1-10, default 5)
+- optional.rateMode ("stable"|"variable", default variable)
+- optional.planOnly (boolean): Only report the plan
+${usageInstructions}
+
+Example usage: "Loop 1000 HBARX against WHBAR to 2.5x leverage, keeping health factor above 1.3"
+`;
+};
+
+const describePlan = (plan: LoopPlan, supplySymbol: string, supplyDecimals: number, borrowSymbol: string, borrowDecimals: number): string => {
+  const lines = plan.steps.map((step) =>
+    step.loop === 0
+      ? `Loop 0: deposit ${fromWei(step.depositAmount, supplyDecimals)} ${supplySymbol} — net APY ${step.netAPY.toFixed(2)}%`
+      : `Loop ${step.loop}: borrow ${fromWei(step.borrowAmount, borrowDecimals)} ${borrowSymbol}, deposit ${fromWei(step.depositAmount, supplyDecimals)} ${supplySymbol} — ` +
+        `leverage ${step.leverage.toFixed(2)}x, health factor ${formatHealthFactor(step.healthFactor)}, net APY ${step.netAPY.toFixed(2)}%`
+  );
+  const last = plan.steps[plan.steps.length - 1]!;
+  const capNote = plan.capsUnknown ? "\n⚠️ Supply/borrow caps could not be checked (market data unavailable); a step that exceeds a cap reverts." : "";
+  return `${lines.join("\n")}\nFinal leverage ${last.leverage.toFixed(2)}x (limited by ${plan.limitedBy}; max with this LTV ${
+    Number.isFinite(plan.maxTheoreticalLeverage) ? `${plan.maxTheoreticalLeverage.toFixed(2)}x` : "unbounded"
+  })${capNote}`;
+};
+
+const loopExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof loopParameters>>) => {
+  try {
+    const { required, optional } = params;
+    const supplySymbol = isNativeHbar(required.supplyTokenSymbol) ? WRAPPED_HBAR_SYMBOL : required.supplyTokenSymbol.toUpperCase();
+    const borrowSymbol = isNativeHbar(required.borrowTokenSymbol) ? WRAPPED_HBAR_SYMBOL : required.borrowTokenSymbol.toUpperCase();
+    const rateMode = optional?.rateMode ?? "variable";
+    const network = getNetworkKey(client);
+
+    const operatorId = client.operatorAccountId?.toString();
+    if (!operatorId) return "Operator account is not set";
+    const user = await getEvmAliasAddress(client, operatorId);
+
+    const lendingPool = getLendingPoolAddress(network);
+    const networkMismatch = validateNetworkMismatch(client, lendingPool);
+    if (networkMismatch) {
+      return networkMismatch;
+    }
+
+    const reserves = await fetchReservesWithFallback(client, network);
+    const supply = reserves.find((r) => r.symbol.toUpperCase() === supplySymbol);
+    const borrow = reserves.find((r) => r.symbol.toUpperCase() === borrowSymbol);
+    if (!supply || !supply.isActive || supply.isFrozen || supply.ltvBps <= 0 || supply.priceWeibars === 0n) {
+      return `${supplySymbol} cannot be used as looping collateral on ${network} (inactive, frozen, no LTV or no price)`;
+    }
+    if (!borrow || !borrow.isActive || borrow.isFrozen || borrow.priceWeibars === 0n) {
+      return `${borrowSymbol} cannot be borrowed on ${network} (inactive, frozen or no price)`;
+    }
+    if (rateMode === "stable" ? !borrow.stableBorrowingEnabled : !borrow.borrowingEnabled) {
+      return `${rateMode} borrowing is disabled for ${borrowSymbol}`;
+    }
+    if (rateMode === "stable" && supplySymbol === borrowSymbol) {
+      return `Stable rate borrowing against collateral in the same asset is not allowed (VL_COLLATERAL_SAME_AS_BORROWING_CURRENCY); use the variable rate`;
+    }
+
+    const initialAmount = toWei(required.amount, supply.decimals);
+    const capCheck = checkReserveCapacity("deposit", supply, initialAmount, false);
+    if (!capCheck.ok) {
+      return capCheck.message;
+    }
+
+    const accountData = await BonzoPositionService.fetchUserAccountData(client, network, user);
+    const minHealthFactor = optional?.minHealthFactor !== undefined ? toWei(optional.minHealthFactor, 18) : getMinHealthFactor();
+    const plan = planLoop({
+      supply,
+      borrow,
+      initialAmount,
+      targetLeverage: required.targetLeverage,
+      minHealthFactor,
+      maxLoops: optional?.maxLoops ?? 5,
+      rateMode,
+      accountData,
+    });
+    const summary = describePlan(plan, supplySymbol, supply.decimals, borrowSymbol, borrow.decimals);
+    const raw = {
+      limitedBy: plan.limitedBy,
+      capsUnknown: plan.capsUnknown,
+      steps: plan.steps.map((s) => ({
+        ...s,
+        borrowAmount: s.borrowAmount.toString(),
+        depositAmount: s.depositAmount.toString(),
+        totalSuppliedETH: s.totalSuppliedETH.toString(),
+        totalDebtETH: s.totalDebtETH.toString(),
+        healthFactorAfterBorrow: formatHealthFactor(s.healthFactorAfterBorrow),
+        healthFactor: formatHealthFactor(s.healthFactor),
+      })),
+    };
+
+    if (optional?.planOnly || plan.steps.length === 1) {
+      return handleResponse(raw, plan.steps.length === 1 ? `${summary}\nNo loop is possible with these limits.` : summary);
+    }
+
+    // The first deposit mints aTokens, which needs an association only for HTS aTokens; one approval covers every deposit.
+    // A different borrow token is received by the signer, so it may need an association too.
+    const { token, aToken } = getTokenAddresses(supplySymbol, network);
+    const borrowToken = getTokenAddresses(borrowSymbol, network).token;
+    const totalDeposits = plan.steps.reduce((sum, s) => sum + s.depositAmount, 0n);
+    const association = await buildAssociationIfNeeded(client, operatorId, aToken, `a${supplySymbol}`);
+    const borrowAssociation = plan.sameAsset ? undefined : await buildAssociationIfNeeded(client, operatorId, borrowToken, borrowSymbol);
+    const approval = await buildApprovalIfNeeded(client, token, supplySymbol, user, lendingPool, totalDeposits);
+    const steps: (PreparedTransaction | ManualStep)[] = [association, borrowAssociation, approval].filter(
+      (step): step is PreparedTransaction => step !== undefined
+    );
+    for (const [index, step] of plan.steps.entries()) {
+      if (step.borrowAmount > 0n) {
+        // Each borrow re-checks the live health factor, since rates and prices move between steps
+        const precondition = requireHealthFactor(user, minHealthFactor, plan.steps[index - 1]!.healthFactor, step.healthFactorAfterBorrow);
+        steps.push({ ...buildBorrowStep(network, borrowSymbol, borrowToken, step.borrowAmount, rateMode, user), precondition });
+        if (!plan.sameAsset) {
+          // The plan pauses here until the wallet holds the next deposit
+          steps.push({
+            label: `Convert ${borrowSymbol} to ${supplySymbol}`,
+            instruction:
+              `Convert the ${fromWei(step.borrowAmount, borrow.decimals)} ${borrowSymbol} just borrowed into at least ` +
+              `${fromWei(step.depositAmount, supply.decimals)} ${supplySymbol} outside Bonzo (e.g. a swap, or unwrapping WHBAR and staking the HBAR for HBARX).`,
+            precondition: { type: "balance", token, owner: user, amount: step.depositAmount.toString(), symbol: supplySymbol, decimals: supply.decimals },
+          });
+        }
+      }
+      steps.push(buildDepositStep(network, supplySymbol, token, step.depositAmount, user));
+    }
+
+    const result = await executePlan(client, context, steps, "Leverage loop");
+    return { ...result, humanMessage: `${summary}\n${result.humanMessage}` };
+  } catch (error) {
+    console.error("[BonzoLoop] Error:", error);
+    if (error instanceof Error) {
+      const network = getNetworkKey(client);
+      const available = getAvailableSymbols(network).join(", ");
+      return `Leverage loop failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+    }
+    return "Leverage loop failed";
+  }
+};
+
+export const BONZO_LOOP_TOOL = "bonzo_loop_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_LOOP_TOOL,
+  name: "Bonzo Leverage Loop",
+  description: loopPrompt(context),
+  parameters: loopParameters(context),
+  execute: loopExecute,
+});
+
+export default tool;
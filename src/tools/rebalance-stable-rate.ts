@@ -0,0 +1,129 @@
+import type { Client } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import {
+  fromWei,
+  getAvailableSymbols,
+  getLendingPoolAddress,
+  getNetworkKey,
+  handleResponse,
+  validateNetworkMismatch,
+} from "../bonzo/utils.js";
+import { executePlan } from "../bonzo/plan-executor.js";
+import { type BonzoReserve, BonzoMarketService } from "../bonzo/bonzo-market-service.js";
+import { resolveUserAddress } from "../bonzo/liquidation.js";
+import { type StableRebalanceStatus, buildRebalanceStep, fetchStableRebalanceStatus, formatRayPercent } from "../bonzo/stable-rebalance.js";
+import { rebalanceStableRateParameters } from "../bonzo/bonzo.zod.js";
+import { WRAPPED_HBAR_SYMBOL, isNativeHbar } from "../bonzo/hbar-gateway.js";
+
+const rebalanceStableRatePrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool monitors stable rate borrowers on Bonzo (Aave v2) and builds LendingPool.rebalanceStableBorrowRate when allowed.
+For each user it reads the stable rate from the StableDebtToken, compares it with the current market stable and variable APYs,
+and checks the Aave v2 rebalance conditions (utilization of at least 95% and a supply rate at most 40% of the max variable borrow rate).
+Rebalancing resets the user's stable rate to the current market stable rate; anyone may call it once eligible.
+Use tokenSymbol "HBAR" for WHBAR debt.
+
+Parameters:
+- required.tokenSymbol (string)
+- optional.users (array of Account IDs or EVM addresses): Borrowers to check (defaults to operator)
+- optional.checkOnly (boolean): Only report rates and eligibility
+${usageInstructions}
+
+Example usage: "Check whether any of these USDC stable borrowers can be rebalanced: 0.0.1234, 0.0.5678"
+`;
+};
+
+const describeStatus = (account: string, status: StableRebalanceStatus, reserve?: BonzoReserve): string => {
+  const marketStableAPY = reserve?.stableBorrowAPY ?? status.marketStableAPY;
+  const marketVariableAPY = reserve?.variableBorrowAPY ?? status.marketVariableAPY;
+  const drift = marketStableAPY - status.userStableAPY;
+  const rates =
+    status.stableDebt > 0n
+      ? `${fromWei(status.stableDebt, status.decimals)} ${status.symbol} stable debt at ${status.userStableAPY.toFixed(2)}% ` +
+        `(market stable ${marketStableAPY.toFixed(2)}%, variable ${marketVariableAPY.toFixed(2)}%; ${Math.abs(drift).toFixed(2)} points ${
+          drift >= 0 ? "below" : "above"
+        } market stable)`
+      : `no ${status.symbol} stable debt`;
+  const eligibility = status.eligible ? "eligible for rebalance" : `not eligible: ${status.reasons.join("; ")}`;
+  return `- ${account}: ${rates}; ${eligibility}`;
+};
+
+const rebalanceStableRateExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof rebalanceStableRateParameters>>) => {
+  try {
+    const { required, optional } = params;
+    const symbol = isNativeHbar(required.tokenSymbol) ? WRAPPED_HBAR_SYMBOL : required.tokenSymbol.toUpperCase();
+    const network = getNetworkKey(client);
+
+    const lendingPool = getLendingPoolAddress(network);
+    const networkMismatch = validateNetworkMismatch(client, lendingPool);
+    if (networkMismatch) {
+      return networkMismatch;
+    }
+
+    const operatorId = client.operatorAccountId?.toString();
+    const accounts = optional?.users && optional.users.length > 0 ? optional.users : operatorId ? [operatorId] : [];
+    if (accounts.length === 0) return "Operator account is not set; provide optional.users";
+
+    let reserve: BonzoReserve | undefined;
+    try {
+      const reserves = await BonzoMarketService.forNetwork(network).fetchAllReserves();
+      reserve = reserves.find((r) => r.symbol.toUpperCase() === symbol);
+    } catch {}
+
+    const statuses: { account: string; status: StableRebalanceStatus }[] = [];
+    for (const account of accounts) {
+      const user = await resolveUserAddress(client, account);
+      statuses.push({ account, status: await fetchStableRebalanceStatus(client, network, symbol, user, reserve?.decimals) });
+    }
+
+    const first = statuses[0]!.status;
+    const header = `${symbol} utilization ${formatRayPercent(first.usageRatio)}, supply rate ${formatRayPercent(first.liquidityRate)} (rebalance limit ${formatRayPercent(
+      first.maxLiquidityRate
+    )})`;
+    const summary = `${header}\n${statuses.map(({ account, status }) => describeStatus(account, status, reserve)).join("\n")}`;
+
+    const eligible = statuses.filter(({ status }) => status.eligible);
+    const raw = statuses.map(({ account, status }) => ({
+      account,
+      user: status.user,
+      stableDebt: status.stableDebt.toString(),
+      userStableAPY: status.userStableAPY,
+      marketStableAPY: reserve?.stableBorrowAPY ?? status.marketStableAPY,
+      marketVariableAPY: reserve?.variableBorrowAPY ?? status.marketVariableAPY,
+      eligible: status.eligible,
+      reasons: status.reasons,
+    }));
+    if (optional?.checkOnly || eligible.length === 0) {
+      return handleResponse({ statuses: raw }, eligible.length === 0 ? `${summary}\nNo position can be rebalanced right now.` : summary);
+    }
+
+    const steps = eligible.map(({ status }) => buildRebalanceStep(network, status));
+    const result = await executePlan(client, context, steps, "Stable rate rebalance");
+    return { ...result, humanMessage: `${summary}\n${result.humanMessage}` };
+  } catch (error) {
+    console.error("[BonzoRebalanceStableRate] Error:", error);
+    if (error instanceof Error) {
+      const network = getNetworkKey(client);
+      const available = getAvailableSymbols(network).join(", ");
+      return `Stable rate rebalance failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+    }
+    return "Stable rate rebalance failed";
+  }
+};
+
+export const BONZO_REBALANCE_STABLE_RATE_TOOL = "bonzo_rebalance_stable_rate_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_REBALANCE_STABLE_RATE_TOOL,
+  name: "Bonzo Rebalance Stable Rate",
+  description: rebalanceStableRatePrompt(context),
+  parameters: rebalanceStableRateParameters(context),
+  execute: rebalanceStableRateExecute,
+});
+
+export default tool;
@@ -0,0 +1,125 @@
+import type { Client } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import {
+  type PreparedTransaction,
+  fetchErc20Decimals,
+  fromWei,
+  getAvailableSymbols,
+  getEvmAliasAddress,
+  getLendingPoolAddress,
+  getNetworkKey,
+  getTokenAddresses,
+  toWei,
+  validateNetworkMismatch,
+} from "../bonzo/utils.js";
+import { executePlan } from "../bonzo/plan-executor.js";
+import { BonzoMarketService } from "../bonzo/bonzo-market-service.js";
+import { formatHealthFactor } from "../bonzo/bonzo-position-service.js";
+import { planRepayFromCollateral } from "../bonzo/repay-from-collateral.js";
+import { buildRepayStep, buildWithdrawStep } from "../bonzo/lending-pool.js";
+import { buildApprovalIfNeeded } from "../bonzo/allowance.js";
+import { buildAssociationIfNeeded } from "../bonzo/token-association.js";
+import { repayFromCollateralParameters } from "../bonzo/bonzo.zod.js";
+import { WRAPPED_HBAR_SYMBOL, isNativeHbar } from "../bonzo/hbar-gateway.js";
+
+const repayFromCollateralPrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool closes the signer's Bonzo (Aave v2) debt using their supplied balance of the same asset.
+It reads the debt including accrued interest from the stable/variable debt token, checks the health factor after the withdraw
+step (before the repay lands), and builds the ordered withdraw → approve → repay bundle (approve only when the allowance is short).
+Repaying the whole debt withdraws a small accrual margin that stays in the wallet. Use tokenSymbol "HBAR" for WHBAR (handled as the ERC20).
+
+Parameters:
+- required.tokenSymbol (string)
+- required.rateMode ("stable"|"variable")
+- optional.amount (number|string): Amount to repay; defaults to the whole debt
+- optional.acknowledgeRisk (boolean): Proceed even if the intermediate health factor is below the configured minimum (never below 1.0)
+${usageInstructions}
+
+Example usage: "Repay my USDC variable debt using my supplied USDC"
+`;
+};
+
+const repayFromCollateralExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof repayFromCollateralParameters>>) => {
+  try {
+    const { required, optional } = params;
+    const symbol = isNativeHbar(required.tokenSymbol) ? WRAPPED_HBAR_SYMBOL : required.tokenSymbol.toUpperCase();
+    const network = getNetworkKey(client);
+
+    const operatorId = client.operatorAccountId?.toString();
+    if (!operatorId) return "Operator account is not set";
+    const user = await getEvmAliasAddress(client, operatorId);
+
+    const lendingPool = getLendingPoolAddress(network);
+    const networkMismatch = validateNetworkMismatch(client, lendingPool);
+    if (networkMismatch) {
+      return networkMismatch;
+    }
+
+    let decimals: number | undefined;
+    try {
+      const reserves = await BonzoMarketService.forNetwork(network).fetchAllReserves();
+      decimals = reserves.find((r) => r.symbol.toUpperCase() === symbol)?.decimals;
+    } catch {}
+    if (decimals === undefined) {
+      decimals = await fetchErc20Decimals(client, getTokenAddresses(symbol, network).token);
+    }
+
+    const plan = await planRepayFromCollateral(
+      client,
+      network,
+      user,
+      symbol,
+      required.rateMode,
+      optional?.amount !== undefined ? toWei(optional.amount, decimals) : undefined,
+      decimals,
+      optional?.acknowledgeRisk
+    );
+    if (!plan.intermediate.ok) {
+      return plan.intermediate.message;
+    }
+
+    const association = await buildAssociationIfNeeded(client, operatorId, plan.token, symbol);
+    const approval = await buildApprovalIfNeeded(client, plan.token, symbol, user, lendingPool, plan.withdrawAmount);
+    const steps = [
+      association,
+      buildWithdrawStep(network, symbol, plan.token, plan.withdrawAmount, user),
+      approval,
+      buildRepayStep(network, symbol, plan.token, plan.repayAmount, plan.rateMode, user),
+    ].filter((step): step is PreparedTransaction => step !== undefined);
+
+    const repaid = plan.repaysAll ? `all ${fromWei(plan.debt, plan.decimals)}` : fromWei(plan.withdrawAmount, plan.decimals);
+    const summary =
+      `Repaying ${repaid} ${symbol} ${plan.rateMode} debt from ${fromWei(plan.supplied, plan.decimals)} supplied ${symbol} ` +
+      `(withdrawing ${fromWei(plan.withdrawAmount, plan.decimals)}). Health factor: ${formatHealthFactor(plan.intermediate.currentHealthFactor)} now, ` +
+      `${formatHealthFactor(plan.intermediate.projectedHealthFactor)} after withdraw, ${formatHealthFactor(plan.finalHealthFactor)} after repay.`;
+
+    const result = await executePlan(client, context, steps, "Repay from collateral");
+    return { ...result, humanMessage: `${summary}\n${result.humanMessage}` };
+  } catch (error) {
+    console.error("[BonzoRepayFromCollateral] Error:", error);
+    if (error instanceof Error) {
+      const network = getNetworkKey(client);
+      const available = getAvailableSymbols(network).join(", ");
+      return `Repay from collateral failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+    }
+    return "Repay from collateral failed";
+  }
+};
+
+export const BONZO_REPAY_FROM_COLLATERAL_TOOL = "bonzo_repay_from_collateral_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_REPAY_FROM_COLLATERAL_TOOL,
+  name: "Bonzo Repay From Collateral",
+  description: repayFromCollateralPrompt(context),
+  parameters: repayFromCollateralParameters(context),
+  execute: repayFromCollateralExecute,
+});
+
+export default tool;
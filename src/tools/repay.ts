@@ -1,17 +1,10 @@
 import type { Client } from "@hashgraph/sdk";
-import { ContractExecuteTransaction, Hbar } from "@hashgraph/sdk";
-import { Interface } from "@ethersproject/abi";
-import { AgentMode, type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
 import type { z } from "zod";
 import {
-  RATE_MODE_MAP,
-  buildTxBytes,
-  contractIdFromEvm,
-  defaultGasAndFee,
   getLendingPoolAddress,
   getNetworkKey,
   getTokenAddresses,
-  handleResponse,
   maxUint256,
   getEvmAliasAddress,
   toWei,
@@ -19,8 +12,15 @@ import {
   getAvailableSymbols,
   validateNetworkMismatch,
 } from "../bonzo/utils.js";
+import { executePlan } from "../bonzo/plan-executor.js";
+import { buildRepayStep } from "../bonzo/lending-pool.js";
 import { BonzoMarketService } from "../bonzo/bonzo-market-service.js";
+import { BonzoPositionService } from "../bonzo/bonzo-position-service.js";
 import { repayParameters } from "../bonzo/bonzo.zod.js";
+import { buildApprovalIfNeeded } from "../bonzo/allowance.js";
+import { dryRunTransactions } from "../bonzo/simulation.js";
+import { describeTransactionError } from "../bonzo/revert-reason.js";
+import { HBAR_DECIMALS, WRAPPED_HBAR_SYMBOL, buildRepayHbarSteps, isNativeHbar, withAccrualBuffer } from "../bonzo/hbar-gateway.js";
 
 const repayPrompt = (context: Context = {}) => {
   const contextSnippet = PromptGenerator.getContextSnippet(context);
@@ -29,6 +29,8 @@ const repayPrompt = (context: Context = {}) => {
 ${contextSnippet}
 
 This tool repays borrowed tokens on Bonzo (Aave v2) via the LendingPool contract.
+Use tokenSymbol "HBAR" to repay WHBAR debt with native HBAR through the WETHGateway (no approval needed; any excess HBAR is refunded).
+If the signer's allowance to the LendingPool does not cover the repayment, an approve transaction is bundled before the repay.
 
 Parameters:
 - required.tokenSymbol (string)
@@ -36,20 +38,60 @@ Parameters:
 - required.rateMode ("stable"|"variable")
 - optional.onBehalfOf (Account ID)
 - optional.repayAll (boolean)
+- optional.dryRun (boolean): Simulate instead of executing or returning bytes; reports revert reasons and estimated gas
 ${usageInstructions}
 `;
 };
 
+/**
+ * Repays WHBAR debt with native HBAR through the WETHGateway (repayETH with payable amount)
+ */
+const repayHbar = async (client: Client, context: Context, params: z.infer<ReturnType<typeof repayParameters>>) => {
+  const { required, optional } = params;
+  const network = getNetworkKey(client);
+  const onBehalfOfId = optional?.onBehalfOf || client.operatorAccountId?.toString();
+  if (!onBehalfOfId) return "Operator account is not set; provide optional.onBehalfOf";
+  const onBehalfOf = await getEvmAliasAddress(client, onBehalfOfId);
+
+  const networkMismatch = validateNetworkMismatch(client, getLendingPoolAddress(network));
+  if (networkMismatch) {
+    return networkMismatch;
+  }
+
+  let amountTinybars = toWei(required.amount, HBAR_DECIMALS);
+  let payableTinybars = amountTinybars;
+  if (optional?.repayAll) {
+    // Attach the live debt plus a margin for accrued interest; the gateway refunds the excess
+    const reserve = await BonzoPositionService.fetchUserReserveData(client, network, WRAPPED_HBAR_SYMBOL, onBehalfOf, HBAR_DECIMALS);
+    const debt = required.rateMode === "stable" ? reserve.currentStableDebt : reserve.currentVariableDebt;
+    if (debt === 0n) return `No ${required.rateMode} HBAR (WHBAR) debt to repay`;
+    amountTinybars = maxUint256;
+    payableTinybars = withAccrualBuffer(debt);
+  }
+
+  const steps = buildRepayHbarSteps(network, amountTinybars, payableTinybars, required.rateMode, onBehalfOf);
+  if (optional?.dryRun) {
+    return dryRunTransactions(client, steps, "HBAR repay");
+  }
+  return executePlan(client, context, steps, "HBAR repay");
+};
+
 const repayExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof repayParameters>>) => {
   try {
     const { required, optional } = params;
     const { tokenSymbol, amount, rateMode } = required;
     const network = getNetworkKey(client);
+
+    // Native HBAR is wrapped and repaid through the WETHGateway
+    if (isNativeHbar(tokenSymbol)) {
+      return await repayHbar(client, context, params);
+    }
+
     const { token } = getTokenAddresses(tokenSymbol.toUpperCase(), network);
 
     let decimals: number | undefined;
     try {
-      const reserves = await BonzoMarketService.fetchReserves();
+      const reserves = await BonzoMarketService.forNetwork(network).fetchAllReserves();
       const reserve = reserves.find((r) => r.symbol.toUpperCase() === tokenSymbol.toUpperCase());
       decimals = reserve?.decimals;
     } catch {}
@@ -69,40 +111,29 @@ const repayExecute = async (client: Client, context: Context, params: z.infer<Re
     if (networkMismatch) {
       return networkMismatch;
     }
-    const iface = new Interface(["function repay(address asset, uint256 amount, uint256 rateMode, address onBehalfOf)"]);
-    const rate = RATE_MODE_MAP[rateMode];
-    const data = iface.encodeFunctionData("repay", [token, amountWei, rate, onBehalfOf]);
-
-    // Gas/fee configuration with per-tool env overrides
-    const base = defaultGasAndFee("heavy");
-    const gasOverride = 1_000_000;
-    const feeOverride = 3_000_000;
-    const gas = Number.isFinite(gasOverride) && gasOverride > 0 ? Math.trunc(gasOverride) : base.gas;
-    const fee = Number.isFinite(feeOverride) && feeOverride > 0 ? new Hbar(feeOverride) : base.fee;
-
-    const tx = new ContractExecuteTransaction()
-      .setContractId(contractIdFromEvm(lendingPool))
-      .setGas(gas)
-      .setFunctionParameters(Buffer.from(data.slice(2), "hex"))
-      .setMaxTransactionFee(fee);
-
-    if (context.mode === AgentMode.AUTONOMOUS) {
-      const resp = await tx.execute(client);
-      const receipt = await resp.getReceipt(client);
-      return handleResponse(
-        { transactionId: resp.transactionId.toString(), status: receipt.status.toString() },
-        `Repay submitted. Status: ${receipt.status.toString()} TxId: ${resp.transactionId.toString()}`
-      );
+    // Bundle an approval when the signer's allowance does not cover the repayment (live debt plus accrual margin for repayAll)
+    const operatorId = client.operatorAccountId?.toString();
+    const owner = operatorId === onBehalfOfId ? onBehalfOf : operatorId ? await getEvmAliasAddress(client, operatorId) : undefined;
+    let requiredAllowance = amountWei;
+    if (optional?.repayAll) {
+      const position = await BonzoPositionService.fetchUserReserveData(client, network, tokenSymbol.toUpperCase(), onBehalfOf, decimals);
+      const debt = rateMode === "stable" ? position.currentStableDebt : position.currentVariableDebt;
+      if (debt === 0n) return `No ${rateMode} ${tokenSymbol.toUpperCase()} debt to repay`;
+      requiredAllowance = withAccrualBuffer(debt);
     }
-
-    const bytes = await buildTxBytes(tx, client);
-    return handleResponse({ bytes }, `Transaction prepared. Hex: ${bytes.toString("hex")}`);
+    const approval = owner ? await buildApprovalIfNeeded(client, token, tokenSymbol.toUpperCase(), owner, lendingPool, requiredAllowance) : undefined;
+    const repayStep = buildRepayStep(network, tokenSymbol.toUpperCase(), token, amountWei, rateMode, onBehalfOf);
+    if (optional?.dryRun) {
+      return dryRunTransactions(client, approval ? [approval, repayStep] : [repayStep], "Repay");
+    }
+    return executePlan(client, context, approval ? [approval, repayStep] : [repayStep], "Repay");
   } catch (error) {
     console.error("[BonzoRepay] Error:", error);
     if (error instanceof Error) {
       const network = getNetworkKey(client);
       const available = getAvailableSymbols(network).join(", ");
-      return `Repay failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+      const message = await describeTransactionError(client, error);
+      return `Repay failed: ${message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
     }
     return "Repay failed";
   }
@@ -0,0 +1,56 @@
+import type { Client } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import { getNetworkKey } from "../bonzo/utils.js";
+import { parsePlanState, resumePlan } from "../bonzo/plan-executor.js";
+import { resumePlanParameters } from "../bonzo/bonzo.zod.js";
+
+const resumePlanPrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool continues a multi-transaction Bonzo plan (approve + deposit, loops, unwinds, ...) from its planState.
+Write tools return planState whenever a plan is not finished: in RETURN_BYTES mode next to the bytes of every step,
+and in any mode when a step failed or a precondition blocked it. Resuming is optional in RETURN_BYTES mode.
+Steps awaiting signature are confirmed on the mirror node first, in order; failed or unknown steps are looked up on the mirror node
+and retried only if they did not execute, blocked steps are retried after re-checking their preconditions, and the
+remaining steps then run (or are prepared for signing again).
+planState is signed with a per-process key unless BONZO_PLAN_STATE_SECRET is set, so without it a plan cannot be
+resumed after a restart; rebuild it with the original tool instead.
+
+Parameters:
+- required.planState (string): planState JSON exactly as returned (it is signed; altered states are rejected)
+- optional.transactionId (string): Transaction ID the first prepared step was submitted under, if it differs from planState
+${usageInstructions}
+
+Example usage: "I signed and submitted the transactions, confirm the plan" (pass the planState from the previous response)
+`;
+};
+
+const resumePlanExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof resumePlanParameters>>) => {
+  try {
+    const { required, optional } = params;
+    const state = parsePlanState(client, required.planState);
+    return await resumePlan(client, context, state, optional?.transactionId);
+  } catch (error) {
+    console.error("[BonzoResumePlan] Error:", error);
+    if (error instanceof Error) {
+      return `Resume plan failed: ${error.message}. Network: ${getNetworkKey(client)}`;
+    }
+    return "Resume plan failed";
+  }
+};
+
+export const BONZO_RESUME_PLAN_TOOL = "bonzo_resume_plan_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_RESUME_PLAN_TOOL,
+  name: "Bonzo Resume Plan",
+  description: resumePlanPrompt(context),
+  parameters: resumePlanParameters(context),
+  execute: resumePlanExecute,
+});
+
+export default tool;
@@ -0,0 +1,119 @@
+import type { Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import {
+  buildContractCall,
+  fromWei,
+  getAvailableSymbols,
+  getLendingPoolAddress,
+  getNetworkKey,
+  validateNetworkMismatch,
+} from "../bonzo/utils.js";
+import { executePlan } from "../bonzo/plan-executor.js";
+import { BonzoPositionService, formatHealthFactor } from "../bonzo/bonzo-position-service.js";
+import { preflightCollateralToggle } from "../bonzo/health-factor.js";
+import { setCollateralParameters } from "../bonzo/bonzo.zod.js";
+import { WRAPPED_HBAR_SYMBOL, isNativeHbar } from "../bonzo/hbar-gateway.js";
+
+const setCollateralPrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool enables or disables a supplied Bonzo (Aave v2) reserve as collateral for the signer via LendingPool.setUserUseReserveAsCollateral.
+It lists which supplied reserves are currently collateral, simulates the health factor after the toggle, and refuses toggles that would
+make the position liquidatable. Use tokenSymbol "HBAR" for supplied WHBAR.
+
+Parameters:
+- required.tokenSymbol (string)
+- required.useAsCollateral (boolean): true to enable, false to disable
+- optional.acknowledgeRisk (boolean): Proceed even if the projected health factor is below the configured minimum (never below 1.0)
+${usageInstructions}
+
+Example usage: "Stop using my SAUCE deposit as collateral" / "Enable USDC as collateral"
+`;
+};
+
+const setCollateralExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof setCollateralParameters>>) => {
+  try {
+    const { tokenSymbol, useAsCollateral } = params.required;
+    const symbol = isNativeHbar(tokenSymbol) ? WRAPPED_HBAR_SYMBOL : tokenSymbol.toUpperCase();
+    const network = getNetworkKey(client);
+
+    const operatorId = client.operatorAccountId?.toString();
+    if (!operatorId) return "Operator account is not set";
+
+    const lendingPool = getLendingPoolAddress(network);
+    const networkMismatch = validateNetworkMismatch(client, lendingPool);
+    if (networkMismatch) {
+      return networkMismatch;
+    }
+
+    const position = await BonzoPositionService.fetchUserPosition(client, network, operatorId);
+    const supplied = position.reserves.filter((r) => r.currentATokenBalance > 0n);
+    const collateralList = supplied.filter((r) => r.usageAsCollateralEnabled).map((r) => r.symbol);
+    const collateralText = `Current collateral: ${collateralList.length > 0 ? collateralList.join(", ") : "none"}`;
+
+    const reserve = supplied.find((r) => r.symbol.toUpperCase() === symbol);
+    if (!reserve) {
+      return `No supplied ${symbol} balance; only supplied reserves can be used as collateral. Supplied: ${
+        supplied.map((r) => r.symbol).join(", ") || "none"
+      }`;
+    }
+    if (reserve.usageAsCollateralEnabled === useAsCollateral) {
+      return `${symbol} is already ${useAsCollateral ? "enabled" : "disabled"} as collateral. ${collateralText}`;
+    }
+
+    const healthCheck = await preflightCollateralToggle(
+      client,
+      network,
+      position.evmAddress,
+      symbol,
+      useAsCollateral,
+      reserve.decimals,
+      params.optional?.acknowledgeRisk
+    );
+    if (!healthCheck.ok) {
+      return `${healthCheck.message}\n${collateralText}`;
+    }
+
+    const data = new Interface(["function setUserUseReserveAsCollateral(address asset, bool useAsCollateral)"]).encodeFunctionData(
+      "setUserUseReserveAsCollateral",
+      [reserve.token, useAsCollateral]
+    );
+    const step = {
+      label: `${useAsCollateral ? "Enable" : "Disable"} ${symbol} as collateral`,
+      tx: buildContractCall(lendingPool, data, 1_000_000),
+    };
+
+    const summary =
+      `${collateralText}\n` +
+      `${useAsCollateral ? "Enabling" : "Disabling"} ${fromWei(reserve.currentATokenBalance, reserve.decimals)} supplied ${symbol} as collateral. ` +
+      `Health factor: ${formatHealthFactor(healthCheck.currentHealthFactor)} -> ${formatHealthFactor(healthCheck.projectedHealthFactor)}`;
+
+    const result = await executePlan(client, context, [step], "Collateral toggle");
+    return { ...result, humanMessage: `${summary}\n${result.humanMessage}` };
+  } catch (error) {
+    console.error("[BonzoSetCollateral] Error:", error);
+    if (error instanceof Error) {
+      const network = getNetworkKey(client);
+      const available = getAvailableSymbols(network).join(", ");
+      return `Collateral toggle failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+    }
+    return "Collateral toggle failed";
+  }
+};
+
+export const BONZO_SET_COLLATERAL_TOOL = "bonzo_set_collateral_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_SET_COLLATERAL_TOOL,
+  name: "Bonzo Set Collateral",
+  description: setCollateralPrompt(context),
+  parameters: setCollateralParameters(context),
+  execute: setCollateralExecute,
+});
+
+export default tool;
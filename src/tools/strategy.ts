@@ -0,0 +1,86 @@
+import type { Client } from "@hashgraph/sdk";
+import { AccountId } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import { BonzoMarketService, BonzoServiceError } from "../bonzo/bonzo-market-service.js";
+import { type BonzoStrategyOutput, buildStrategy, fetchStrategyHoldings, formatStrategySummary } from "../bonzo/bonzo-strategy.js";
+import { strategyParameters } from "../bonzo/bonzo.zod.js";
+
+const strategyPrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool recommends a Bonzo Finance (Aave v2) supply/borrow strategy for an account. It ranks the active pools by supply APY,
+reads the account's HBAR and HTS token balances, proposes what to supply (and optionally what to borrow and where to redeploy it),
+and projects the 30-day net APY and health factor. It does not execute any transaction.
+
+Parameters:
+- accountId (string, required): Hedera account ID (e.g. 0.0.12345)
+- riskAppetite ("low"|"medium"|"high", optional): low = supply only, medium/high = progressively larger borrow leg (default medium)
+${usageInstructions}
+
+Example usage: "Suggest a Bonzo strategy for 0.0.12345" / "What should I do with my tokens on Bonzo? I'm OK with high risk"
+`;
+};
+
+const strategyExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof strategyParameters>>): Promise<BonzoStrategyOutput> => {
+  const startedAt = Date.now();
+  const riskAppetite = params.riskAppetite ?? "medium";
+
+  try {
+    AccountId.fromString(params.accountId);
+  } catch {
+    return { summary: `❌ Invalid account ID: ${params.accountId}. Expected the format 0.0.12345.` };
+  }
+
+  try {
+    const marketService = BonzoMarketService.forClient(client);
+    const [supplyReserves, borrowReserves] = await Promise.all([marketService.fetchSupplyReserves(), marketService.fetchBorrowReserves()]);
+    const dataAsOf = new Date().toISOString();
+
+    const holdings = await fetchStrategyHoldings(client, context, params.accountId, supplyReserves);
+    if (holdings.length === 0) {
+      return {
+        summary: `Data as of ${dataAsOf}\nAccount ${params.accountId} holds no balance (above dust) in tokens supported by Bonzo. Supported: ${supplyReserves
+          .map((r) => r.symbol)
+          .join(", ")}`,
+        diagnostics: { dataAsOf, riskAppetite, holdings: [] },
+      };
+    }
+
+    const plan = buildStrategy(holdings, supplyReserves, borrowReserves, riskAppetite);
+    const elapsedMs = Date.now() - startedAt;
+    return {
+      summary: formatStrategySummary(plan, supplyReserves, dataAsOf, elapsedMs),
+      diagnostics: {
+        dataAsOf,
+        elapsedMs,
+        holdings: holdings.map((h) => ({ symbol: h.symbol, amount: h.amount, usdValue: h.usdValue })),
+        plan,
+      },
+    };
+  } catch (error) {
+    console.error("[BonzoStrategy] Error:", error);
+    if (error instanceof BonzoServiceError) {
+      return { summary: `❌ Bonzo market data is unavailable (${error.code}): ${error.message}. Please try again later.` };
+    }
+    if (error instanceof Error) {
+      return { summary: `❌ Strategy generation failed: ${error.message}` };
+    }
+    return { summary: "❌ Strategy generation failed" };
+  }
+};
+
+export const BONZO_STRATEGY_TOOL = "bonzo_strategy_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_STRATEGY_TOOL,
+  name: "Bonzo Strategy",
+  description: strategyPrompt(context),
+  parameters: strategyParameters(context),
+  execute: strategyExecute,
+});
+
+export default tool;
@@ -0,0 +1,125 @@
+import type { Client } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import {
+  type RateMode,
+  RATE_MODE_MAP,
+  buildContractCall,
+  fromWei,
+  getAvailableSymbols,
+  getEvmAliasAddress,
+  getLendingPoolAddress,
+  getNetworkKey,
+  validateNetworkMismatch,
+} from "../bonzo/utils.js";
+import { executePlan } from "../bonzo/plan-executor.js";
+import type { BonzoReserve } from "../bonzo/bonzo-market-service.js";
+import { BonzoPositionService } from "../bonzo/bonzo-position-service.js";
+import { rayRateToAPY } from "../bonzo/bonzo-onchain-reserves.js";
+import { fetchReserve } from "../bonzo/reserve-caps.js";
+import { swapRateModeParameters } from "../bonzo/bonzo.zod.js";
+import { WRAPPED_HBAR_SYMBOL, isNativeHbar } from "../bonzo/hbar-gateway.js";
+
+const swapRateModePrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool moves the signer's Bonzo (Aave v2) debt in one asset between stable and variable rate via LendingPool.swapBorrowRateMode.
+It reads the current stable/variable debt, shows the rate difference from market data, and builds the swap transaction.
+The whole debt in the current mode is moved. Use tokenSymbol "HBAR" for WHBAR debt.
+
+Parameters:
+- required.tokenSymbol (string)
+- required.targetRateMode ("stable"|"variable"): Rate mode to move the debt into
+${usageInstructions}
+
+Example usage: "Switch my USDC debt to a stable rate" / "Move my HBAR borrow to variable"
+`;
+};
+
+const formatAPY = (apy: number | undefined) => (apy === undefined ? "n/a" : `${apy.toFixed(2)}%`);
+
+const swapRateModeExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof swapRateModeParameters>>) => {
+  try {
+    const { tokenSymbol, targetRateMode } = params.required;
+    const symbol = isNativeHbar(tokenSymbol) ? WRAPPED_HBAR_SYMBOL : tokenSymbol.toUpperCase();
+    const currentRateMode: RateMode = targetRateMode === "stable" ? "variable" : "stable";
+    const network = getNetworkKey(client);
+
+    const operatorId = client.operatorAccountId?.toString();
+    if (!operatorId) return "Operator account is not set";
+    const user = await getEvmAliasAddress(client, operatorId);
+
+    const lendingPool = getLendingPoolAddress(network);
+    const networkMismatch = validateNetworkMismatch(client, lendingPool);
+    if (networkMismatch) {
+      return networkMismatch;
+    }
+
+    // Unfiltered list with chain fallback, so low-liquidity and frozen reserves are still checked
+    let reserve: BonzoReserve | undefined;
+    try {
+      reserve = await fetchReserve(client, network, symbol);
+    } catch {}
+
+    const position = await BonzoPositionService.fetchUserReserveData(client, network, symbol, user, reserve?.decimals);
+    const debt = currentRateMode === "stable" ? position.currentStableDebt : position.currentVariableDebt;
+    const otherDebt = currentRateMode === "stable" ? position.currentVariableDebt : position.currentStableDebt;
+    if (debt === 0n) {
+      return `No ${currentRateMode} ${symbol} debt to move to ${targetRateMode}${
+        otherDebt > 0n ? ` (current ${targetRateMode} debt: ${fromWei(otherDebt, position.decimals)} ${symbol})` : ""
+      }`;
+    }
+    if (reserve && (!reserve.isActive || reserve.isFrozen)) {
+      return `The ${symbol} reserve is ${reserve.isActive ? "frozen" : "inactive"}; the rate mode cannot be swapped`;
+    }
+    if (targetRateMode === "stable" && !reserve) {
+      return `Could not read the ${symbol} reserve configuration to confirm stable rate borrowing is enabled; try again later`;
+    }
+    if (targetRateMode === "stable" && !reserve!.stableBorrowingEnabled) {
+      return `Stable rate borrowing is disabled for ${symbol}; the ${currentRateMode} debt cannot be moved to stable`;
+    }
+
+    // The user's own stable rate is locked at borrow time; market rates apply to the variable side and to new stable debt
+    const currentAPY = currentRateMode === "stable" ? rayRateToAPY(position.stableBorrowRate) : reserve?.variableBorrowAPY;
+    const targetAPY = targetRateMode === "stable" ? reserve?.stableBorrowAPY : reserve?.variableBorrowAPY;
+    const difference = currentAPY !== undefined && targetAPY !== undefined ? targetAPY - currentAPY : undefined;
+
+    const data = new Interface(["function swapBorrowRateMode(address asset, uint256 rateMode)"]).encodeFunctionData("swapBorrowRateMode", [
+      position.token,
+      RATE_MODE_MAP[currentRateMode],
+    ]);
+    const step = { label: `Swap ${symbol} debt from ${currentRateMode} to ${targetRateMode}`, tx: buildContractCall(lendingPool, data, 1_000_000) };
+
+    let summary = `Moving ${fromWei(debt, position.decimals)} ${symbol} debt from ${currentRateMode} (${formatAPY(currentAPY)}) to ${targetRateMode} (${formatAPY(targetAPY)})`;
+    if (difference !== undefined) {
+      summary += `: ${difference <= 0 ? "saves" : "costs"} ${Math.abs(difference).toFixed(2)} APY points`;
+    }
+
+    const result = await executePlan(client, context, [step], "Rate mode swap");
+    return { ...result, humanMessage: `${summary}\n${result.humanMessage}` };
+  } catch (error) {
+    console.error("[BonzoSwapRateMode] Error:", error);
+    if (error instanceof Error) {
+      const network = getNetworkKey(client);
+      const available = getAvailableSymbols(network).join(", ");
+      return `Rate mode swap failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+    }
+    return "Rate mode swap failed";
+  }
+};
+
+export const BONZO_SWAP_RATE_MODE_TOOL = "bonzo_swap_rate_mode_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_SWAP_RATE_MODE_TOOL,
+  name: "Bonzo Swap Rate Mode",
+  description: swapRateModePrompt(context),
+  parameters: swapRateModeParameters(context),
+  execute: swapRateModeExecute,
+});
+
+export default tool;
@@ -0,0 +1,191 @@
+import type { Client } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import {
+  type PreparedTransaction,
+  fromWei,
+  getAvailableSymbols,
+  getEvmAliasAddress,
+  getLendingPoolAddress,
+  getNetworkKey,
+  handleResponse,
+  maxUint256,
+  toWei,
+  validateNetworkMismatch,
+} from "../bonzo/utils.js";
+import { executePlan, requireHealthFactor } from "../bonzo/plan-executor.js";
+import { BonzoMarketService } from "../bonzo/bonzo-market-service.js";
+import { formatHealthFactor } from "../bonzo/bonzo-position-service.js";
+import { getMinHealthFactor } from "../bonzo/health-factor.js";
+import { type UnwindPlan, type UnwindPosition, fetchUnwindPosition, planUnwind } from "../bonzo/unwind.js";
+import { buildRepayStep, buildWithdrawStep } from "../bonzo/lending-pool.js";
+import { buildApprovalIfNeeded } from "../bonzo/allowance.js";
+import { buildAssociationIfNeeded } from "../bonzo/token-association.js";
+import { unwindParameters } from "../bonzo/bonzo.zod.js";
+import { WRAPPED_HBAR_SYMBOL, isNativeHbar } from "../bonzo/hbar-gateway.js";
+
+const unwindPrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool plans the unwind of a leveraged Bonzo (Aave v2) position: rounds of withdrawing collateral and repaying debt with it,
+either until the debt is closed (then the remaining supply is withdrawn) or until a target health factor is reached.
+Each withdraw is sized so the health factor never drops below the safety margin while the debt is still outstanding.
+When the collateral and debt tokens are the same, the full ordered transaction plan is executed or returned as bytes.
+Different tokens need a conversion between each withdraw and repay (e.g. HBARX to HBAR), which Bonzo cannot do:
+the plan is reported (converted at oracle prices) without transactions. Use "HBAR" for WHBAR (handled as the ERC20).
+If the health factor already sits at the safety margin, lower optional.minHealthFactor or repay part of the debt from the wallet first.
+
+Parameters:
+- required.collateralTokenSymbol (string)
+- required.debtTokenSymbol (string)
+- optional.rateMode ("stable"|"variable", default variable)
+- optional.targetHealthFactor (number): Stop at this health factor instead of closing the debt
+- optional.minHealthFactor (number): Lowest health factor allowed after any withdraw (default BONZO_MIN_HEALTH_FACTOR)
+- optional.maxSteps (number, 1-20, default 10)
+- optional.planOnly (boolean): Only report the plan
+${usageInstructions}
+
+Example usage: "Unwind my WHBAR loop completely" or "Deleverage my HBARX/WHBAR position to a health factor of 2"
+`;
+};
+
+const describePlan = (plan: UnwindPlan, position: UnwindPosition): string => {
+  const { collateralSymbol, collateralDecimals, debtSymbol, debtDecimals } = position;
+  const lines = plan.steps.map(
+    (step) =>
+      `Step ${step.step}: withdraw ${fromWei(step.withdrawAmount, collateralDecimals)} ${collateralSymbol} (health factor ${formatHealthFactor(
+        step.healthFactorAfterWithdraw
+      )}), repay ${step.repayAmount === maxUint256 ? "all remaining" : fromWei(step.repayAmount, debtDecimals)} ${debtSymbol} ` +
+      `(health factor ${formatHealthFactor(step.healthFactorAfterRepay)}, ${fromWei(step.remainingDebt, debtDecimals)} ${debtSymbol} left)`
+  );
+  if (plan.withdrawRemaining) lines.push(`Then withdraw the remaining ${collateralSymbol} supply`);
+  const outcome: Record<UnwindPlan["limitedBy"], string> = {
+    closed: "the debt is closed",
+    "target health factor": "the target health factor is reached",
+    "health factor": "further withdrawals would breach the safety margin; repay from the wallet or lower minHealthFactor",
+    collateral: `the supplied ${collateralSymbol} is exhausted`,
+    "max steps": "the step limit is reached",
+  };
+  return (
+    `Unwinding ${fromWei(position.debt, debtDecimals)} ${debtSymbol} ${position.rateMode} debt from ${fromWei(position.supplied, collateralDecimals)} ` +
+    `supplied ${collateralSymbol}. Health factor ${formatHealthFactor(plan.startHealthFactor)} now, ${formatHealthFactor(plan.finalHealthFactor)} at the end.\n` +
+    `${lines.join("\n")}\nStops because ${outcome[plan.limitedBy]}.`
+  );
+};
+
+const unwindExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof unwindParameters>>) => {
+  try {
+    const { required, optional } = params;
+    const collateralSymbol = isNativeHbar(required.collateralTokenSymbol) ? WRAPPED_HBAR_SYMBOL : required.collateralTokenSymbol.toUpperCase();
+    const debtSymbol = isNativeHbar(required.debtTokenSymbol) ? WRAPPED_HBAR_SYMBOL : required.debtTokenSymbol.toUpperCase();
+    const network = getNetworkKey(client);
+
+    const operatorId = client.operatorAccountId?.toString();
+    if (!operatorId) return "Operator account is not set";
+    const user = await getEvmAliasAddress(client, operatorId);
+
+    const lendingPool = getLendingPoolAddress(network);
+    const networkMismatch = validateNetworkMismatch(client, lendingPool);
+    if (networkMismatch) {
+      return networkMismatch;
+    }
+
+    let collateralDecimals: number | undefined;
+    let debtDecimals: number | undefined;
+    try {
+      const reserves = await BonzoMarketService.forNetwork(network).fetchAllReserves();
+      collateralDecimals = reserves.find((r) => r.symbol.toUpperCase() === collateralSymbol)?.decimals;
+      debtDecimals = reserves.find((r) => r.symbol.toUpperCase() === debtSymbol)?.decimals;
+    } catch {}
+
+    const position = await fetchUnwindPosition(
+      client,
+      network,
+      user,
+      collateralSymbol,
+      debtSymbol,
+      optional?.rateMode ?? "variable",
+      collateralDecimals,
+      debtDecimals
+    );
+    const minHealthFactor = optional?.minHealthFactor !== undefined ? toWei(optional.minHealthFactor, 18) : getMinHealthFactor();
+    const plan = planUnwind({
+      position,
+      minHealthFactor,
+      targetHealthFactor: optional?.targetHealthFactor !== undefined ? toWei(optional.targetHealthFactor, 18) : undefined,
+      maxSteps: optional?.maxSteps ?? 10,
+    });
+    const summary = describePlan(plan, position);
+    const raw = {
+      limitedBy: plan.limitedBy,
+      closes: plan.closes,
+      withdrawRemaining: plan.withdrawRemaining,
+      steps: plan.steps.map((s) => ({
+        step: s.step,
+        withdrawAmount: s.withdrawAmount.toString(),
+        repayAmount: s.repayAmount.toString(),
+        healthFactorAfterWithdraw: formatHealthFactor(s.healthFactorAfterWithdraw),
+        healthFactorAfterRepay: formatHealthFactor(s.healthFactorAfterRepay),
+        remainingDebt: s.remainingDebt.toString(),
+      })),
+    };
+
+    if (plan.steps.length === 0) {
+      return handleResponse(raw, summary);
+    }
+    if (!plan.sameAsset) {
+      return handleResponse(
+        raw,
+        `${summary}\nUnwinding ${collateralSymbol} against ${debtSymbol} needs a conversion from ${collateralSymbol} to ${debtSymbol} after each withdraw, ` +
+          `which Bonzo cannot perform; no transactions were built. Convert between steps and use the withdraw and repay tools for each step.`
+      );
+    }
+    if (optional?.planOnly) {
+      return handleResponse(raw, summary);
+    }
+
+    // Every repay is funded by the withdraw before it, so one approval of the total withdrawn covers the whole plan
+    const token = position.collateralToken;
+    const totalWithdrawn = plan.steps.reduce((sum, s) => sum + s.withdrawAmount, 0n);
+    const association = await buildAssociationIfNeeded(client, operatorId, token, collateralSymbol);
+    const approval = await buildApprovalIfNeeded(client, token, collateralSymbol, user, lendingPool, totalWithdrawn);
+    const steps: PreparedTransaction[] = [association, approval].filter((step): step is PreparedTransaction => step !== undefined);
+    for (const [index, step] of plan.steps.entries()) {
+      const plannedBefore = index === 0 ? plan.startHealthFactor : plan.steps[index - 1]!.healthFactorAfterRepay;
+      steps.push({
+        ...buildWithdrawStep(network, collateralSymbol, token, step.withdrawAmount, user),
+        precondition: requireHealthFactor(user, minHealthFactor, plannedBefore, step.healthFactorAfterWithdraw),
+      });
+      steps.push(buildRepayStep(network, debtSymbol, token, step.repayAmount, position.rateMode, user));
+    }
+    if (plan.withdrawRemaining) {
+      steps.push(buildWithdrawStep(network, collateralSymbol, token, maxUint256, user));
+    }
+
+    const result = await executePlan(client, context, steps, "Unwind");
+    return { ...result, humanMessage: `${summary}\n${result.humanMessage}` };
+  } catch (error) {
+    console.error("[BonzoUnwind] Error:", error);
+    if (error instanceof Error) {
+      const network = getNetworkKey(client);
+      const available = getAvailableSymbols(network).join(", ");
+      return `Unwind failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+    }
+    return "Unwind failed";
+  }
+};
+
+export const BONZO_UNWIND_TOOL = "bonzo_unwind_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_UNWIND_TOOL,
+  name: "Bonzo Unwind Position",
+  description: unwindPrompt(context),
+  parameters: unwindParameters(context),
+  execute: unwindExecute,
+});
+
+export default tool;
@@ -0,0 +1,97 @@
+import type { Client } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import { fromWei, getNetworkKey, handleResponse } from "../bonzo/utils.js";
+import { BonzoPositionService, formatHealthFactor, type BonzoUserPosition } from "../bonzo/bonzo-position-service.js";
+import { userPositionParameters } from "../bonzo/bonzo.zod.js";
+
+const userPositionPrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool reads an account's Bonzo (Aave v2) position: supplied balances, stable/variable debt and collateral flags per reserve,
+plus aggregate collateral, debt, available borrows, LTV and health factor. Use it to answer "how much do I owe" or "am I close to liquidation".
+
+Parameters:
+- optional.accountId (Account ID): Account to inspect (defaults to operator)
+${usageInstructions}
+`;
+};
+
+/**
+ * Converts a position to a JSON-safe shape (bigints as strings)
+ */
+const serializePosition = (position: BonzoUserPosition) => ({
+  accountId: position.accountId,
+  evmAddress: position.evmAddress,
+  network: position.network,
+  totalCollateralHBAR: fromWei(position.accountData.totalCollateralETH, 18),
+  totalDebtHBAR: fromWei(position.accountData.totalDebtETH, 18),
+  availableBorrowsHBAR: fromWei(position.accountData.availableBorrowsETH, 18),
+  currentLiquidationThresholdBps: position.accountData.currentLiquidationThreshold.toString(),
+  ltvBps: position.accountData.ltv.toString(),
+  healthFactor: formatHealthFactor(position.accountData.healthFactor),
+  reserves: position.reserves.map((r) => ({
+    symbol: r.symbol,
+    token: r.token,
+    supplied: fromWei(r.currentATokenBalance, r.decimals),
+    stableDebt: fromWei(r.currentStableDebt, r.decimals),
+    variableDebt: fromWei(r.currentVariableDebt, r.decimals),
+    usageAsCollateralEnabled: r.usageAsCollateralEnabled,
+  })),
+});
+
+const formatPosition = (position: ReturnType<typeof serializePosition>): string => {
+  let summary = `Bonzo position for ${position.accountId} (${position.network})\n\n`;
+
+  if (position.reserves.length === 0) {
+    summary += "No supplied or borrowed assets.\n";
+  }
+
+  position.reserves.forEach((r) => {
+    summary += `${r.symbol}\n`;
+    summary += `   Supplied: ${r.supplied}${r.usageAsCollateralEnabled ? " (collateral)" : ""}\n`;
+    summary += `   Stable debt: ${r.stableDebt}\n`;
+    summary += `   Variable debt: ${r.variableDebt}\n`;
+  });
+
+  summary += `\nTotal collateral: ${position.totalCollateralHBAR} HBAR\n`;
+  summary += `Total debt: ${position.totalDebtHBAR} HBAR\n`;
+  summary += `Available to borrow: ${position.availableBorrowsHBAR} HBAR\n`;
+  summary += `LTV: ${(Number(position.ltvBps) / 100).toFixed(2)}%\n`;
+  summary += `Liquidation threshold: ${(Number(position.currentLiquidationThresholdBps) / 100).toFixed(2)}%\n`;
+  summary += `Health factor: ${position.healthFactor}`;
+  return summary;
+};
+
+const userPositionExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof userPositionParameters>>) => {
+  try {
+    const accountId = params.optional?.accountId || client.operatorAccountId?.toString();
+    if (!accountId) return "Operator account is not set; provide optional.accountId";
+    const network = getNetworkKey(client);
+
+    const position = await BonzoPositionService.fetchUserPosition(client, network, accountId);
+    const serialized = serializePosition(position);
+    return handleResponse(serialized, formatPosition(serialized));
+  } catch (error) {
+    console.error("[BonzoUserPosition] Error:", error);
+    if (error instanceof Error) {
+      return `User position lookup failed: ${error.message}`;
+    }
+    return "User position lookup failed";
+  }
+};
+
+export const BONZO_USER_POSITION_TOOL = "bonzo_user_position_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_USER_POSITION_TOOL,
+  name: "Bonzo User Position",
+  description: userPositionPrompt(context),
+  parameters: userPositionParameters(context),
+  execute: userPositionExecute,
+});
+
+export default tool;
@@ -0,0 +1,86 @@
+import type { Client } from "@hashgraph/sdk";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import type { z } from "zod";
+import { fromWei, getNetworkKey, handleResponse } from "../bonzo/utils.js";
+import { type WalletBalance, fetchWalletBalances } from "../bonzo/wallet-balances.js";
+import { walletBalanceParameters } from "../bonzo/bonzo.zod.js";
+
+const walletBalancePrompt = (context: Context = {}) => {
+  const contextSnippet = PromptGenerator.getContextSnippet(context);
+  const usageInstructions = PromptGenerator.getParameterUsageInstructions();
+  return `
+${contextSnippet}
+
+This tool reads an account's wallet balances (not yet supplied) for every Bonzo reserve token plus native HBAR, in one
+WalletBalanceProvider call. Each balance is annotated with whether it can be supplied to Bonzo, the current supply APY and its USD value.
+Use it to answer "what can I put to work?".
+
+Parameters:
+- optional.accountId (Account ID): Account to inspect (defaults to operator)
+- optional.includeZero (boolean): Also list tokens with a zero balance (default false)
+${usageInstructions}
+`;
+};
+
+/**
+ * Converts balances to a JSON-safe shape (bigints as strings), largest USD value first
+ */
+const serializeBalances = (balances: WalletBalance[]) =>
+  [...balances]
+    .sort((a, b) => (b.usdValue ?? 0) - (a.usdValue ?? 0))
+    .map((b) => ({
+      symbol: b.symbol,
+      token: b.token,
+      balance: fromWei(b.balance, b.decimals),
+      supplyable: b.supplyable,
+      supplyAPY: b.supplyAPY,
+      usdValue: b.usdValue,
+    }));
+
+const formatBalances = (accountId: string, network: string, balances: ReturnType<typeof serializeBalances>): string => {
+  let summary = `Wallet balances for ${accountId} (${network})\n\n`;
+  if (balances.length === 0) {
+    return `${summary}No balances in Bonzo reserve tokens or HBAR.`;
+  }
+
+  balances.forEach((b) => {
+    const usd = b.usdValue !== undefined ? ` (~$${b.usdValue.toFixed(2)})` : "";
+    const apy = b.supplyAPY !== undefined ? ` at ${b.supplyAPY.toFixed(2)}% APY` : "";
+    summary += `${b.symbol}: ${b.balance}${usd} - ${b.supplyable ? `can be supplied${apy}` : "not suppliable"}\n`;
+  });
+
+  const idleUSD = balances.filter((b) => b.supplyable).reduce((sum, b) => sum + (b.usdValue ?? 0), 0);
+  summary += `\nSuppliable total: ~$${idleUSD.toFixed(2)}`;
+  return summary;
+};
+
+const walletBalanceExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof walletBalanceParameters>>) => {
+  try {
+    const accountId = params.optional?.accountId || client.operatorAccountId?.toString();
+    if (!accountId) return "Operator account is not set; provide optional.accountId";
+    const network = getNetworkKey(client);
+
+    const balances = await fetchWalletBalances(client, network, accountId);
+    const visible = params.optional?.includeZero ? balances : balances.filter((b) => b.balance > 0n);
+    const serialized = serializeBalances(visible);
+    return handleResponse({ accountId, network, balances: serialized }, formatBalances(accountId, network, serialized));
+  } catch (error) {
+    console.error("[BonzoWalletBalance] Error:", error);
+    if (error instanceof Error) {
+      return `Wallet balance lookup failed: ${error.message}`;
+    }
+    return "Wallet balance lookup failed";
+  }
+};
+
+export const BONZO_WALLET_BALANCE_TOOL = "bonzo_wallet_balance_tool";
+
+const tool = (context: Context): Tool => ({
+  method: BONZO_WALLET_BALANCE_TOOL,
+  name: "Bonzo Wallet Balance",
+  description: walletBalancePrompt(context),
+  parameters: walletBalanceParameters(context),
+  execute: walletBalanceExecute,
+});
+
+export default tool;
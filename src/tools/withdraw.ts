@@ -1,16 +1,10 @@
 import type { Client } from "@hashgraph/sdk";
-import { ContractExecuteTransaction, Hbar } from "@hashgraph/sdk";
-import { Interface } from "@ethersproject/abi";
-import { AgentMode, type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
+import { type Context, PromptGenerator, type Tool } from "hedera-agent-kit";
 import type { z } from "zod";
 import {
-  buildTxBytes,
-  contractIdFromEvm,
-  defaultGasAndFee,
   getLendingPoolAddress,
   getNetworkKey,
   getTokenAddresses,
-  handleResponse,
   maxUint256,
   getEvmAliasAddress,
   toWei,
@@ -18,8 +12,16 @@ import {
   getAvailableSymbols,
   validateNetworkMismatch,
 } from "../bonzo/utils.js";
+import { executePlan } from "../bonzo/plan-executor.js";
+import { buildWithdrawStep } from "../bonzo/lending-pool.js";
 import { BonzoMarketService } from "../bonzo/bonzo-market-service.js";
+import { preflightWithdraw } from "../bonzo/health-factor.js";
+import { BonzoPositionService } from "../bonzo/bonzo-position-service.js";
 import { withdrawParameters } from "../bonzo/bonzo.zod.js";
+import { dryRunTransactions } from "../bonzo/simulation.js";
+import { describeTransactionError } from "../bonzo/revert-reason.js";
+import { buildAssociationIfNeeded } from "../bonzo/token-association.js";
+import { HBAR_DECIMALS, WRAPPED_HBAR_SYMBOL, buildWithdrawHbarSteps, isNativeHbar, withAccrualBuffer } from "../bonzo/hbar-gateway.js";
 
 const withdrawPrompt = (context: Context = {}) => {
   const contextSnippet = PromptGenerator.getContextSnippet(context);
@@ -28,26 +30,72 @@ const withdrawPrompt = (context: Context = {}) => {
 ${contextSnippet}
 
 This tool withdraws supplied tokens from Bonzo (Aave v2) via the LendingPool contract.
+Use tokenSymbol "HBAR" to withdraw supplied WHBAR as native HBAR through the WETHGateway (an aWHBAR approval for the gateway is included).
 
 Parameters:
 - required.tokenSymbol (string)
 - required.amount (number|string)
 - optional.to (Account ID)
 - optional.withdrawAll (boolean)
+- optional.acknowledgeRisk (boolean): Proceed even if the projected health factor is below the configured minimum (never below 1.0)
+- optional.dryRun (boolean): Simulate instead of executing or returning bytes; reports revert reasons and estimated gas
 ${usageInstructions}
 `;
 };
 
+/**
+ * Withdraws supplied WHBAR as native HBAR through the WETHGateway (approve aWHBAR, then withdrawETH)
+ */
+const withdrawHbar = async (client: Client, context: Context, params: z.infer<ReturnType<typeof withdrawParameters>>) => {
+  const { required, optional } = params;
+  const network = getNetworkKey(client);
+  const operatorId = client.operatorAccountId?.toString();
+  if (!operatorId) return "Operator account is not set";
+  const owner = await getEvmAliasAddress(client, operatorId);
+  const to = await getEvmAliasAddress(client, optional?.to || operatorId);
+
+  const networkMismatch = validateNetworkMismatch(client, getLendingPoolAddress(network));
+  if (networkMismatch) {
+    return networkMismatch;
+  }
+
+  const amountTinybars = optional?.withdrawAll ? maxUint256 : toWei(required.amount, HBAR_DECIMALS);
+  const healthCheck = await preflightWithdraw(client, network, owner, WRAPPED_HBAR_SYMBOL, amountTinybars, HBAR_DECIMALS, optional?.acknowledgeRisk);
+  if (!healthCheck.ok) {
+    return healthCheck.message;
+  }
+
+  // The gateway pulls the aWHBAR being burned; withdraw-all needs the live balance plus accrued interest
+  let approvalAmount = amountTinybars;
+  if (optional?.withdrawAll) {
+    const reserve = await BonzoPositionService.fetchUserReserveData(client, network, WRAPPED_HBAR_SYMBOL, owner, HBAR_DECIMALS);
+    if (reserve.currentATokenBalance === 0n) return "No supplied HBAR (WHBAR) to withdraw";
+    approvalAmount = withAccrualBuffer(reserve.currentATokenBalance);
+  }
+
+  const steps = buildWithdrawHbarSteps(network, amountTinybars, approvalAmount, to);
+  if (optional?.dryRun) {
+    return dryRunTransactions(client, steps, "HBAR withdraw");
+  }
+  return executePlan(client, context, steps, "HBAR withdraw");
+};
+
 const withdrawExecute = async (client: Client, context: Context, params: z.infer<ReturnType<typeof withdrawParameters>>) => {
   try {
     const { required, optional } = params;
     const { tokenSymbol, amount } = required;
     const network = getNetworkKey(client);
+
+    // Native HBAR is unwrapped through the WETHGateway
+    if (isNativeHbar(tokenSymbol)) {
+      return await withdrawHbar(client, context, params);
+    }
+
     const { token } = getTokenAddresses(tokenSymbol.toUpperCase(), network);
 
     let decimals: number | undefined;
     try {
-      const reserves = await BonzoMarketService.fetchReserves();
+      const reserves = await BonzoMarketService.forNetwork(network).fetchAllReserves();
       const reserve = reserves.find((r) => r.symbol.toUpperCase() === tokenSymbol.toUpperCase());
       decimals = reserve?.decimals;
     } catch {}
@@ -68,39 +116,31 @@ const withdrawExecute = async (client: Client, context: Context, params: z.infer
     if (networkMismatch) {
       return networkMismatch;
     }
-    const iface = new Interface(["function withdraw(address asset, uint256 amount, address to)"]);
-    const data = iface.encodeFunctionData("withdraw", [token, amountWei, to]);
-
-    // Gas/fee configuration with per-tool env overrides
-    const base = defaultGasAndFee("light");
-    const gasOverride = 1_000_000;
-    const feeOverride = 3_000_000;
-    const gas = Number.isFinite(gasOverride) && gasOverride > 0 ? Math.trunc(gasOverride) : base.gas;
-    const fee = Number.isFinite(feeOverride) && feeOverride > 0 ? new Hbar(feeOverride) : base.fee;
-
-    const tx = new ContractExecuteTransaction()
-      .setContractId(contractIdFromEvm(lendingPool))
-      .setGas(gas)
-      .setFunctionParameters(Buffer.from(data.slice(2), "hex"))
-      .setMaxTransactionFee(fee);
-
-    if (context.mode === AgentMode.AUTONOMOUS) {
-      const resp = await tx.execute(client);
-      const receipt = await resp.getReceipt(client);
-      return handleResponse(
-        { transactionId: resp.transactionId.toString(), status: receipt.status.toString() },
-        `Withdraw submitted. Status: ${receipt.status.toString()} TxId: ${resp.transactionId.toString()}`
-      );
+
+    // Refuse withdrawals that would push the health factor below the configured floor
+    const operatorId = client.operatorAccountId?.toString();
+    if (operatorId) {
+      const owner = await getEvmAliasAddress(client, operatorId);
+      const healthCheck = await preflightWithdraw(client, network, owner, tokenSymbol.toUpperCase(), amountWei, decimals, optional?.acknowledgeRisk);
+      if (!healthCheck.ok) {
+        return healthCheck.message;
+      }
     }
 
-    const bytes = await buildTxBytes(tx, client);
-    return handleResponse({ bytes }, `Transaction prepared. Hex: ${bytes.toString("hex")}`);
+    // The recipient must be associated with the HTS underlying before it can receive it
+    const association = await buildAssociationIfNeeded(client, targetId, token, tokenSymbol.toUpperCase());
+    const withdrawStep = buildWithdrawStep(network, tokenSymbol.toUpperCase(), token, amountWei, to);
+    if (optional?.dryRun) {
+      return dryRunTransactions(client, association ? [association, withdrawStep] : [withdrawStep], "Withdraw");
+    }
+    return executePlan(client, context, association ? [association, withdrawStep] : [withdrawStep], "Withdraw");
   } catch (error) {
     console.error("[BonzoWithdraw] Error:", error);
     if (error instanceof Error) {
       const network = getNetworkKey(client);
       const available = getAvailableSymbols(network).join(", ");
-      return `Withdraw failed: ${error.message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
+      const message = await describeTransactionError(client, error);
+      return `Withdraw failed: ${message}. Network: ${network}. Available tokens: ${available || "<none>"}`;
     }
     return "Withdraw failed";
   }